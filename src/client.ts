@@ -0,0 +1,3 @@
+export * from "./filter-client.js";
+export type * from "./types/index.js";
+export { stringifyFilterQueryString } from "./utils/stringify-filter-query-string.js";
@@ -0,0 +1,775 @@
+import {
+  FilterClientDefinition,
+  FilterClientField,
+  FilterClientLimits,
+  FilterClientRelation,
+  Operator,
+} from "./types/index.js";
+import { getConditionCost } from "./utils/get-condition-cost.js";
+import { RELATIVE_DATE_PATTERN } from "./utils/parse-relative-date.js";
+import { stringifyFilterQueryString } from "./utils/stringify-filter-query-string.js";
+
+/**
+ * The field names of a filter input type.
+ * @internal
+ */
+type FieldName<Input> = Exclude<
+  Extract<keyof Input, string>,
+  "$and" | "$or" | "$not"
+>;
+
+/**
+ * The operator object of a field input type.
+ * @internal
+ */
+type ComparisonInput<Value> = Exclude<
+  Extract<Value, object>,
+  Date | readonly unknown[]
+>;
+
+/**
+ * The value type of an operator of a field, `never` if the field does not accept the operator.
+ * @internal
+ */
+type OperatorValue<Value, Op extends Operator> = unknown extends Value
+  ? unknown
+  : Op extends keyof ComparisonInput<Value>
+    ? Exclude<ComparisonInput<Value>[Op], undefined>
+    : never;
+
+/**
+ * The filter input type of a to-one relation.
+ * @internal
+ */
+type RelationInput<Value> = unknown extends Value
+  ? Record<string, unknown>
+  : Extract<Exclude<Value, undefined>, object>;
+
+/**
+ * The filter input type of the items of a collection.
+ * @internal
+ */
+type CollectionItemInput<Value> = unknown extends Value
+  ? Record<string, unknown>
+  : Exclude<Value, undefined> extends { $some?: infer Item }
+    ? Extract<Item, object>
+    : never;
+
+/**
+ * Operators matching a pattern, at most one of them is allowed per comparison object.
+ * @internal
+ */
+const PATTERN_OPERATORS: Operator[] = [
+  "$like",
+  "$ilike",
+  "$startsWith",
+  "$endsWith",
+  "$includes",
+];
+
+/**
+ * Matches the ISO dates and date-times accepted by the server.
+ * @internal
+ */
+const ISO_DATE_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(T([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?(Z|[+-]([01]\d|2[0-3]):[0-5]\d)?)?$/;
+
+/**
+ * Checks whether a string is an ISO date or date-time with an existing calendar date.
+ * @internal
+ */
+function isIsoDate(value: string): boolean {
+  const match = ISO_DATE_PATTERN.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [year, month, day] = match.slice(1, 4).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Checks whether a value matches the type of a field.
+ * @internal
+ */
+function isFieldValue(field: FilterClientField, value: unknown): boolean {
+  switch (field.type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "date":
+      if (value instanceof Date) {
+        return !Number.isNaN(value.getTime());
+      }
+      return (
+        typeof value === "string" &&
+        (isIsoDate(value) ||
+          (field.relative === true && RELATIVE_DATE_PATTERN.test(value)))
+      );
+    case "enum":
+      return (field.values ?? []).includes(value as string | number);
+  }
+}
+
+/**
+ * Validates the field conditions, nesting and limits of a filter created by a client.
+ *
+ * @returns The number of field conditions and the cost of the filter
+ * @internal
+ */
+function checkFilter(
+  filter: Record<string, unknown>,
+  relation: Omit<FilterClientRelation, "collection">,
+  limits: FilterClientLimits,
+  depth: number
+): { conditions: number; cost: number } {
+  const measured = { conditions: 0, cost: 0 };
+  const checkNested = (nested: unknown, nestedRelation = relation) => {
+    if (depth >= limits.maxDepth) {
+      throw new Error(
+        `Filter cannot be nested more than ${limits.maxDepth} levels`
+      );
+    }
+    const { conditions, cost } = checkFilter(
+      nested as Record<string, unknown>,
+      nestedRelation,
+      limits,
+      depth + 1
+    );
+    measured.conditions += conditions;
+    measured.cost += cost;
+  };
+
+  let fieldConditions = 0;
+  for (const [key, value] of Object.entries(filter)) {
+    if (key === "$and" || key === "$or") {
+      const items = value as unknown[];
+      const max = key === "$and" ? limits.maxAndBranches : limits.maxOrBranches;
+      if (max !== undefined && items.length > max) {
+        throw new Error(`${key} cannot have more than ${max} branches`);
+      }
+      items.forEach((item) => checkNested(item));
+      continue;
+    }
+    if (key === "$not") {
+      checkNested(value);
+      continue;
+    }
+
+    fieldConditions++;
+    const nestedRelation = relation.relations[key];
+    if (nestedRelation?.collection) {
+      Object.values(value as Record<string, unknown>).forEach((item) =>
+        checkNested(item, nestedRelation)
+      );
+      continue;
+    }
+    if (nestedRelation) {
+      checkNested(value, nestedRelation);
+      continue;
+    }
+
+    const field = relation.fields[key];
+    if (!field) {
+      throw new Error(`Unknown field "${key}"`);
+    }
+    const operators = value as Record<string, unknown>;
+    if (Object.keys(operators).length === 0) {
+      throw new Error(`Field "${key}" has no conditions`);
+    }
+    // Pattern operators are compiled before the server measures the cost
+    const compiled = Object.fromEntries(
+      Object.entries(operators).map(([operator, operand]) => [
+        ["$startsWith", "$endsWith", "$includes"].includes(operator)
+          ? field.caseSensitive
+            ? "$like"
+            : "$ilike"
+          : operator,
+        operand,
+      ])
+    );
+    measured.conditions++;
+    measured.cost +=
+      (field.cost ?? 1) * getConditionCost(compiled, limits.operatorCosts);
+  }
+
+  if (fieldConditions > limits.maxConditions) {
+    throw new Error(
+      `Filter cannot have more than ${limits.maxConditions} field conditions`
+    );
+  }
+
+  return measured;
+}
+
+/**
+ * The filter objects of expressions, kept out of the public API of {@link FilterExpression}.
+ * @internal
+ */
+const expressionFilters = new WeakMap<object, Record<string, unknown>>();
+
+/**
+ * Returns the filter objects of expressions.
+ * @internal
+ */
+function getFilters(expressions: object[]): Record<string, unknown>[] {
+  return expressions.map((expression) => expressionFilters.get(expression)!);
+}
+
+/**
+ * Combines filters with `$and` or `$or`, flattening filters that only consist of the same operator.
+ * @internal
+ */
+function combineFilters(
+  operator: "$and" | "$or",
+  filters: Record<string, unknown>[]
+): Record<string, unknown> {
+  return {
+    [operator]: filters.flatMap((filter) => {
+      const keys = Object.keys(filter);
+      return keys.length === 1 && keys[0] === operator
+        ? (filter[operator] as Record<string, unknown>[])
+        : [filter];
+    }),
+  };
+}
+
+/**
+ * A filter created by a {@link FilterClient}, which can be combined with other filters
+ * and serialized for the server.
+ *
+ * @typeParam Input - The input type of the server schema
+ */
+export class FilterExpression<Input extends object = Record<string, unknown>> {
+  /**
+   * Creates a new FilterExpression instance.
+   *
+   * @param definition - The definition the filter is validated against
+   * @param filter - The filter object
+   */
+  constructor(
+    protected readonly definition: FilterClientDefinition,
+    filter: Record<string, unknown>
+  ) {
+    expressionFilters.set(this, filter);
+  }
+
+  /**
+   * Combines this filter with other filters using `$and`.
+   *
+   * @param expressions - The filters to combine with
+   * @returns A new filter matching when all filters match
+   */
+  and(...expressions: FilterExpression<Input>[]): FilterExpression<Input> {
+    return new FilterExpression(
+      this.definition,
+      combineFilters("$and", getFilters([this, ...expressions]))
+    );
+  }
+
+  /**
+   * Combines this filter with other filters using `$or`.
+   *
+   * @param expressions - The filters to combine with
+   * @returns A new filter matching when any filter matches
+   */
+  or(...expressions: FilterExpression<Input>[]): FilterExpression<Input> {
+    return new FilterExpression(
+      this.definition,
+      combineFilters("$or", getFilters([this, ...expressions]))
+    );
+  }
+
+  /**
+   * Negates this filter using `$not`.
+   *
+   * @returns A new filter matching when this filter does not match
+   */
+  not(): FilterExpression<Input> {
+    return new FilterExpression(this.definition, {
+      $not: expressionFilters.get(this)!,
+    });
+  }
+
+  /**
+   * Returns the filter object, e.g. for a JSON request body.
+   *
+   * @returns The filter object
+   * @throws Error if the filter exceeds the limits of the definition
+   *
+   * @remarks
+   * Called by `JSON.stringify()`, dates are serialized as ISO strings.
+   */
+  toJSON(): Input {
+    const { limits } = this.definition;
+    const filter = expressionFilters.get(this)!;
+    const { conditions, cost } = checkFilter(
+      filter,
+      this.definition,
+      limits,
+      0
+    );
+    if (
+      limits.maxTotalConditions !== undefined &&
+      conditions > limits.maxTotalConditions
+    ) {
+      throw new Error(
+        `Filter cannot have more than ${limits.maxTotalConditions} conditions in total, got ${conditions}`
+      );
+    }
+    if (limits.maxCost !== undefined && cost > limits.maxCost) {
+      throw new Error(
+        `Filter cost ${cost} exceeds the maximum cost of ${limits.maxCost}`
+      );
+    }
+    return filter as Input;
+  }
+
+  /**
+   * Serializes the filter into a URL query string in bracket notation, for schemas
+   * built with `buildQueryStringSchema()`.
+   *
+   * @param key - Optional name of the root parameter holding the filter (e.g. `"filter"`)
+   * @returns The query string, without leading `?`
+   * @throws Error if the filter exceeds the limits of the definition, or contains the
+   * string `"null"`, which would be read as `null`
+   */
+  toQueryString(key?: string): string {
+    return stringifyFilterQueryString(this.toJSON(), key);
+  }
+}
+
+/**
+ * A condition on a single field, operators can be chained to add more conditions on the field.
+ *
+ * @typeParam Input - The input type of the server schema
+ * @typeParam Name - The field name
+ *
+ * @remarks
+ * Every operator checks that the field accepts it and validates the value against the
+ * field type, nullability, enum values and `maxArrayLength`, and throws an error otherwise.
+ */
+export class FieldCondition<
+  Input extends object,
+  Name extends FieldName<Input>,
+> extends FilterExpression<Input> {
+  /**
+   * Creates a new FieldCondition instance.
+   *
+   * @param definition - The definition the filter is validated against
+   * @param field - The field name
+   * @param operators - The operators of the condition
+   */
+  constructor(
+    definition: FilterClientDefinition,
+    private readonly field: Name,
+    private readonly operators: Record<string, unknown> = {}
+  ) {
+    super(definition, { [field]: operators });
+  }
+
+  /** Adds an `$eq` condition. */
+  eq(value: OperatorValue<Input[Name], "$eq">): FieldCondition<Input, Name> {
+    return this.where("$eq", value);
+  }
+
+  /** Adds a `$ne` condition. */
+  ne(value: OperatorValue<Input[Name], "$ne">): FieldCondition<Input, Name> {
+    return this.where("$ne", value);
+  }
+
+  /** Adds a `$gt` condition. */
+  gt(value: OperatorValue<Input[Name], "$gt">): FieldCondition<Input, Name> {
+    return this.where("$gt", value);
+  }
+
+  /** Adds a `$gte` condition. */
+  gte(value: OperatorValue<Input[Name], "$gte">): FieldCondition<Input, Name> {
+    return this.where("$gte", value);
+  }
+
+  /** Adds a `$lt` condition. */
+  lt(value: OperatorValue<Input[Name], "$lt">): FieldCondition<Input, Name> {
+    return this.where("$lt", value);
+  }
+
+  /** Adds a `$lte` condition. */
+  lte(value: OperatorValue<Input[Name], "$lte">): FieldCondition<Input, Name> {
+    return this.where("$lte", value);
+  }
+
+  /** Adds an `$in` condition. */
+  in(values: OperatorValue<Input[Name], "$in">): FieldCondition<Input, Name> {
+    return this.where("$in", values);
+  }
+
+  /** Adds a `$nin` condition. */
+  nin(values: OperatorValue<Input[Name], "$nin">): FieldCondition<Input, Name> {
+    return this.where("$nin", values);
+  }
+
+  /** Adds a `$contains` condition. */
+  contains(
+    values: OperatorValue<Input[Name], "$contains">
+  ): FieldCondition<Input, Name> {
+    return this.where("$contains", values);
+  }
+
+  /** Adds an `$overlap` condition. */
+  overlap(
+    values: OperatorValue<Input[Name], "$overlap">
+  ): FieldCondition<Input, Name> {
+    return this.where("$overlap", values);
+  }
+
+  /** Adds a `$fulltext` condition. */
+  fulltext(
+    value: OperatorValue<Input[Name], "$fulltext">
+  ): FieldCondition<Input, Name> {
+    return this.where("$fulltext", value);
+  }
+
+  /** Adds a `$like` condition. */
+  like(
+    value: OperatorValue<Input[Name], "$like">
+  ): FieldCondition<Input, Name> {
+    return this.where("$like", value);
+  }
+
+  /** Adds an `$ilike` condition. */
+  ilike(
+    value: OperatorValue<Input[Name], "$ilike">
+  ): FieldCondition<Input, Name> {
+    return this.where("$ilike", value);
+  }
+
+  /** Adds a `$startsWith` condition. */
+  startsWith(
+    value: OperatorValue<Input[Name], "$startsWith">
+  ): FieldCondition<Input, Name> {
+    return this.where("$startsWith", value);
+  }
+
+  /** Adds an `$endsWith` condition. */
+  endsWith(
+    value: OperatorValue<Input[Name], "$endsWith">
+  ): FieldCondition<Input, Name> {
+    return this.where("$endsWith", value);
+  }
+
+  /** Adds an `$includes` condition. */
+  includes(
+    value: OperatorValue<Input[Name], "$includes">
+  ): FieldCondition<Input, Name> {
+    return this.where("$includes", value);
+  }
+
+  /**
+   * Validates an operator value and adds it to a copy of the condition.
+   * @internal
+   */
+  private where(
+    operator: Operator,
+    value: unknown
+  ): FieldCondition<Input, Name> {
+    const field = this.definition.fields[this.field];
+    const { maxArrayLength } = this.definition.limits;
+    const invalid = () =>
+      new Error(
+        `Invalid value for operator "${operator}" of field "${this.field}"`
+      );
+
+    if (!field.operators.includes(operator)) {
+      throw new Error(
+        `Operator "${operator}" is not allowed for field "${this.field}"`
+      );
+    }
+
+    const isValue = (item: unknown, nullable: boolean) =>
+      (nullable && item === null) || isFieldValue(field, item);
+
+    switch (operator) {
+      case "$eq":
+      case "$ne":
+        if (!isValue(value, field.nullable)) {
+          throw invalid();
+        }
+        break;
+      case "$in":
+      case "$nin":
+      case "$contains":
+      case "$overlap": {
+        const nullable =
+          field.nullable && (operator === "$in" || operator === "$nin");
+        if (
+          !Array.isArray(value) ||
+          !value.every((item) => isValue(item, nullable))
+        ) {
+          throw invalid();
+        }
+        // Empty arrays have no query string representation
+        if (value.length === 0) {
+          throw new Error(
+            `Operator "${operator}" of field "${this.field}" requires at least one value`
+          );
+        }
+        if (value.length > maxArrayLength) {
+          throw new Error(
+            `Operator "${operator}" of field "${this.field}" cannot have more than ${maxArrayLength} values`
+          );
+        }
+        break;
+      }
+      case "$like":
+      case "$ilike":
+        if (typeof value !== "string") {
+          throw invalid();
+        }
+        if (!field.leadingWildcard && /^[%_]/.test(value)) {
+          throw new Error(
+            `Leading wildcards are not allowed for field "${this.field}"`
+          );
+        }
+        break;
+      default:
+        if (!isValue(value, false)) {
+          throw invalid();
+        }
+    }
+
+    if (
+      PATTERN_OPERATORS.includes(operator) &&
+      Object.keys(this.operators).some(
+        (key) => key !== operator && PATTERN_OPERATORS.includes(key as Operator)
+      )
+    ) {
+      throw new Error(
+        `Only one pattern operator can be used per condition on field "${this.field}"`
+      );
+    }
+
+    return new FieldCondition(this.definition, this.field, {
+      ...this.operators,
+      [operator]: value,
+    });
+  }
+}
+
+/**
+ * A dependency-free builder for filters accepted by a filter query schema, for use in frontends.
+ *
+ * @remarks
+ * The client is created from the definition exported by
+ * `FilterQuerySchemaBuilder.toClientDefinition()`, and typed with the input type of the
+ * schema built from the same builder. Operators are validated when they are added, the
+ * nesting and the limits of the definition when the filter is serialized with
+ * {@link FilterExpression.toJSON} or {@link FilterExpression.toQueryString}, so filters
+ * that serialize without an error pass the server schema.
+ *
+ * @example
+ * ```typescript
+ * // Server
+ * export type PostFilter = z.input<typeof postFilterSchema>;
+ * const definition = postFilterBuilder.toClientDefinition();
+ *
+ * // Frontend
+ * const filter = new FilterClient<PostFilter>(definition);
+ *
+ * const query = filter
+ *   .field("age").gte(18)
+ *   .or(filter.field("name").in(["John", "Jane"]))
+ *   .toQueryString("filter");
+ * // Result: "filter[$or][0][age][$gte]=18&filter[$or][1][name][$in][0]=John&filter[$or][1][name][$in][1]=Jane"
+ * ```
+ *
+ * @typeParam Input - The input type of the server schema, e.g. `z.input<typeof schema>`
+ */
+export class FilterClient<Input extends object = Record<string, unknown>> {
+  /**
+   * Creates a new FilterClient instance.
+   *
+   * @param definition - The definition exported by `FilterQuerySchemaBuilder.toClientDefinition()`
+   */
+  constructor(private readonly definition: FilterClientDefinition) {}
+
+  /**
+   * Starts a condition on a field.
+   *
+   * @param name - The field name
+   * @returns A condition without operators, add them with the operator methods
+   * @throws Error if the definition has no such field
+   *
+   * @example
+   * ```typescript
+   * filter.field("age").gte(18).lt(65);
+   * // Result: { age: { $gte: 18, $lt: 65 } }
+   * ```
+   */
+  field<Name extends FieldName<Input>>(
+    name: Name
+  ): FieldCondition<Input, Name> {
+    if (!(name in this.definition.fields)) {
+      throw new Error(`Unknown field "${name}"`);
+    }
+    return new FieldCondition(this.definition, name);
+  }
+
+  /**
+   * Combines filters using `$and`.
+   *
+   * @param expressions - The filters to combine
+   * @returns A filter matching when all filters match
+   */
+  and(...expressions: FilterExpression<Input>[]): FilterExpression<Input> {
+    return new FilterExpression(
+      this.definition,
+      combineFilters("$and", getFilters(expressions))
+    );
+  }
+
+  /**
+   * Combines filters using `$or`.
+   *
+   * @param expressions - The filters to combine
+   * @returns A filter matching when any filter matches
+   */
+  or(...expressions: FilterExpression<Input>[]): FilterExpression<Input> {
+    return new FilterExpression(
+      this.definition,
+      combineFilters("$or", getFilters(expressions))
+    );
+  }
+
+  /**
+   * Negates a filter using `$not`.
+   *
+   * @param expression - The filter to negate
+   * @returns A filter matching when the filter does not match
+   */
+  not(expression: FilterExpression<Input>): FilterExpression<Input> {
+    return expression.not();
+  }
+
+  /**
+   * Creates a filter on a to-one relation.
+   *
+   * @param name - The relation name
+   * @param build - A callback building the filter of the related entity
+   * @returns A filter on the relation
+   * @throws Error if the definition has no such to-one relation
+   *
+   * @example
+   * ```typescript
+   * filter.relation("author", (author) => author.field("name").eq("John"));
+   * // Result: { author: { name: { $eq: "John" } } }
+   * ```
+   */
+  relation<Name extends FieldName<Input>>(
+    name: Name,
+    build: (
+      client: FilterClient<RelationInput<Input[Name]>>
+    ) => FilterExpression<RelationInput<Input[Name]>>
+  ): FilterExpression<Input> {
+    return this.nest<RelationInput<Input[Name]>>(
+      name,
+      false,
+      (client) => expressionFilters.get(build(client))!
+    );
+  }
+
+  /**
+   * Creates a filter matching when some items of a collection match.
+   *
+   * @param name - The collection name
+   * @param build - A callback building the filter of the collection items
+   * @returns A filter on the collection
+   * @throws Error if the definition has no such collection
+   */
+  some<Name extends FieldName<Input>>(
+    name: Name,
+    build: (
+      client: FilterClient<CollectionItemInput<Input[Name]>>
+    ) => FilterExpression<CollectionItemInput<Input[Name]>>
+  ): FilterExpression<Input> {
+    return this.nest<CollectionItemInput<Input[Name]>>(
+      name,
+      true,
+      (client) => ({
+        $some: expressionFilters.get(build(client))!,
+      })
+    );
+  }
+
+  /**
+   * Creates a filter matching when all items of a collection match.
+   *
+   * @param name - The collection name
+   * @param build - A callback building the filter of the collection items
+   * @returns A filter on the collection
+   * @throws Error if the definition has no such collection
+   */
+  every<Name extends FieldName<Input>>(
+    name: Name,
+    build: (
+      client: FilterClient<CollectionItemInput<Input[Name]>>
+    ) => FilterExpression<CollectionItemInput<Input[Name]>>
+  ): FilterExpression<Input> {
+    return this.nest<CollectionItemInput<Input[Name]>>(
+      name,
+      true,
+      (client) => ({
+        $every: expressionFilters.get(build(client))!,
+      })
+    );
+  }
+
+  /**
+   * Creates a filter matching when no items of a collection match.
+   *
+   * @param name - The collection name
+   * @param build - A callback building the filter of the collection items
+   * @returns A filter on the collection
+   * @throws Error if the definition has no such collection
+   */
+  none<Name extends FieldName<Input>>(
+    name: Name,
+    build: (
+      client: FilterClient<CollectionItemInput<Input[Name]>>
+    ) => FilterExpression<CollectionItemInput<Input[Name]>>
+  ): FilterExpression<Input> {
+    return this.nest<CollectionItemInput<Input[Name]>>(
+      name,
+      true,
+      (client) => ({
+        $none: expressionFilters.get(build(client))!,
+      })
+    );
+  }
+
+  /**
+   * Builds a filter with a client for a relation and mounts it under the relation name.
+   * @internal
+   */
+  private nest<Nested extends object>(
+    name: string,
+    collection: boolean,
+    build: (client: FilterClient<Nested>) => Record<string, unknown>
+  ): FilterExpression<Input> {
+    const relation = this.definition.relations[name];
+    if (!relation || relation.collection !== collection) {
+      throw new Error(
+        `Unknown ${collection ? "collection" : "relation"} "${name}"`
+      );
+    }
+
+    const client = new FilterClient<Nested>({
+      fields: relation.fields,
+      relations: relation.relations,
+      limits: this.definition.limits,
+    });
+    return new FilterExpression(this.definition, { [name]: build(client) });
+  }
+}
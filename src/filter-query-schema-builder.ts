@@ -1,15 +1,68 @@
-import { FilterQuery } from "@mikro-orm/core";
+import { EntityMetadata, FilterQuery } from "@mikro-orm/core";
 import { z } from "zod";
 
+import { DateOptions } from "./interfaces/date-options.interface.js";
+import { FilterMessageParams } from "./interfaces/filter-message-params.interface.js";
 import { FilterOptions } from "./interfaces/filter-options.interface.js";
+import { FilterValidationIssue } from "./interfaces/filter-validation-issue.interface.js";
+import { FilterVisitorInfo } from "./interfaces/filter-visitor-info.interface.js";
+import { GraphQLSdlOptions } from "./interfaces/graphql-sdl-options.interface.js";
+import { JsonSchemaOptions } from "./interfaces/json-schema-options.interface.js";
+import { MetadataFieldOptions } from "./interfaces/metadata-field-options.interface.js";
+import { PatternOptions } from "./interfaces/pattern-options.interface.js";
+import { QueryStringOptions } from "./interfaces/query-string-options.interface.js";
 import {
+  CollectionInput,
+  EnumValue,
+  EnumValues,
+  FieldInput,
+  FieldInputOptions,
   FieldOptions,
   FieldType,
+  FilterClientDefinition,
+  FilterClientField,
+  FilterClientRelation,
+  FilterCompiler,
+  FilterErrorCode,
+  FilterInput,
+  FilterMessageCatalog,
+  FilterNode,
+  FilterScope,
+  FilterVisitor,
+  FilterVisitorNode,
+  JsonSchema,
   Operator,
   ReplacementCallbackFieldOptions,
   ReplacementFieldOptions,
 } from "./types/index.js";
-import { setNestedValue } from "./utils/index.js";
+import {
+  findClosestMatch,
+  formatFilterMessage,
+  getConditionCost,
+  getEnumValues,
+  getFieldOperators,
+  getPropertyFieldType,
+  mergeFilterQuery,
+  parseDateValue,
+  parseFilterNode,
+  parseFilterQueryString,
+  parseRelativeDate,
+  RELATIVE_DATE_PATTERN,
+  setNestedValue,
+  toLikePattern,
+} from "./utils/index.js";
+
+/**
+ * Maps the keys of the captured field options that no field option variant declares
+ * to `never`, restoring the excess property check lost by capturing the options.
+ * @internal
+ */
+type ExcessFieldOptions<Options, Allowed> = {
+  [Key in Exclude<
+    keyof Options,
+    Allowed extends unknown ? keyof Allowed : never
+  >]?: never;
+};
 
 /**
  * Type guard to check if field options have a string replacement.
@@ -31,6 +84,38 @@ function hasCallbackReplacement<Entity extends object>(
   return "replacement" in options && typeof options.replacement === "function";
 }
 
+/**
+ * Checks whether the caller described by the context may filter by a field.
+ * @internal
+ */
+function isFieldAccessible(
+  access: string[] | ((context: unknown) => boolean) | undefined,
+  context: unknown
+): boolean {
+  if (access === undefined) {
+    return true;
+  }
+  if (typeof access === "function") {
+    return access(context);
+  }
+
+  const roles = (context as { roles?: unknown } | undefined)?.roles;
+  return Array.isArray(roles) && access.some((role) => roles.includes(role));
+}
+
+/**
+ * Checks whether a string is an IANA time zone known to the runtime.
+ * @internal
+ */
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Type guard to check if a string is a valid operator.
  * @internal
@@ -48,15 +133,151 @@ function isOperator(key: string): key is Operator {
     "$fulltext",
     "$contains",
     "$overlap",
+    "$like",
+    "$ilike",
+    "$startsWith",
+    "$endsWith",
+    "$includes",
   ];
   return operators.includes(key as Operator);
 }
 
+/**
+ * Operators whose values are patterns or search terms rather than field values,
+ * they are not passed to resolvers.
+ * @internal
+ */
+const UNRESOLVED_OPERATORS: string[] = ["$like", "$ilike", "$fulltext"];
+
+/**
+ * Runs visitors on a node in order, returns `null` if a visitor dropped it.
+ * @internal
+ */
+function applyVisitors(
+  node: FilterVisitorNode,
+  visitors: FilterVisitor<unknown>[],
+  info: FilterVisitorInfo<unknown>
+): FilterVisitorNode | null {
+  let current = node;
+  for (const visitor of visitors) {
+    const result = visitor(current, info);
+    if (result === null) {
+      return null;
+    }
+    if (result) {
+      current = result;
+    }
+  }
+  return current;
+}
+
+/**
+ * Adds a visited node to a filter object, nodes colliding with existing
+ * conditions are combined with `$and`.
+ * @internal
+ */
+function addVisitedNode(
+  result: Record<string, unknown>,
+  node: FilterVisitorNode,
+  direct: boolean
+): void {
+  const addAnd = (...conditions: Record<string, unknown>[]) => {
+    result.$and = [
+      ...((result.$and as unknown[] | undefined) ?? []),
+      ...conditions,
+    ];
+  };
+
+  switch (node.type) {
+    case "and":
+      addAnd(...node.conditions);
+      break;
+    case "or":
+      if ("$or" in result) {
+        addAnd({ $or: node.conditions });
+      } else {
+        result.$or = node.conditions;
+      }
+      break;
+    case "not":
+      if ("$not" in result) {
+        addAnd({ $not: node.condition });
+      } else {
+        result.$not = node.condition;
+      }
+      break;
+    case "condition": {
+      const { field, operator, value } = node;
+      const existing = result[field];
+      if (!(field in result)) {
+        // Direct values stay direct unless the operator was rewritten
+        result[field] =
+          direct && operator === "$eq" ? value : { [operator]: value };
+      } else if (isDirectValue(existing)) {
+        if (operator === "$eq") {
+          addAnd({ [field]: value });
+        } else {
+          result[field] = { $eq: existing, [operator]: value };
+        }
+      } else if (operator in (existing as Record<string, unknown>)) {
+        addAnd({ [field]: { [operator]: value } });
+      } else {
+        result[field] = { ...(existing as object), [operator]: value };
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Checks whether a field value is a direct value rather than an operator object.
+ * @internal
+ */
+function isDirectValue(value: unknown): boolean {
+  return (
+    value === null ||
+    typeof value !== "object" ||
+    Array.isArray(value) ||
+    value instanceof Date
+  );
+}
+
+/**
+ * Calls `compose` with the values, once they are settled if any of them is a promise.
+ * @internal
+ */
+function whenSettled<T, Result>(
+  values: (T | Promise<T>)[],
+  compose: (values: T[]) => Result
+): Result | Promise<Result> {
+  return values.some((value) => value instanceof Promise)
+    ? Promise.all(values).then(compose)
+    : compose(values as T[]);
+}
+
+/**
+ * Resolves the `messages` option for a request context.
+ * @internal
+ */
+function resolveMessages(
+  options: FilterOptions,
+  context: unknown
+): Partial<FilterMessageCatalog> | undefined {
+  return typeof options.messages === "function"
+    ? options.messages(context)
+    : options.messages;
+}
+
 /**
  * Creates a Zod schema for a specific field type.
  * @internal
  */
-function getValueSchema(type: FieldType): z.ZodTypeAny {
+function getValueSchema(
+  type: FieldType,
+  values: EnumValue[] = [],
+  relative = false,
+  invalidDateMessage?: string
+): z.ZodTypeAny {
   switch (type) {
     case "string":
       return z.string();
@@ -64,13 +285,150 @@ function getValueSchema(type: FieldType): z.ZodTypeAny {
       return z.number();
     case "boolean":
       return z.boolean();
-    case "date":
-      return z.union([
+    case "date": {
+      const isoSchema = z.union([
         z.iso.datetime({ offset: true, local: true }),
         z.iso.date(),
+      ]);
+      if (!relative) {
+        return z.union([isoSchema, z.date()]);
+      }
+      // A single string branch, so that its message is reported for malformed strings
+      return z.union([
+        z
+          .string()
+          .refine(
+            (value) =>
+              RELATIVE_DATE_PATTERN.test(value) ||
+              isoSchema.safeParse(value).success,
+            {
+              message: invalidDateMessage,
+            }
+          ),
         z.date(),
       ]);
+    }
+    case "enum":
+      return values.length > 0 ? z.literal(values) : z.never();
+  }
+}
+
+/**
+ * Converts a query string value to the given field type where possible.
+ * Values that cannot be converted are returned unchanged and fail validation.
+ * @internal
+ */
+function coerceQueryStringValue(
+  type: FieldType,
+  value: unknown,
+  values: EnumValue[] = []
+): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+
+  switch (type) {
+    case "number": {
+      const number = Number(value);
+      return value.trim() !== "" && Number.isFinite(number) ? number : value;
+    }
+    case "boolean":
+      return value === "true" ? true : value === "false" ? false : value;
+    case "enum":
+      // Numeric enum values arrive as strings
+      return !values.includes(value) && values.includes(Number(value))
+        ? Number(value)
+        : value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Wraps a schema to convert the query string value `"null"` to `null`.
+ * @internal
+ */
+function coerceQueryStringNull(schema: z.ZodTypeAny): z.ZodTypeAny {
+  return z.preprocess((value) => (value === "null" ? null : value), schema);
+}
+
+/**
+ * Operators matching a pattern, at most one of them is allowed per comparison object.
+ * @internal
+ */
+const PATTERN_OPERATORS: Operator[] = [
+  "$like",
+  "$ilike",
+  "$startsWith",
+  "$endsWith",
+  "$includes",
+];
+
+/**
+ * Compiles `$startsWith`, `$endsWith` and `$includes` into an escaped `$like` / `$ilike`.
+ * @internal
+ */
+function compilePatternOperators(
+  obj: Record<string, unknown>,
+  caseSensitive: boolean
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const target = caseSensitive ? "$like" : "$ilike";
+
+  for (const [operator, value] of Object.entries(obj)) {
+    if (typeof value !== "string") {
+      result[operator] = value;
+      continue;
+    }
+
+    if (["$startsWith", "$endsWith", "$includes"].includes(operator)) {
+      result[target] = toLikePattern(operator, value);
+    } else {
+      result[operator] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Resolves the values of a validated date condition.
+ *
+ * @remarks
+ * Values of `$gt` and `$lte` are upper bounds, with `endOfDay` their date-only
+ * values and roundings resolve to the end of the day or unit, so that both
+ * operators include or exclude the whole day.
+ *
+ * @internal
+ */
+function coerceDateCondition(
+  condition: unknown,
+  resolveValue: (value: string | Date, isUpperBound: boolean) => unknown
+): unknown {
+  const coerceValue = (value: unknown, isUpperBound = false): unknown => {
+    if (Array.isArray(value)) {
+      return value.map((item) => coerceValue(item));
+    }
+    return typeof value === "string" || value instanceof Date
+      ? resolveValue(value, isUpperBound)
+      : value;
+  };
+
+  if (
+    condition === null ||
+    typeof condition !== "object" ||
+    condition instanceof Date ||
+    Array.isArray(condition)
+  ) {
+    return coerceValue(condition);
   }
+
+  return Object.fromEntries(
+    Object.entries(condition).map(([operator, value]) => [
+      operator,
+      coerceValue(value, operator === "$gt" || operator === "$lte"),
+    ])
+  );
 }
 
 /**
@@ -78,51 +436,353 @@ function getValueSchema(type: FieldType): z.ZodTypeAny {
  * @internal
  */
 function createTypedComparisonSchema(
+  field: string,
   type: FieldType,
   maxArrayLength: number,
-  options?: { array?: boolean; fulltext?: boolean }
+  options?: {
+    array?: boolean;
+    fulltext?: boolean;
+    nullable?: boolean;
+    patterns?: boolean | PatternOptions;
+    operators?: { include?: Operator[]; exclude?: Operator[] };
+    values?: EnumValue[];
+    coerce?: boolean;
+    dates?: DateOptions;
+    relative?: boolean;
+    now?: () => Date;
+    messages?: Partial<FilterMessageCatalog>;
+  }
 ): z.ZodTypeAny {
-  const valueSchema = getValueSchema(type);
-  const valueWithNull = z.union([valueSchema, z.null()]);
+  const nullable = options?.nullable ?? true;
+  const coerce = options?.coerce ?? false;
+  const relative = options?.relative ?? false;
+  const message = (code: FilterErrorCode, params?: FilterMessageParams) =>
+    formatFilterMessage(
+      code,
+      { field, type, relative, values: options?.values, ...params },
+      options?.messages
+    );
+  const invalidDateMessage = message("invalid_value", { expected: "date" });
+  const valueSchema = coerce
+    ? z.preprocess(
+        (value) => coerceQueryStringValue(type, value, options?.values),
+        getValueSchema(type, options?.values, relative, invalidDateMessage)
+      )
+    : getValueSchema(type, options?.values, relative, invalidDateMessage);
+  const valueWithNull = nullable
+    ? coerce
+      ? coerceQueryStringNull(z.union([valueSchema, z.null()]))
+      : z.union([valueSchema, z.null()])
+    : valueSchema;
+
+  // A single query string value for an array operator is a one-element array
+  const arrayOf = (
+    itemSchema: z.ZodTypeAny,
+    operator: Operator
+  ): z.ZodTypeAny => {
+    const arraySchema = z.array(itemSchema).max(maxArrayLength, {
+      message: message("too_many_values", { operator, limit: maxArrayLength }),
+    });
+    return coerce
+      ? z.preprocess(
+          (value) =>
+            value === undefined || Array.isArray(value) ? value : [value],
+          arraySchema
+        )
+      : arraySchema;
+  };
+
+  const operators = getFieldOperators(type, options);
+  const patterns: PatternOptions =
+    typeof options?.patterns === "object" ? options.patterns : {};
+
+  const comparisonFields: Record<string, z.ZodTypeAny> = {};
+  for (const operator of operators) {
+    switch (operator) {
+      case "$eq":
+      case "$ne":
+        comparisonFields[operator] = valueWithNull.optional();
+        break;
+      case "$in":
+      case "$nin":
+        comparisonFields[operator] = arrayOf(
+          valueWithNull,
+          operator
+        ).optional();
+        break;
+      case "$contains":
+      case "$overlap":
+        comparisonFields[operator] = arrayOf(valueSchema, operator).optional();
+        break;
+      case "$like":
+      case "$ilike":
+        comparisonFields[operator] = (
+          patterns.leadingWildcard
+            ? valueSchema
+            : valueSchema.refine((value) => !/^[%_]/.test(String(value)), {
+                message: message("leading_wildcard", { operator }),
+                params: { code: "leading_wildcard" },
+              })
+        ).optional();
+        break;
+      default:
+        comparisonFields[operator] = valueSchema.optional();
+    }
+  }
+
+  // Unknown keys are reported by a refinement instead of a strict object, refinement
+  // issues do not abort, so the union reports them instead of a generic union error
+  const comparisonObjectSchema = z
+    .looseObject(comparisonFields)
+    .superRefine((obj, ctx) => {
+      for (const key of Object.keys(obj)) {
+        if (!(key in comparisonFields)) {
+          ctx.addIssue({
+            code: "custom",
+            message: message("operator_not_allowed", { operator: key }),
+            path: [key],
+            params: { code: "operator_not_allowed", operator: key },
+          });
+        }
+      }
 
-  const comparisonFields: Record<string, z.ZodTypeAny> = {
-    $eq: valueWithNull.optional(),
-    $ne: valueWithNull.optional(),
+      const patternKeys = Object.keys(obj).filter((key) =>
+        PATTERN_OPERATORS.includes(key as Operator)
+      );
+      if (patternKeys.length > 1) {
+        ctx.addIssue({
+          code: "custom",
+          message: message("multiple_patterns", { operator: patternKeys[1] }),
+          path: [patternKeys[1]],
+          params: { code: "multiple_patterns" },
+        });
+      }
+    });
+
+  // Direct assignment is equivalent to $eq
+  const directNotAllowed = {
+    message: message("operator_not_allowed", { operator: "$eq" }),
+    params: { code: "operator_not_allowed", operator: "$eq" },
   };
+  const directValueSchema = operators.includes("$eq")
+    ? valueSchema
+    : valueSchema.refine(() => false, directNotAllowed);
+  const directNullSchema = operators.includes("$eq")
+    ? z.null()
+    : z.null().refine(() => false, directNotAllowed);
+
+  // Support direct assignment, null value, or comparison object
+  let fieldSchema: z.ZodTypeAny = nullable
+    ? z.union([directValueSchema, directNullSchema, comparisonObjectSchema])
+    : z.union([directValueSchema, comparisonObjectSchema]);
+
+  // Compiled outside of the union, a failing transform input would hide the union issues
+  if (
+    operators.some((operator) =>
+      ["$startsWith", "$endsWith", "$includes"].includes(operator)
+    )
+  ) {
+    fieldSchema = fieldSchema.transform((value) =>
+      value !== null && typeof value === "object" && !(value instanceof Date)
+        ? compilePatternOperators(
+            value as Record<string, unknown>,
+            patterns.caseSensitive ?? false
+          )
+        : value
+    );
+  }
 
-  // Comparison operators only apply to number and date types
-  if (type === "number" || type === "date") {
-    comparisonFields.$gt = valueSchema.optional();
-    comparisonFields.$gte = valueSchema.optional();
-    comparisonFields.$lt = valueSchema.optional();
-    comparisonFields.$lte = valueSchema.optional();
+  if (type === "date" && (options?.dates || relative)) {
+    const dates = options?.dates;
+    const { timeZone = "UTC", endOfDay = true } = dates ?? {};
+    fieldSchema = fieldSchema.transform((value, ctx) => {
+      const now = options?.now?.() ?? new Date();
+      let isOutOfRange = false;
+      const condition = coerceDateCondition(value, (date, isUpperBound) => {
+        if (typeof date === "string" && RELATIVE_DATE_PATTERN.test(date)) {
+          const resolved = parseRelativeDate(
+            date,
+            now,
+            timeZone,
+            endOfDay && isUpperBound
+          );
+          isOutOfRange ||= resolved === undefined;
+          return resolved;
+        }
+        // Absolute values are only converted with the dates option
+        return dates
+          ? parseDateValue(date, timeZone, endOfDay && isUpperBound)
+          : date;
+      });
+
+      if (isOutOfRange) {
+        ctx.addIssue({
+          code: "custom",
+          message: invalidDateMessage,
+          params: { code: "invalid_value" },
+        });
+        return z.NEVER;
+      }
+      return condition;
+    });
   }
 
-  // $in and $nin apply to all types
-  comparisonFields.$in = z.array(valueWithNull).max(maxArrayLength).optional();
-  comparisonFields.$nin = z.array(valueWithNull).max(maxArrayLength).optional();
+  return coerce && nullable ? coerceQueryStringNull(fieldSchema) : fieldSchema;
+}
 
-  // Array field specific operators
-  if (options?.array) {
-    comparisonFields.$contains = z
-      .array(valueSchema)
-      .max(maxArrayLength)
-      .optional();
-    comparisonFields.$overlap = z
-      .array(valueSchema)
-      .max(maxArrayLength)
-      .optional();
+/**
+ * Creates a JSON Schema for a specific field type.
+ * @internal
+ */
+function getJsonValueSchema(
+  type: FieldType,
+  values: EnumValue[] = [],
+  relative = false
+): JsonSchema {
+  switch (type) {
+    case "string":
+      return { type: "string" };
+    case "number":
+      return { type: "number" };
+    case "boolean":
+      return { type: "boolean" };
+    case "date":
+      return {
+        anyOf: [
+          { type: "string", format: "date-time" },
+          { type: "string", format: "date" },
+          ...(relative
+            ? [{ type: "string", pattern: RELATIVE_DATE_PATTERN.source }]
+            : []),
+        ],
+      };
+    case "enum":
+      return { enum: values };
   }
+}
 
-  // Fulltext search operator (only for string fields)
-  if (options?.fulltext) {
-    comparisonFields.$fulltext = valueSchema.optional();
+/**
+ * Creates a JSON Schema mirroring {@link createTypedComparisonSchema}.
+ * @internal
+ */
+function createFieldJsonSchema(
+  type: FieldType,
+  maxArrayLength: number,
+  options?: {
+    array?: boolean;
+    fulltext?: boolean;
+    nullable?: boolean;
+    patterns?: boolean | PatternOptions;
+    operators?: { include?: Operator[]; exclude?: Operator[] };
+    values?: EnumValue[];
+    relative?: boolean;
   }
+): JsonSchema {
+  const nullable = options?.nullable ?? true;
+  const valueSchema = getJsonValueSchema(
+    type,
+    options?.values,
+    options?.relative
+  );
+  const nullSchema: JsonSchema = { type: "null" };
+  const valueWithNull: JsonSchema = nullable
+    ? { anyOf: [valueSchema, nullSchema] }
+    : valueSchema;
 
-  const comparisonObjectSchema = z.object(comparisonFields).strict();
+  const properties: Record<string, JsonSchema> = {};
+  for (const operator of getFieldOperators(type, options)) {
+    switch (operator) {
+      case "$eq":
+      case "$ne":
+        properties[operator] = valueWithNull;
+        break;
+      case "$in":
+      case "$nin":
+        properties[operator] = {
+          type: "array",
+          items: valueWithNull,
+          maxItems: maxArrayLength,
+        };
+        break;
+      case "$contains":
+      case "$overlap":
+        properties[operator] = {
+          type: "array",
+          items: valueSchema,
+          maxItems: maxArrayLength,
+        };
+        break;
+      default:
+        properties[operator] = valueSchema;
+    }
+  }
 
-  // Support direct assignment, null value, or comparison object
-  return z.union([valueSchema, z.null(), comparisonObjectSchema]);
+  const comparisonObjectSchema: JsonSchema = {
+    type: "object",
+    properties,
+    additionalProperties: false,
+  };
+
+  // Direct assignment is equivalent to $eq
+  if (!("$eq" in properties)) {
+    return comparisonObjectSchema;
+  }
+
+  return {
+    anyOf: nullable
+      ? [valueSchema, nullSchema, comparisonObjectSchema]
+      : [valueSchema, comparisonObjectSchema],
+  };
+}
+
+/**
+ * Matches the names allowed for GraphQL types, fields and enum values.
+ * @internal
+ */
+const GRAPHQL_NAME_PATTERN = /^[_A-Za-z][_0-9A-Za-z]*$/;
+
+/**
+ * Creates a GraphQL comparison input type, operators are named without `$`.
+ * @internal
+ */
+function createGraphQLComparison(
+  name: string,
+  scalar: string,
+  operators: Operator[]
+): string {
+  const fields = operators.map((operator) => {
+    switch (operator) {
+      case "$in":
+      case "$nin":
+        return `  ${operator.slice(1)}: [${scalar}]`;
+      case "$contains":
+      case "$overlap":
+        return `  ${operator.slice(1)}: [${scalar}!]`;
+      case "$fulltext":
+      case "$like":
+      case "$ilike":
+      case "$startsWith":
+      case "$endsWith":
+      case "$includes":
+        return `  ${operator.slice(1)}: String`;
+      default:
+        return `  ${operator.slice(1)}: ${scalar}`;
+    }
+  });
+  return `input ${name} {\n${fields.join("\n")}\n}`;
+}
+
+/**
+ * Formats an issue path like `$or[2].age.$gte`.
+ * @internal
+ */
+function formatIssuePath(path: PropertyKey[]): string {
+  return path.reduce<string>((result, segment) => {
+    if (typeof segment === "number") {
+      return `${result}[${segment}]`;
+    }
+    return result ? `${result}.${String(segment)}` : String(segment);
+  }, "");
 }
 
 /**
@@ -163,8 +823,17 @@ function createTypedComparisonSchema(
  * // Input: { authorName: "John" }
  * // Output: { author: { name: "John" } }
  * ```
+ *
+ * @typeParam Entity - The entity type being filtered
+ * @typeParam Context - The request context passed to `build()`, used by scopes
+ * @typeParam Input - The input types of the added fields, accumulated by `addField()`,
+ * `addRelation()` and `addCollection()`
  */
-export class FilterQuerySchemaBuilder<Entity extends object> {
+export class FilterQuerySchemaBuilder<
+  Entity extends object,
+  Context = unknown,
+  Input extends object = object,
+> {
   private readonly options: FilterOptions;
 
   private readonly fieldOptionsMap = new Map<
@@ -172,6 +841,15 @@ export class FilterQuerySchemaBuilder<Entity extends object> {
     FieldOptions<Entity, FieldType, string>
   >();
 
+  private readonly relationMap = new Map<
+    string,
+    { builder: FilterQuerySchemaBuilder<object>; collection: boolean }
+  >();
+
+  private readonly scopes: FilterScope<Entity, Context>[] = [];
+
+  private readonly visitors: FilterVisitor<Context>[] = [];
+
   /**
    * Creates a new FilterQuerySchemaBuilder instance.
    *
@@ -183,8 +861,92 @@ export class FilterQuerySchemaBuilder<Entity extends object> {
       maxConditions: 20,
       maxOrBranches: 5,
       maxArrayLength: 100,
+      forbiddenFields: "reject",
+      mergeStrategy: "deep",
+      now: () => new Date(),
       ...(options ?? {}),
+      operatorCosts: { $fulltext: 10, ...options?.operatorCosts },
     };
+
+    const timeZone = this.options.dates?.timeZone;
+    if (timeZone !== undefined && !isTimeZone(timeZone)) {
+      throw new Error(`Unknown time zone "${timeZone}"`);
+    }
+  }
+
+  /**
+   * Creates a builder with fields derived from MikroORM entity metadata.
+   *
+   * @typeParam Entity - The entity type being filtered
+   * @param meta - The entity metadata, e.g. from `orm.getMetadata().get(Post)`
+   * @param fieldOptions - Optional include/exclude lists for the derived fields
+   * @param options - Optional configuration for validation limits
+   * @returns A builder with one field per supported entity property
+   *
+   * @remarks
+   * The field type, `array` flag and nullability of each field are taken from the
+   * property metadata, enum properties become enum fields with their enum items as
+   * values. Many-to-one and one-to-one relations are added using the type of the
+   * target primary key. Properties whose type cannot be mapped to a
+   * {@link FieldType} are skipped, unless they are listed in `include`, in which
+   * case an error is thrown. This includes properties declared with a union type
+   * like `Date | null` when the metadata comes from the `ReflectMetadataProvider`,
+   * as their design type is `Object`, unless the decorator sets the `type`. More
+   * fields can still be added with {@link FilterQuerySchemaBuilder.addField}. As the
+   * fields are only known at runtime, the input type of the built schema accepts
+   * any field.
+   *
+   * @example
+   * ```typescript
+   * const schema = FilterQuerySchemaBuilder.fromMetadata(
+   *   orm.getMetadata().get(Post),
+   *   { exclude: ["content"] }
+   * ).build();
+   *
+   * schema.parse({ tags: { $contains: ["orm"] }, viewCount: { $gte: 10 } });
+   * ```
+   */
+  static fromMetadata<Entity extends object>(
+    meta: EntityMetadata<Entity>,
+    fieldOptions?: MetadataFieldOptions<Entity>,
+    options?: Partial<FilterOptions>
+  ): FilterQuerySchemaBuilder<Entity, unknown, Record<string, unknown>> {
+    const builder = new FilterQuerySchemaBuilder<
+      Entity,
+      unknown,
+      Record<string, unknown>
+    >(options);
+    const include = fieldOptions?.include;
+    const exclude = fieldOptions?.exclude ?? [];
+
+    for (const prop of meta.props) {
+      if (include && !include.includes(prop.name)) {
+        continue;
+      }
+      if (exclude.includes(prop.name)) {
+        continue;
+      }
+
+      const resolved = getPropertyFieldType(prop);
+      if (!resolved) {
+        if (include) {
+          throw new Error(
+            `Cannot derive a filter field type for property "${meta.className}.${prop.name}"`
+          );
+        }
+        continue;
+      }
+
+      builder.fieldOptionsMap.set(prop.name, {
+        field: prop.name,
+        type: resolved.type,
+        array: resolved.array,
+        nullable: prop.nullable ?? false,
+        ...(resolved.values ? { values: resolved.values } : {}),
+      } as FieldOptions<Entity, FieldType, string>);
+    }
+
+    return builder;
   }
 
   /**
@@ -192,92 +954,1511 @@ export class FilterQuerySchemaBuilder<Entity extends object> {
    *
    * @typeParam Type - The field's data type
    * @typeParam Field - The dot-notation path for replacement fields
+   * @typeParam Values - The allowed values of enum fields
+   * @typeParam Options - The literal field options, used for the input type of the field
    * @param options - The field configuration options
-   * @returns The builder instance for method chaining
+   * @returns The builder instance for method chaining, with the field added to its input type
    *
    * @example
    * ```typescript
    * builder
    *   .addField({ field: "name", type: "string" })
    *   .addField({ field: "age", type: "number" })
-   *   .addField({ field: "roles", type: "string", array: true });
+   *   .addField({ field: "roles", type: "string", array: true })
+   *   .addField({ field: "status", type: "enum", values: ["active", "inactive"] });
    * ```
    */
   addField<
-    Type extends "string" | "number" | "boolean" | "date" = never,
+    Type extends "string" | "number" | "boolean" | "date" | "enum" = never,
     Field extends string = never,
-  >(options: FieldOptions<Entity, Type, Field>): this {
+    const Values extends EnumValues = never,
+    const Options extends FieldInputOptions = FieldInputOptions,
+  >(
+    options: FieldOptions<Entity, Type, Field, Values, Context> &
+      Options &
+      ExcessFieldOptions<
+        Options,
+        FieldOptions<Entity, Type, Field, Values, Context>
+      >
+  ): FilterQuerySchemaBuilder<
+    Entity,
+    Context,
+    Input & { [Name in Options["field"]]?: FieldInput<Type, Values, Options> }
+  > {
     this.fieldOptionsMap.set(
       options.field,
       options as unknown as FieldOptions<Entity, FieldType, string>
     );
-    return this;
+    return this as unknown as FilterQuerySchemaBuilder<
+      Entity,
+      Context,
+      Input & { [Name in Options["field"]]?: FieldInput<Type, Values, Options> }
+    >;
   }
 
   /**
-   * Builds and returns the Zod schema for validating filter queries.
+   * Returns the field definitions of the builder.
    *
-   * @returns A Zod schema that validates and optionally transforms filter queries
+   * @returns The field options, in the order they were added
+   */
+  getFields(): FieldOptions<Entity, FieldType, string>[] {
+    return [...this.fieldOptionsMap.values()];
+  }
+
+  /**
+   * Adds a to-many relation whose items can be filtered with `$some`, `$every` and `$none`.
+   *
+   * @typeParam Target - The entity type of the collection items
+   * @typeParam Name - The collection property name
+   * @typeParam TargetInput - The input types of the fields of the nested builder
+   * @param field - The collection property name
+   * @param builder - The builder defining the filterable fields of the collection items
+   * @returns The builder instance for method chaining, with the collection added to its input type
    *
    * @remarks
-   * The returned schema:
-   * - Validates field types and operators based on field definitions
-   * - Enforces configured limits (depth, conditions, array length, etc.)
-   * - Transforms field names using replacement configurations
-   * - Supports `$and`, `$or`, and `$not` logical operators
+   * The nested conditions are validated with the fields and replacements of the given
+   * builder, but with the limits of this builder. They count as one nesting level
+   * towards `maxDepth`, and each nested filter object is subject to `maxConditions`.
+   * At least one of `$some`, `$every` or `$none` is required.
    *
    * @example
    * ```typescript
-   * const schema = builder.build();
+   * const commentBuilder = new FilterQuerySchemaBuilder<Comment>()
+   *   .addField({ field: "isApproved", type: "boolean" })
+   *   .addField({ field: "likes", type: "number" });
    *
-   * // Validate and parse
-   * const result = schema.parse({ name: "John" });
+   * const schema = new FilterQuerySchemaBuilder<Post>()
+   *   .addField({ field: "title", type: "string" })
+   *   .addCollection("comments", commentBuilder)
+   *   .build();
    *
-   * // Safe parse with error handling
-   * const { success, data, error } = schema.safeParse(input);
+   * schema.parse({ comments: { $some: { isApproved: true, likes: { $gte: 10 } } } });
    * ```
    */
-  build(): z.ZodType<FilterQuery<Entity>> {
-    const { maxDepth, maxConditions, maxOrBranches, maxArrayLength } =
-      this.options;
-
-    const fieldOptions = [...this.fieldOptionsMap.values()];
+  addCollection<
+    Target extends object,
+    Name extends Extract<keyof Entity, string>,
+    TargetInput extends object,
+  >(
+    field: Name,
+    builder: FilterQuerySchemaBuilder<Target, Context, TargetInput>
+  ): FilterQuerySchemaBuilder<
+    Entity,
+    Context,
+    Input & { [Key in Name]?: CollectionInput<TargetInput> }
+  > {
+    this.relationMap.set(field, {
+      builder: builder as unknown as FilterQuerySchemaBuilder<object>,
+      collection: true,
+    });
+    return this as unknown as FilterQuerySchemaBuilder<
+      Entity,
+      Context,
+      Input & { [Key in Name]?: CollectionInput<TargetInput> }
+    >;
+  }
 
-    // Build string replacement map
-    const stringReplacementMap = new Map<string, string>();
-    // Build callback replacement map
-    const callbackReplacementMap = new Map<
-      string,
-      (args: {
-        field: string;
-        operator: Operator;
-        value: unknown;
-      }) => FilterQuery<Entity>
-    >();
+  /**
+   * Mounts the filter of another builder under a to-one relation.
+   *
+   * @typeParam Target - The entity type of the related entity
+   * @typeParam Name - The relation property name
+   * @typeParam TargetInput - The input types of the fields of the nested builder
+   * @param field - The relation property name
+   * @param builder - The builder defining the filterable fields of the related entity
+   * @returns The builder instance for method chaining, with the relation added to its input type
+   *
+   * @remarks
+   * The nested filter accepts the fields, replacements and logical operators of the
+   * given builder, with the limits of this builder. Replacements are applied relative
+   * to the relation, so a `replacement: "profile.name"` of the mounted builder
+   * produces `{ author: { profile: { name: ... } } }`. The nested filter counts as
+   * one nesting level towards `maxDepth`.
+   *
+   * @example
+   * ```typescript
+   * const userBuilder = new FilterQuerySchemaBuilder<User>()
+   *   .addField({ field: "name", type: "string" });
+   *
+   * const schema = new FilterQuerySchemaBuilder<Post>()
+   *   .addField({ field: "title", type: "string" })
+   *   .addRelation("author", userBuilder)
+   *   .build();
+   *
+   * schema.parse({ author: { name: "John" } });
+   * ```
+   */
+  addRelation<
+    Target extends object,
+    Name extends Extract<keyof Entity, string>,
+    TargetInput extends object,
+  >(
+    field: Name,
+    builder: FilterQuerySchemaBuilder<Target, Context, TargetInput>
+  ): FilterQuerySchemaBuilder<
+    Entity,
+    Context,
+    Input & { [Key in Name]?: FilterInput<TargetInput> }
+  > {
+    this.relationMap.set(field, {
+      builder: builder as unknown as FilterQuerySchemaBuilder<object>,
+      collection: false,
+    });
+    return this as unknown as FilterQuerySchemaBuilder<
+      Entity,
+      Context,
+      Input & { [Key in Name]?: FilterInput<TargetInput> }
+    >;
+  }
 
-    for (const field of fieldOptions) {
+  /**
+   * Adds a server-side scope that is combined with every parsed filter query.
+   *
+   * @param scope - A filter, or a callback resolving the filter from the context passed to `build()`
+   * @returns The builder instance for method chaining
+   *
+   * @remarks
+   * Parsed filters are returned as `{ $and: [...scopes, filter] }`, so a client filter,
+   * even one with `$or` at the root, can only narrow the scoped results. Scopes are not
+   * validated: they may use any entity property, are not subject to the limits and are
+   * not affected by replacements. Scopes of builders mounted with `addRelation()` or
+   * `addCollection()` are applied inside the relation condition.
+   *
+   * @example
+   * ```typescript
+   * const schema = new FilterQuerySchemaBuilder<Post, { tenantId: number }>()
+   *   .addField({ field: "title", type: "string" })
+   *   .withScope({ deletedAt: null })
+   *   .withScope(({ tenantId }) => ({ tenant: tenantId }))
+   *   .build({ tenantId: 42 });
+   *
+   * schema.parse({ title: "Hello" });
+   * // Result: { $and: [{ deletedAt: null }, { tenant: 42 }, { title: "Hello" }] }
+   * ```
+   */
+  withScope(scope: FilterScope<Entity, Context>): this {
+    this.scopes.push(scope);
+    return this;
+  }
+
+  /**
+   * Adds a visitor that runs on every condition and logical node of parsed filter queries.
+   *
+   * @param visitor - A callback returning a replacement node, `null` to drop the node or nothing to keep it
+   * @returns The builder instance for method chaining
+   *
+   * @remarks
+   * Visitors run after validation and before replacements, so nodes use the field names of
+   * the input query and replacements apply to the rewritten conditions. Field conditions are
+   * visited once per operator, logical nodes after their branches. Visitors run in the order
+   * they were added, each one receiving the node returned by the previous one. Filter objects
+   * whose conditions were all dropped are dropped from their logical node or relation.
+   *
+   * Conditions of builders mounted with `addRelation()` or `addCollection()` are visited by
+   * the visitors of the nested builder first, then by the visitors of this builder. Rewritten
+   * nodes are not validated again, and scopes are not visited.
+   *
+   * @example
+   * ```typescript
+   * const schema = new FilterQuerySchemaBuilder<User>()
+   *   .addField({ field: "email", type: "string" })
+   *   .use((node) => {
+   *     if (node.type === "condition" && node.field === "email" && typeof node.value === "string") {
+   *       return { ...node, value: node.value.toLowerCase() };
+   *     }
+   *   })
+   *   .use((node, { path }) => {
+   *     if (node.type === "condition") {
+   *       audit.push(path);
+   *     }
+   *   })
+   *   .build();
+   *
+   * schema.parse({ $or: [{ email: "John@Example.com" }] });
+   * // Result: { $or: [{ email: "john@example.com" }] }, audit: ["$or[0].email"]
+   * ```
+   */
+  use(visitor: FilterVisitor<Context>): this {
+    this.visitors.push(visitor);
+    return this;
+  }
+
+  /**
+   * Exports the accepted filter shape as a JSON Schema (draft 2020-12).
+   *
+   * @param options - Optional naming of the generated definitions
+   * @returns A JSON Schema referencing the filter definition in its `$defs`
+   *
+   * @remarks
+   * The returned `$defs` contain one recursive definition for the filter object
+   * (with `$and`, `$or` and `$not`) and one definition per field listing exactly the
+   * operators the field accepts. `maxOrBranches` and `maxArrayLength` are expressed
+   * with `maxItems`. `maxDepth` and `maxConditions` cannot be expressed by a recursive
+   * JSON Schema and are stated in the description of the filter definition instead.
+   * Replacements do not affect the exported schema, as it describes the input.
+   *
+   * @example
+   * ```typescript
+   * const jsonSchema = builder.toJsonSchema({ name: "PostFilter" });
+   * // {
+   * //   $schema: "https://json-schema.org/draft/2020-12/schema",
+   * //   $ref: "#/$defs/PostFilter",
+   * //   $defs: { PostFilter: { ... }, PostFilter_title: { ... } }
+   * // }
+   * ```
+   */
+  toJsonSchema(options?: Partial<JsonSchemaOptions>): JsonSchema {
+    const { name, refPrefix }: JsonSchemaOptions = {
+      name: "Filter",
+      refPrefix: "#/$defs/",
+      ...(options ?? {}),
+    };
+
+    const $defs: Record<string, JsonSchema> = {};
+    this.addJsonSchemaDefinitions(
+      $defs,
+      name,
+      refPrefix,
+      this.options,
+      new Map()
+    );
+
+    return {
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      $ref: `${refPrefix}${name}`,
+      $defs,
+    };
+  }
+
+  /**
+   * Exports the accepted filter shape as GraphQL SDL input types.
+   *
+   * @param options - Optional naming of the generated types and the number and date scalars
+   * @returns The SDL of the filter input type and the types it references
+   * @throws Error if a field name is not a valid GraphQL name or conflicts with `and`, `or` or `not`
+   *
+   * @remarks
+   * The filter input type has `and`, `or` and `not` fields and one comparison field per
+   * filter field. Comparison input types name the operators without `$` and only list the
+   * operators the field accepts. Fields accepting the default operators of their type share
+   * a comparison type like `StringComparison`, other fields get their own, e.g.
+   * `PostFilter_tagsComparison`. Enum fields whose values are valid GraphQL names use a
+   * generated enum type. Relations and collections reference the filter input type of the
+   * mounted builder, collections through an input type with `some`, `every` and `none`.
+   * Limits cannot be expressed in SDL and are stated in the description of the filter type.
+   * Use {@link FilterQuerySchemaBuilder.fromGraphQLInput} to validate the arguments with
+   * the schemas of this builder.
+   *
+   * @example
+   * ```typescript
+   * const sdl = new FilterQuerySchemaBuilder<Post>()
+   *   .addField({ field: "title", type: "string" })
+   *   .addField({ field: "views", type: "number" })
+   *   .toGraphQLSdl({ name: "PostFilter", numberType: "Int" });
+   * // input PostFilter {
+   * //   and: [PostFilter!]
+   * //   or: [PostFilter!]
+   * //   not: PostFilter
+   * //   title: StringComparison
+   * //   views: IntComparison
+   * // }
+   * //
+   * // input StringComparison { eq: String, ne: String, in: [String], nin: [String] }
+   * // input IntComparison { eq: Int, ne: Int, gt: Int, gte: Int, lt: Int, lte: Int, in: [Int], nin: [Int] }
+   * ```
+   */
+  toGraphQLSdl(options?: Partial<GraphQLSdlOptions>): string {
+    const resolved: GraphQLSdlOptions = {
+      name: "Filter",
+      numberType: "Float",
+      dateType: "DateTime",
+      ...(options ?? {}),
+    };
+
+    const types = new Map<string, string>();
+    this.addGraphQLTypes(types, new Map(), resolved.name, resolved, new Map());
+
+    return `${[...types.values()].join("\n\n")}\n`;
+  }
+
+  /**
+   * Maps a filter argument shaped by the SDL of {@link FilterQuerySchemaBuilder.toGraphQLSdl}
+   * into the input format of the schemas of this builder.
+   *
+   * @param input - The filter argument received by a GraphQL resolver
+   * @returns The filter in the input format, to be parsed with a schema of this builder
+   *
+   * @remarks
+   * `and`, `or`, `not`, `some`, `every`, `none` and the operators of comparison objects are
+   * prefixed with `$`. Omitted (`undefined`) arguments add no condition, while an explicit
+   * `null` is kept: a filter field set to `null` matches `null` values like `{ eq: null }`,
+   * and `null` operators, relations and logical operators are passed on and rejected by
+   * the schema. The result is not validated, so invalid arguments are reported by the
+   * schema like any other input.
+   *
+   * @example
+   * ```typescript
+   * const schema = builder.build();
+   *
+   * const resolvers = {
+   *   Query: {
+   *     posts: (_, args) => em.find(Post, schema.parse(builder.fromGraphQLInput(args.filter))),
+   *   },
+   * };
+   *
+   * builder.fromGraphQLInput({ or: [{ title: { eq: "Hello" } }, { views: { gte: 10 } }] });
+   * // Result: { $or: [{ title: { $eq: "Hello" } }, { views: { $gte: 10 } }] }
+   * ```
+   */
+  fromGraphQLInput(input: unknown): unknown {
+    if (isDirectValue(input)) {
+      return input;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(input as object)) {
+      if (value === undefined) {
+        continue;
+      }
+
+      const relation = this.relationMap.get(key);
+      const prefixed = ["and", "or", "not"].includes(key) ? `$${key}` : key;
+      if (value === null) {
+        result[prefixed] = this.fieldOptionsMap.has(key) ? { $eq: null } : null;
+      } else if ((key === "and" || key === "or") && Array.isArray(value)) {
+        result[`$${key}`] = value.map((item) => this.fromGraphQLInput(item));
+      } else if (key === "not") {
+        result.$not = this.fromGraphQLInput(value);
+      } else if (relation?.collection && !isDirectValue(value)) {
+        result[key] = Object.fromEntries(
+          Object.entries(value)
+            .filter(([, condition]) => condition !== undefined)
+            .map(([operator, condition]) => [
+              `$${operator}`,
+              relation.builder.fromGraphQLInput(condition),
+            ])
+        );
+      } else if (relation) {
+        result[key] = relation.builder.fromGraphQLInput(value);
+      } else if (this.fieldOptionsMap.has(key) && !isDirectValue(value)) {
+        result[key] = Object.fromEntries(
+          Object.entries(value)
+            .filter(([, operand]) => operand !== undefined)
+            .map(([operator, operand]) => [`$${operator}`, operand])
+        );
+      } else {
+        result[key] = value;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Exports the fields, relations and limits of the builder for a `FilterClient`.
+   *
+   * @param context - The request context, fields the caller may not use are left out
+   * @returns A definition containing only JSON values
+   *
+   * @remarks
+   * Nested builders are exported down to `maxDepth`, below which relations are not
+   * accepted. Replacements, resolvers, scopes and visitors run on the server only and are
+   * not part of the definition.
+   *
+   * @example
+   * ```typescript
+   * app.get("/posts/filter-definition", (req, res) => {
+   *   res.json(builder.toClientDefinition(req.user));
+   * });
+   * ```
+   */
+  toClientDefinition(context?: Context): FilterClientDefinition {
+    const {
+      maxDepth,
+      maxConditions,
+      maxOrBranches,
+      maxAndBranches,
+      maxTotalConditions,
+      maxArrayLength,
+      maxCost,
+      operatorCosts,
+    } = this.options;
+    const { fields, relations } = this.getClientRelation(context, 0);
+
+    return {
+      fields,
+      relations,
+      limits: {
+        maxDepth,
+        maxConditions,
+        maxOrBranches,
+        ...(maxAndBranches !== undefined && { maxAndBranches }),
+        ...(maxTotalConditions !== undefined && { maxTotalConditions }),
+        maxArrayLength,
+        ...(maxCost !== undefined && { maxCost }),
+        operatorCosts,
+      },
+    };
+  }
+
+  /**
+   * Builds and returns the Zod schema for validating filter queries.
+   *
+   * @param context - The request context passed to scope callbacks
+   * @returns A Zod schema that validates and optionally transforms filter queries
+   *
+   * @remarks
+   * The returned schema:
+   * - Validates field types and operators based on field definitions
+   * - Enforces configured limits (depth, conditions, array length, etc.)
+   * - Transforms field names using replacement configurations
+   * - Supports `$and`, `$or`, and `$not` logical operators
+   * - Combines the result with the scopes added by {@link FilterQuerySchemaBuilder.withScope}
+   *
+   * @example
+   * ```typescript
+   * const schema = builder.build();
+   *
+   * // Validate and parse
+   * const result = schema.parse({ name: "John" });
+   *
+   * // Safe parse with error handling
+   * const { success, data, error } = schema.safeParse(input);
+   * ```
+   */
+  build(context?: Context): z.ZodType<FilterQuery<Entity>, FilterInput<Input>> {
+    return this.createSchema(false, context);
+  }
+
+  /**
+   * Builds a Zod schema that supports async replacements and resolvers, for use with `parseAsync()`.
+   *
+   * @param context - The request context passed to scope callbacks and resolvers
+   * @returns A Zod schema that validates and transforms filter queries asynchronously
+   *
+   * @remarks
+   * Replacement callbacks and `resolve` field options may return a Promise. All lookups of
+   * a parse are started together: each resolver is called once with the values of all
+   * conditions on its field across the whole filter, and the callbacks of all conditions run
+   * concurrently before their results are merged in input order. Schemas returned by
+   * {@link FilterQuerySchemaBuilder.build} throw when a callback or resolver returns a Promise.
+   *
+   * @example
+   * ```typescript
+   * const schema = new FilterQuerySchemaBuilder<Post>()
+   *   .addField({
+   *     field: "authorSlug",
+   *     type: "string",
+   *     replacement: async ({ value }) => ({
+   *       author: { id: await userService.findIdBySlug(value) },
+   *     }),
+   *   })
+   *   .buildAsync();
+   *
+   * await schema.parseAsync({ authorSlug: "john" });
+   * ```
+   */
+  buildAsync(
+    context?: Context
+  ): z.ZodType<FilterQuery<Entity>, FilterInput<Input>> {
+    return this.createSchema(false, context, true);
+  }
+
+  /**
+   * Builds a Zod schema that outputs validated filter queries as a filter tree.
+   *
+   * @param context - The request context passed to scope callbacks
+   * @returns A Zod schema that validates filter queries and parses the result into a {@link FilterNode}
+   *
+   * @remarks
+   * The tree is parsed from the output of {@link FilterQuerySchemaBuilder.build}, so
+   * replacements and scopes are applied and field names are entity property paths.
+   * Use {@link parseFilterNode} to parse the output of other schemas.
+   *
+   * @example
+   * ```typescript
+   * const node = builder.buildAst().parse({ authorName: "John", age: { $gte: 18 } });
+   * // Result: {
+   * //   type: "and",
+   * //   conditions: [
+   * //     { type: "comparison", field: "author.name", operator: "$eq", value: "John" },
+   * //     { type: "comparison", field: "age", operator: "$gte", value: 18 },
+   * //   ],
+   * // }
+   * ```
+   */
+  buildAst(context?: Context): z.ZodType<FilterNode, FilterInput<Input>> {
+    return this.build(context).transform((filter) =>
+      parseFilterNode(filter as object)
+    ) as unknown as z.ZodType<FilterNode, FilterInput<Input>>;
+  }
+
+  /**
+   * Builds a Zod schema that compiles validated filter queries with a compiler.
+   *
+   * @typeParam Output - The compiled representation
+   * @param compiler - The compiler, e.g. `compileMongoFilter` or `compileFilterPredicate`
+   * @param context - The request context passed to scope callbacks
+   * @returns A Zod schema that validates filter queries and compiles their filter tree
+   *
+   * @example
+   * ```typescript
+   * const schema = builder.buildWith(compileMongoFilter);
+   *
+   * await db.collection("posts").find(schema.parse(input)).toArray();
+   * ```
+   */
+  buildWith<Output>(
+    compiler: FilterCompiler<Output>,
+    context?: Context
+  ): z.ZodType<Output, FilterInput<Input>> {
+    return this.buildAst(context).transform((node) =>
+      compiler(node)
+    ) as unknown as z.ZodType<Output, FilterInput<Input>>;
+  }
+
+  /**
+   * Builds a Zod schema for filter queries received as URL query strings.
+   *
+   * @param options - Optional name of the root query parameter holding the filter
+   * @param context - The request context passed to scope callbacks
+   * @returns A Zod schema that parses, coerces, validates and transforms filter queries
+   *
+   * @remarks
+   * The schema accepts a query string, `URLSearchParams`, or an already parsed
+   * object of strings (e.g. `req.query.filter` from Express). Strings and search
+   * params are parsed with `parseFilterQueryString`, bracket and dot notation
+   * are supported. Before validation, values are coerced to the declared field types:
+   * - `"18"` becomes `18` for number fields
+   * - `"true"` / `"false"` become booleans for boolean fields
+   * - `"null"` becomes `null` for nullable fields
+   * - a single value for `$in`, `$nin`, `$contains` or `$overlap` becomes a one-element array
+   *
+   * Values that cannot be coerced are rejected just like with {@link FilterQuerySchemaBuilder.build}.
+   *
+   * @example
+   * ```typescript
+   * const schema = builder.buildQueryStringSchema({ key: "filter" });
+   *
+   * schema.parse("filter[age][$gte]=18&filter[$or][0][name]=John");
+   * // Result: { age: { $gte: 18 }, $or: [{ name: "John" }] }
+   * ```
+   */
+  buildQueryStringSchema(
+    options?: QueryStringOptions,
+    context?: Context
+  ): z.ZodType<FilterQuery<Entity>> {
+    return z.preprocess(
+      (input) =>
+        typeof input === "string" || input instanceof URLSearchParams
+          ? parseFilterQueryString(input, options?.key)
+          : input,
+      this.createSchema(true, context)
+    ) as unknown as z.ZodType<FilterQuery<Entity>>;
+  }
+
+  /**
+   * Formats the error of a failed parse into issues described in terms of fields and operators.
+   *
+   * @param error - The error of a schema created by this builder
+   * @param context - The request context, only accessible fields are suggested and
+   * a `messages` function is called with it
+   * @returns One issue per problem, with a stable code, a message and the path in the input query
+   *
+   * @remarks
+   * The raw Zod issues of field conditions are union issues listing why the value is neither
+   * a direct value nor a comparison object. The formatter reports the issue of the shape the
+   * input was meant to have instead, e.g. the invalid `$gte` value of a comparison object.
+   * Unknown fields and operators come with a suggestion of a close name when there is one.
+   * Messages are taken from the `messages` option. Issues are plain objects, suitable for
+   * API responses.
+   *
+   * @example
+   * ```typescript
+   * const result = schema.safeParse({ nmae: "John", $or: [{ isActive: { $gt: true } }] });
+   *
+   * if (!result.success) {
+   *   res.status(400).json({ errors: builder.formatError(result.error) });
+   * }
+   * // errors: [
+   * //   { code: "unknown_field", message: 'Unknown field "nmae", did you mean "name"?',
+   * //     path: "nmae", field: "nmae", suggestion: "name" },
+   * //   { code: "operator_not_allowed", message: 'Operator "$gt" is not allowed for field "isActive"',
+   * //     path: "$or[0].isActive.$gt", field: "isActive", operator: "$gt" },
+   * // ]
+   * ```
+   */
+  formatError(error: z.ZodError, context?: Context): FilterValidationIssue[] {
+    const issues = new Map<string, FilterValidationIssue>();
+    for (const issue of error.issues) {
+      for (const formatted of this.formatIssue(issue, [], context)) {
+        issues.set(`${formatted.code}:${formatted.path}`, formatted);
+      }
+    }
+    return [...issues.values()];
+  }
+
+  /**
+   * Creates the filter schema, optionally coercing query string values.
+   * @internal
+   */
+  private createSchema(
+    coerce: boolean,
+    context: Context | undefined,
+    async = false
+  ): z.ZodType<FilterQuery<Entity>, FilterInput<Input>> {
+    const { maxTotalConditions, maxCost, operatorCosts } = this.options;
+    const messages = resolveMessages(this.options, context);
+    const schema = this.createFilterSchemaFactory(
+      this.options,
+      coerce,
+      context
+    )(0)
+      .superRefine((obj, ctx) => {
+        const { conditions, cost } = this.measureFilter(
+          obj as Record<string, unknown>,
+          operatorCosts
+        );
+        if (
+          maxTotalConditions !== undefined &&
+          conditions > maxTotalConditions
+        ) {
+          ctx.addIssue({
+            code: "custom",
+            message: formatFilterMessage(
+              "too_many_total_conditions",
+              { limit: maxTotalConditions, count: conditions },
+              messages
+            ),
+            params: {
+              code: "too_many_total_conditions",
+              limit: maxTotalConditions,
+              count: conditions,
+            },
+          });
+        }
+        if (maxCost !== undefined && cost > maxCost) {
+          ctx.addIssue({
+            code: "custom",
+            message: formatFilterMessage(
+              "cost_exceeded",
+              { limit: maxCost, cost },
+              messages
+            ),
+            params: { code: "cost_exceeded", limit: maxCost, cost },
+          });
+        }
+      })
+      .refine(() => true, {
+        // Runs on failed parses too, while the issue paths are relative to the filter, to give
+        // issues reported by Zod itself the message formatError() reports for them
+        when: (payload) => {
+          for (const issue of payload.issues) {
+            if (issue.message === undefined) {
+              const formatted = this.formatIssue(
+                { ...issue, path: issue.path ?? [] } as z.core.$ZodIssue,
+                [],
+                context
+              );
+              (issue as { message?: string }).message = formatted.length
+                ? [...new Set(formatted.map(({ message }) => message))].join(
+                    "; "
+                  )
+                : undefined;
+            }
+          }
+          return false;
+        },
+      });
+
+    // Add transform if there are any replacements, resolvers, scopes, visitors or nested builders
+    const hasTransforms =
+      this.relationMap.size > 0 ||
+      this.scopes.length > 0 ||
+      this.visitors.length > 0 ||
+      [...this.fieldOptionsMap.values()].some(
+        (field) =>
+          field.resolve !== undefined ||
+          hasStringReplacement(field) ||
+          hasCallbackReplacement(field)
+      );
+
+    if (!hasTransforms) {
+      return schema as z.ZodType<FilterQuery<Entity>, FilterInput<Input>>;
+    }
+
+    const applyReplacements = this.createReplacementTransform(context);
+    const visit = (obj: unknown) =>
+      this.visitFilter(
+        obj as Record<string, unknown>,
+        this.visitors as FilterVisitor<unknown>[],
+        "",
+        0,
+        context
+      );
+
+    if (!async) {
+      return schema.transform((obj) =>
+        applyReplacements(
+          this.resolveFilterValues(visit(obj), context, false) as Record<
+            string,
+            unknown
+          >,
+          false
+        )
+      ) as unknown as z.ZodType<FilterQuery<Entity>, FilterInput<Input>>;
+    }
+
+    return schema.transform(async (obj) => {
+      const resolved = await this.resolveFilterValues(
+        visit(obj),
+        context,
+        true
+      );
+      return applyReplacements(resolved, true);
+    }) as unknown as z.ZodType<FilterQuery<Entity>, FilterInput<Input>>;
+  }
+
+  /**
+   * Creates a function that builds the filter schema for a given depth.
+   *
+   * @remarks
+   * Nested builders use the limits of the builder they are mounted on, their
+   * filter schema starts at the depth of the mount point.
+   *
+   * @internal
+   */
+  private createFilterSchemaFactory(
+    options: FilterOptions,
+    coerce: boolean,
+    context: unknown
+  ): (currentDepth: number) => z.ZodType<FilterQuery<Entity>> {
+    const {
+      maxDepth,
+      maxConditions,
+      maxOrBranches,
+      maxAndBranches,
+      maxArrayLength,
+      forbiddenFields,
+    } = options;
+    const messages = resolveMessages(options, context);
+
+    // Dynamically build field schemas, each field uses its declared type
+    const fieldSchemas: Record<string, z.ZodOptional<z.ZodTypeAny>> = {};
+    for (const field of this.fieldOptionsMap.values()) {
+      if (!isFieldAccessible(field.access, context)) {
+        // Stripped fields have no schema, their conditions are removed before validation
+        if (forbiddenFields !== "strip") {
+          fieldSchemas[field.field] = z
+            .unknown()
+            .superRefine((_, ctx) => {
+              ctx.addIssue({
+                code: "custom",
+                message: formatFilterMessage(
+                  "field_not_accessible",
+                  { field: field.field },
+                  messages
+                ),
+                params: { code: "field_not_accessible" },
+              });
+            })
+            .optional();
+        }
+        continue;
+      }
+
+      const fieldComparisonSchema = createTypedComparisonSchema(
+        field.field,
+        field.type,
+        maxArrayLength,
+        {
+          array: field.array,
+          nullable: field.nullable,
+          operators: field.operators,
+          values: "values" in field ? getEnumValues(field.values) : undefined,
+          fulltext: "fulltext" in field ? field.fulltext : undefined,
+          patterns: "patterns" in field ? field.patterns : undefined,
+          coerce,
+          dates: options.dates,
+          relative: "relative" in field ? field.relative : undefined,
+          now: options.now,
+          messages,
+        }
+      );
+      fieldSchemas[field.field] = fieldComparisonSchema.optional();
+    }
+
+    // Created on first use, a builder may be mounted on itself
+    const relationFactories = new Map<
+      string,
+      (currentDepth: number) => z.ZodType<FilterQuery<object>>
+    >();
+    const getRelationFactory = (field: string) => {
+      let factory = relationFactories.get(field);
+      if (!factory) {
+        factory = this.relationMap
+          .get(field)!
+          .builder.createFilterSchemaFactory(options, coerce, context);
+        relationFactories.set(field, factory);
+      }
+      return factory;
+    };
+
+    // Relation conditions count as one nesting level
+    const createRelationSchemas = (currentDepth: number) => {
+      const relationSchemas: Record<string, z.ZodOptional<z.ZodTypeAny>> = {};
+      for (const [field, { collection }] of this.relationMap) {
+        const nestedSchema = getRelationFactory(field)(currentDepth + 1);
+        if (!collection) {
+          relationSchemas[field] = nestedSchema.optional();
+          continue;
+        }
+        relationSchemas[field] = z
+          .object({
+            $some: nestedSchema.optional(),
+            $every: nestedSchema.optional(),
+            $none: nestedSchema.optional(),
+          })
+          .strict()
+          .refine((obj) => Object.keys(obj).length > 0, {
+            message: formatFilterMessage(
+              "collection_operator_required",
+              { field },
+              messages
+            ),
+            params: { code: "collection_operator_required" },
+          })
+          .optional();
+      }
+      return relationSchemas;
+    };
+
+    // Conditions on stripped fields are removed before validation
+    const stripFields = (
+      schema: z.ZodTypeAny,
+      currentDepth: number
+    ): z.ZodType<FilterQuery<Entity>> =>
+      (forbiddenFields !== "strip"
+        ? schema
+        : z.preprocess((input, ctx) => {
+            if (isDirectValue(input)) {
+              return input;
+            }
+            const rejected: { path: PropertyKey[]; operator?: string }[] = [];
+            const stripped = this.stripForbiddenFields(
+              input as Record<string, unknown>,
+              context,
+              currentDepth,
+              maxDepth,
+              rejected
+            );
+            // A filter left empty would match everything
+            if (
+              currentDepth === 0 &&
+              Object.keys(stripped).length === 0 &&
+              Object.keys(input as object).length > 0
+            ) {
+              rejected.push({ path: [] });
+            }
+            for (const { path, operator } of rejected) {
+              ctx.addIssue({
+                code: "custom",
+                message: formatFilterMessage(
+                  "inaccessible_conditions",
+                  { operator },
+                  messages
+                ),
+                params: { code: "inaccessible_conditions", operator },
+                path,
+              });
+            }
+            return stripped;
+          }, schema)) as unknown as z.ZodType<FilterQuery<Entity>>;
+
+    const createFilterSchema = (
+      currentDepth: number
+    ): z.ZodType<FilterQuery<Entity>> => {
+      if (currentDepth >= maxDepth) {
+        // At max depth, only allow simple field conditions, no nesting
+        return stripFields(
+          z
+            .object(fieldSchemas)
+            .strict()
+            .refine((obj) => Object.keys(obj).length <= maxConditions, {
+              message: formatFilterMessage(
+                "too_many_conditions",
+                { limit: maxConditions },
+                messages
+              ),
+              params: { code: "too_many_conditions", limit: maxConditions },
+            }),
+          currentDepth
+        );
+      }
+
+      return z.lazy(() => {
+        const nestedSchema = createFilterSchema(currentDepth + 1);
+        const andSchema = z.array(nestedSchema);
+
+        return stripFields(
+          z
+            .object({
+              $and: (maxAndBranches === undefined
+                ? andSchema
+                : andSchema.max(maxAndBranches, {
+                    message: formatFilterMessage(
+                      "too_many_branches",
+                      { operator: "$and", limit: maxAndBranches },
+                      messages
+                    ),
+                  })
+              ).optional(),
+              $or: z
+                .array(nestedSchema)
+                .max(maxOrBranches, {
+                  message: formatFilterMessage(
+                    "too_many_branches",
+                    { operator: "$or", limit: maxOrBranches },
+                    messages
+                  ),
+                })
+                .optional(),
+              $not: nestedSchema.optional(),
+              ...fieldSchemas,
+              ...createRelationSchemas(currentDepth),
+            })
+            .strict()
+            .refine(
+              (obj) => {
+                const fieldKeys = Object.keys(obj).filter(
+                  (k) => !["$and", "$or", "$not"].includes(k)
+                );
+                return fieldKeys.length <= maxConditions;
+              },
+              {
+                message: formatFilterMessage(
+                  "too_many_conditions",
+                  { limit: maxConditions },
+                  messages
+                ),
+                params: { code: "too_many_conditions", limit: maxConditions },
+              }
+            ),
+          currentDepth
+        );
+      }) as unknown as z.ZodType<FilterQuery<Entity>>;
+    };
+
+    return createFilterSchema;
+  }
+
+  /**
+   * Counts the field conditions of a validated filter and computes its cost.
+   * @internal
+   */
+  private measureFilter(
+    obj: Record<string, unknown>,
+    operatorCosts: Partial<Record<Operator, number>>
+  ): {
+    conditions: number;
+    cost: number;
+  } {
+    const measured = { conditions: 0, cost: 0 };
+    const add = ({ conditions, cost }: typeof measured) => {
+      measured.conditions += conditions;
+      measured.cost += cost;
+    };
+
+    for (const [key, value] of Object.entries(obj)) {
+      const relation = this.relationMap.get(key);
+      if ((key === "$and" || key === "$or") && Array.isArray(value)) {
+        for (const item of value) {
+          add(
+            this.measureFilter(item as Record<string, unknown>, operatorCosts)
+          );
+        }
+      } else if (key === "$not") {
+        add(
+          this.measureFilter(value as Record<string, unknown>, operatorCosts)
+        );
+      } else if (relation?.collection) {
+        for (const condition of Object.values(
+          value as Record<string, unknown>
+        )) {
+          add(
+            relation.builder.measureFilter(
+              condition as Record<string, unknown>,
+              operatorCosts
+            )
+          );
+        }
+      } else if (relation) {
+        add(
+          relation.builder.measureFilter(
+            value as Record<string, unknown>,
+            operatorCosts
+          )
+        );
+      } else {
+        add({
+          conditions: 1,
+          cost:
+            (this.fieldOptionsMap.get(key)?.cost ?? 1) *
+            getConditionCost(value, operatorCosts),
+        });
+      }
+    }
+
+    return measured;
+  }
+
+  /**
+   * Removes conditions on fields the caller cannot access from an unvalidated filter.
+   *
+   * @remarks
+   * `$and` branches, collection operators and relation conditions left without conditions
+   * are removed, like the field conditions themselves. `$or` branches left empty match
+   * nothing and are removed as well. Stripping must not make the filter match everything
+   * a removed condition excluded, so `$or` conditions left without branches, `$not` and
+   * `$none` conditions left empty, and `$or` branches removed inside `$not` or `$none` are
+   * added to `rejected`. Values that are not filter objects are kept and fail validation.
+   *
+   * @internal
+   */
+  private stripForbiddenFields(
+    obj: Record<string, unknown>,
+    context: unknown,
+    depth: number,
+    maxDepth: number,
+    rejected: { path: PropertyKey[]; operator?: string }[],
+    path: PropertyKey[] = [],
+    negated = false
+  ): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    // Returns undefined for filter objects whose conditions were all stripped
+    const stripNested = (
+      builder: FilterQuerySchemaBuilder<object>,
+      value: unknown,
+      nestedPath: PropertyKey[],
+      nestedNegated: boolean
+    ) => {
+      if (isDirectValue(value)) {
+        return value;
+      }
+      const nested = value as Record<string, unknown>;
+      const stripped = builder.stripForbiddenFields(
+        nested,
+        context,
+        depth + 1,
+        maxDepth,
+        rejected,
+        nestedPath,
+        nestedNegated
+      );
+      return Object.keys(stripped).length === 0 &&
+        Object.keys(nested).length > 0
+        ? undefined
+        : stripped;
+    };
+    const self = this as unknown as FilterQuerySchemaBuilder<object>;
+
+    for (const [key, value] of Object.entries(obj)) {
+      const field = this.fieldOptionsMap.get(key);
+      const relation = this.relationMap.get(key);
+      if (field && !isFieldAccessible(field.access, context)) {
+        continue;
+      }
+      // Deeper filters are rejected by validation
+      if (depth >= maxDepth) {
+        result[key] = value;
+      } else if (key === "$and" && Array.isArray(value)) {
+        const branches = value.flatMap(
+          (item: unknown, index) =>
+            stripNested(self, item, [...path, key, index], negated) ?? []
+        );
+        if (branches.length > 0 || value.length === 0) {
+          result[key] = branches;
+        }
+      } else if (key === "$or" && Array.isArray(value)) {
+        const branches = value.flatMap((item: unknown, index) => {
+          const branch = stripNested(
+            self,
+            item,
+            [...path, key, index],
+            negated
+          );
+          // Removing a branch under a negation widens the filter
+          if (branch === undefined && negated) {
+            rejected.push({ path: [...path, key, index], operator: key });
+          }
+          return branch ?? [];
+        });
+        if (branches.length > 0 || value.length === 0) {
+          result[key] = branches;
+        } else if (!negated) {
+          rejected.push({ path: [...path, key], operator: key });
+        }
+      } else if (key === "$not") {
+        const condition = stripNested(self, value, [...path, key], !negated);
+        if (condition !== undefined) {
+          result[key] = condition;
+        } else {
+          rejected.push({ path: [...path, key], operator: key });
+        }
+      } else if (relation?.collection && !isDirectValue(value)) {
+        const conditions = Object.entries(
+          value as Record<string, unknown>
+        ).flatMap(([operator, condition]) => {
+          const stripped = stripNested(
+            relation.builder,
+            condition,
+            [...path, key, operator],
+            operator === "$none" ? !negated : negated
+          );
+          if (stripped === undefined && operator === "$none") {
+            rejected.push({ path: [...path, key, operator], operator });
+          }
+          return stripped === undefined ? [] : [[operator, stripped] as const];
+        });
+        if (
+          conditions.length > 0 ||
+          Object.keys(value as object).length === 0
+        ) {
+          result[key] = Object.fromEntries(conditions);
+        }
+      } else if (relation) {
+        const condition = stripNested(
+          relation.builder,
+          value,
+          [...path, key],
+          negated
+        );
+        if (condition !== undefined) {
+          result[key] = condition;
+        }
+      } else {
+        result[key] = value;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Runs visitors on the nodes of a validated filter.
+   *
+   * @remarks
+   * `visitors` holds the visitors of this builder followed by the visitors of the
+   * builders it is mounted on.
+   *
+   * @internal
+   */
+  private visitFilter(
+    obj: Record<string, unknown>,
+    visitors: FilterVisitor<unknown>[],
+    path: string,
+    depth: number,
+    context: unknown
+  ): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    const prefix = path ? `${path}.` : "";
+
+    const add = (node: FilterVisitorNode, nodePath: string, direct = false) => {
+      const visited = applyVisitors(node, visitors, {
+        path: nodePath,
+        depth,
+        context,
+      });
+      if (visited) {
+        addVisitedNode(result, visited, direct);
+      }
+    };
+
+    // Returns undefined for filter objects whose conditions were all dropped
+    const visitNested = (
+      builder: FilterQuerySchemaBuilder<object>,
+      value: unknown,
+      nestedPath: string
+    ) => {
+      const nested = value as Record<string, unknown>;
+      // Builders mounted on themselves must not run their visitors twice
+      const nestedVisitors = [...new Set([...builder.visitors, ...visitors])];
+      const visited = builder.visitFilter(
+        nested,
+        nestedVisitors,
+        nestedPath,
+        depth + 1,
+        context
+      );
+      return Object.keys(visited).length === 0 && Object.keys(nested).length > 0
+        ? undefined
+        : visited;
+    };
+    const self = this as unknown as FilterQuerySchemaBuilder<object>;
+
+    for (const [key, value] of Object.entries(obj)) {
+      const relation = this.relationMap.get(key);
+      if ((key === "$and" || key === "$or") && Array.isArray(value)) {
+        const conditions = value.flatMap(
+          (item, index) =>
+            visitNested(self, item, `${prefix}${key}[${index}]`) ?? []
+        ) as Record<string, unknown>[];
+        if (conditions.length > 0 || value.length === 0) {
+          add(
+            { type: key === "$and" ? "and" : "or", conditions },
+            `${prefix}${key}`
+          );
+        }
+      } else if (key === "$not") {
+        const condition = visitNested(self, value, `${prefix}${key}`);
+        if (condition) {
+          add({ type: "not", condition }, `${prefix}${key}`);
+        }
+      } else if (relation?.collection) {
+        const conditions = Object.entries(
+          value as Record<string, unknown>
+        ).flatMap(([operator, condition]) => {
+          const visited = visitNested(
+            relation.builder,
+            condition,
+            `${prefix}${key}.${operator}`
+          );
+          return visited ? [[operator, visited] as const] : [];
+        });
+        if (conditions.length > 0) {
+          result[key] = Object.fromEntries(conditions);
+        }
+      } else if (relation) {
+        const visited = visitNested(relation.builder, value, `${prefix}${key}`);
+        if (visited) {
+          result[key] = visited;
+        }
+      } else if (visitors.length === 0) {
+        result[key] = value;
+      } else {
+        const direct = isDirectValue(value);
+        const entries = direct
+          ? [["$eq", value] as const]
+          : Object.entries(value as Record<string, unknown>);
+        for (const [operator, operatorValue] of entries) {
+          add(
+            {
+              type: "condition",
+              field: key,
+              operator: operator as Operator,
+              value: operatorValue,
+            },
+            `${prefix}${key}`,
+            direct
+          );
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Resolves the values of fields with a `resolve` option, each resolver is called once.
+   * @internal
+   */
+  private resolveFilterValues(
+    obj: Record<string, unknown>,
+    context: unknown,
+    async: boolean
+  ): Record<string, unknown> | Promise<Record<string, unknown>> {
+    const values = new Map<
+      FieldOptions<object, FieldType, string>,
+      Set<unknown>
+    >();
+    this.mapFieldValues(obj, (field, value) => {
+      const fieldValues = values.get(field) ?? new Set();
+      values.set(field, fieldValues.add(value));
+      return value;
+    });
+    if (values.size === 0) {
+      return obj;
+    }
+
+    const lookups = [...values].map(([field, fieldValues]) => {
+      const list = [...fieldValues];
+      const resolved = field.resolve!(list as never[], context);
+      if (!async && resolved instanceof Promise) {
+        resolved.catch(() => undefined);
+        throw new Error(
+          `Field "${field.field}" resolves values asynchronously, use buildAsync() and parseAsync()`
+        );
+      }
+      return { field, list, resolved };
+    });
+
+    type Lookup = (typeof lookups)[number] & { resolved: unknown[] };
+    const replace = (results: Lookup[]) => {
+      const resolvedValues = new Map(
+        results.map(({ field, list, resolved }) => {
+          if (resolved.length !== list.length) {
+            throw new Error(
+              `Resolver of field "${field.field}" returned ${resolved.length} values for ${list.length} values`
+            );
+          }
+          return [field, new Map(list.map((value, i) => [value, resolved[i]]))];
+        })
+      );
+      return this.mapFieldValues(obj, (field, value) =>
+        resolvedValues.get(field)!.get(value)
+      );
+    };
+
+    if (!async) {
+      return replace(lookups as Lookup[]);
+    }
+    return Promise.all(
+      lookups.map(async (lookup) => ({
+        ...lookup,
+        resolved: await lookup.resolved,
+      }))
+    ).then(replace);
+  }
+
+  /**
+   * Maps the condition values of fields with a `resolve` option, array values item by item.
+   *
+   * @remarks
+   * `null` and the values of `$like`, `$ilike` and `$fulltext` are kept.
+   *
+   * @internal
+   */
+  private mapFieldValues(
+    obj: Record<string, unknown>,
+    map: (
+      field: FieldOptions<object, FieldType, string>,
+      value: unknown
+    ) => unknown
+  ): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(obj)) {
+      const relation = this.relationMap.get(key);
+      const field = this.fieldOptionsMap.get(key) as
+        | FieldOptions<object, FieldType, string>
+        | undefined;
+      const mapValue = (operatorValue: unknown): unknown =>
+        Array.isArray(operatorValue)
+          ? operatorValue.map(mapValue)
+          : operatorValue === null
+            ? null
+            : map(field!, operatorValue);
+
+      if ((key === "$and" || key === "$or") && Array.isArray(value)) {
+        result[key] = value.map((item) =>
+          this.mapFieldValues(item as Record<string, unknown>, map)
+        );
+      } else if (key === "$not") {
+        result[key] = this.mapFieldValues(
+          value as Record<string, unknown>,
+          map
+        );
+      } else if (relation?.collection) {
+        result[key] = Object.fromEntries(
+          Object.entries(value as Record<string, unknown>).map(
+            ([operator, condition]) => [
+              operator,
+              relation.builder.mapFieldValues(
+                condition as Record<string, unknown>,
+                map
+              ),
+            ]
+          )
+        );
+      } else if (relation) {
+        result[key] = relation.builder.mapFieldValues(
+          value as Record<string, unknown>,
+          map
+        );
+      } else if (!field?.resolve) {
+        result[key] = value;
+      } else if (isDirectValue(value)) {
+        result[key] = mapValue(value);
+      } else {
+        result[key] = Object.fromEntries(
+          Object.entries(value as Record<string, unknown>).map(
+            ([operator, operatorValue]) => [
+              operator,
+              UNRESOLVED_OPERATORS.includes(operator)
+                ? operatorValue
+                : mapValue(operatorValue),
+            ]
+          )
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Creates the transform applying field replacements and scopes to a validated filter.
+   * @internal
+   */
+  private createReplacementTransform(
+    context: Context | undefined
+  ): (
+    obj: Record<string, unknown>,
+    async: boolean
+  ) => Record<string, unknown> | Promise<Record<string, unknown>> {
+    // Build string replacement map
+    const stringReplacementMap = new Map<string, string>();
+    // Build callback replacement map
+    const callbackReplacementMap = new Map<
+      string,
+      (args: {
+        field: string;
+        operator: Operator;
+        value: unknown;
+      }) => FilterQuery<Entity> | Promise<FilterQuery<Entity>>
+    >();
+
+    for (const field of this.fieldOptionsMap.values()) {
       if (hasStringReplacement(field)) {
         stringReplacementMap.set(field.field, field.replacement);
       } else if (hasCallbackReplacement(field)) {
         callbackReplacementMap.set(
           field.field,
-          field.replacement as (args: {
+          (field as ReplacementCallbackFieldOptions<Entity, FieldType>)
+            .replacement as (args: {
             field: string;
             operator: Operator;
             value: unknown;
-          }) => FilterQuery<Entity>
+          }) => FilterQuery<Entity> | Promise<FilterQuery<Entity>>
         );
       }
     }
 
-    const hasTransforms =
-      stringReplacementMap.size > 0 || callbackReplacementMap.size > 0;
+    // Created on first use, a builder may be mounted on itself
+    const relationTransforms = new Map<
+      string,
+      (
+        obj: Record<string, unknown>,
+        async: boolean
+      ) => Record<string, unknown> | Promise<Record<string, unknown>>
+    >();
+    const getRelationTransform = (field: string) => {
+      let transform = relationTransforms.get(field);
+      if (!transform) {
+        transform = this.relationMap
+          .get(field)!
+          .builder.createReplacementTransform(context);
+        relationTransforms.set(field, transform);
+      }
+      return transform;
+    };
 
     // Parse field value to extract operator and value pairs
     const parseFieldValue = (
       fieldValue: unknown
     ): Array<{ operator: Operator; value: unknown }> => {
-      if (fieldValue === null || typeof fieldValue !== "object") {
+      if (isDirectValue(fieldValue)) {
         // Direct assignment is equivalent to $eq
         return [{ operator: "$eq", value: fieldValue }];
       }
@@ -292,34 +2473,82 @@ export class FilterQuerySchemaBuilder<Entity extends object> {
         }));
     };
 
-    // Recursively apply field name replacements
+    // Recursively apply field name replacements. Async callbacks are started during
+    // the walk, each object is composed once the conditions of its keys are settled,
+    // so that conditions are merged in input order into objects that are not copied yet.
     const applyReplacements = (
-      obj: Record<string, unknown>
-    ): Record<string, unknown> => {
-      const result: Record<string, unknown> = {};
+      obj: Record<string, unknown>,
+      async: boolean
+    ): Record<string, unknown> | Promise<Record<string, unknown>> => {
+      const conditions: (
+        | Record<string, unknown>
+        | Promise<Record<string, unknown>>
+      )[] = [];
+      const wrap = (
+        key: string,
+        values: (Record<string, unknown> | Promise<Record<string, unknown>>)[],
+        compose: (values: Record<string, unknown>[]) => unknown
+      ) =>
+        conditions.push(
+          whenSettled(values, (settled) => ({ [key]: compose(settled) }))
+        );
 
       for (const [key, value] of Object.entries(obj)) {
-        if (key === "$and" && Array.isArray(value)) {
-          result[key] = value.map((item) =>
-            applyReplacements(item as Record<string, unknown>)
-          );
-        } else if (key === "$or" && Array.isArray(value)) {
-          result[key] = value.map((item) =>
-            applyReplacements(item as Record<string, unknown>)
+        if ((key === "$and" || key === "$or") && Array.isArray(value)) {
+          wrap(
+            key,
+            value.map((item) =>
+              applyReplacements(item as Record<string, unknown>, async)
+            ),
+            (items) => items
           );
         } else if (
           key === "$not" &&
           typeof value === "object" &&
           value !== null
         ) {
-          result[key] = applyReplacements(value as Record<string, unknown>);
+          wrap(
+            key,
+            [applyReplacements(value as Record<string, unknown>, async)],
+            ([condition]) => condition
+          );
+        } else if (this.relationMap.has(key)) {
+          // Nested conditions use the replacements of the relation's builder
+          const applyRelationReplacements = getRelationTransform(key);
+          if (this.relationMap.get(key)!.collection) {
+            const entries = Object.entries(value as Record<string, unknown>);
+            wrap(
+              key,
+              entries.map(([, condition]) =>
+                applyRelationReplacements(
+                  condition as Record<string, unknown>,
+                  async
+                )
+              ),
+              (settled) =>
+                Object.fromEntries(
+                  entries.map(([operator], index) => [operator, settled[index]])
+                )
+            );
+          } else {
+            wrap(
+              key,
+              [
+                applyRelationReplacements(
+                  value as Record<string, unknown>,
+                  async
+                ),
+              ],
+              ([condition]) => condition
+            );
+          }
         } else {
           // For field conditions, check if replacement is needed
           const stringReplacement = stringReplacementMap.get(key);
           const callbackReplacement = callbackReplacementMap.get(key);
 
           if (callbackReplacement) {
-            // Apply callback replacement
+            // Apply callback replacement, once per operator
             const parsed = parseFieldValue(value);
             for (const { operator, value: parsedValue } of parsed) {
               const replacement = callbackReplacement({
@@ -327,85 +2556,543 @@ export class FilterQuerySchemaBuilder<Entity extends object> {
                 operator,
                 value: parsedValue,
               });
-              // Merge the callback result into the output
-              Object.assign(result, replacement);
+              if (!(replacement instanceof Promise)) {
+                conditions.push(replacement as Record<string, unknown>);
+              } else if (async) {
+                conditions.push(
+                  replacement as Promise<Record<string, unknown>>
+                );
+              } else {
+                // Avoid an unhandled rejection, the parse fails anyway
+                replacement.catch(() => undefined);
+                throw new Error(
+                  `Field "${key}" has an async replacement, use buildAsync() and parseAsync()`
+                );
+              }
             }
           } else if (stringReplacement) {
             // Apply string path replacement as nested object
-            setNestedValue(result, stringReplacement, value);
+            const condition: Record<string, unknown> = {};
+            setNestedValue(condition, stringReplacement, value);
+            conditions.push(condition);
           } else {
-            result[key] = value;
+            conditions.push({ [key]: value });
           }
         }
       }
 
-      return result;
+      // Conditions produced for the same key are combined, never overwritten
+      return whenSettled(conditions, (settled) => {
+        const result: Record<string, unknown> = {};
+        for (const condition of settled) {
+          mergeFilterQuery(result, condition, this.options.mergeStrategy);
+        }
+        return result;
+      });
     };
 
-    // Dynamically build field schemas, each field uses its declared type
-    const fieldSchemas: Record<string, z.ZodOptional<z.ZodTypeAny>> = {};
-    for (const field of fieldOptions) {
-      const fieldComparisonSchema = createTypedComparisonSchema(
-        field.type,
-        maxArrayLength,
+    if (this.scopes.length === 0) {
+      return applyReplacements;
+    }
+
+    // Scopes are resolved on every parse, callbacks may depend on mutable state
+    return (obj, async) => {
+      const scopes = this.scopes.map((scope) =>
+        typeof scope === "function"
+          ? (scope as (context: Context) => FilterQuery<Entity>)(
+              context as Context
+            )
+          : scope
+      );
+      return whenSettled([applyReplacements(obj, async)], ([condition]) => ({
+        $and: [...scopes, condition],
+      }));
+    };
+  }
+
+  /**
+   * Formats a Zod issue, `path` is the path of the union the issue is nested in.
+   * @internal
+   */
+  private formatIssue(
+    issue: z.core.$ZodIssue,
+    path: PropertyKey[],
+    context: Context | undefined
+  ): FilterValidationIssue[] {
+    const issuePath = [...path, ...issue.path];
+
+    if (issue.code === "invalid_union" && issue.errors.length > 0) {
+      // The branch that got furthest into the input is the shape the input was meant to have
+      const reach = (issues: z.core.$ZodIssue[]) =>
+        Math.max(0, ...issues.map((nested) => nested.path.length));
+      const branch = issue.errors.reduce((best, errors) =>
+        reach(errors) > reach(best) ? errors : best
+      );
+      return branch.flatMap((nested) =>
+        this.formatIssue(nested, issuePath, context)
+      );
+    }
+
+    const { builder, field, operator, collection } =
+      this.locateIssuePath(issuePath);
+    const fieldOptions = field ? builder.describeField(field) : undefined;
+    const messages = resolveMessages(this.options, context);
+    const params = issue.code === "custom" ? issue.params : undefined;
+    const create = (
+      code: FilterErrorCode,
+      details: Omit<Partial<FilterValidationIssue>, "code" | "message"> = {}
+    ): FilterValidationIssue => {
+      const formatted = {
+        path: formatIssuePath(issuePath),
+        ...(field !== undefined && { field }),
+        ...(operator !== undefined && { operator }),
+        ...details,
+      };
+      const message = formatFilterMessage(
+        code,
         {
-          array: field.array,
-          fulltext: "fulltext" in field ? field.fulltext : undefined,
-        }
+          type: fieldOptions?.type,
+          relative: fieldOptions?.relative,
+          values: fieldOptions?.values,
+          count: params?.count,
+          cost: params?.cost,
+          ...formatted,
+        },
+        messages
       );
-      fieldSchemas[field.field] = fieldComparisonSchema.optional();
+      return { code, message, ...formatted };
+    };
+
+    if (issue.code === "unrecognized_keys") {
+      return issue.keys.map((key) => {
+        const keyPath = formatIssuePath([...issuePath, key]);
+        if (collection) {
+          return create("unknown_operator", {
+            path: keyPath,
+            operator: key,
+            suggestion: findClosestMatch(key, ["$some", "$every", "$none"]),
+          });
+        }
+        // Logical operators and relations are left out of the schema at the maximum depth
+        if (["$and", "$or", "$not"].includes(key)) {
+          return create("max_depth_exceeded", {
+            path: keyPath,
+            operator: key,
+            limit: this.options.maxDepth,
+          });
+        }
+        if (builder.relationMap.has(key)) {
+          return create("max_depth_exceeded", {
+            path: keyPath,
+            field: key,
+            limit: this.options.maxDepth,
+          });
+        }
+        if (key.startsWith("$")) {
+          return create("unknown_operator", {
+            path: keyPath,
+            operator: key,
+            suggestion: findClosestMatch(key, ["$and", "$or", "$not"]),
+          });
+        }
+        return create("unknown_field", {
+          path: keyPath,
+          field: key,
+          suggestion: findClosestMatch(key, [
+            ...[...builder.fieldOptionsMap.values()]
+              .filter((options) => isFieldAccessible(options.access, context))
+              .map((options) => options.field),
+            ...builder.relationMap.keys(),
+          ]),
+        });
+      });
     }
 
-    const createFilterSchema = (
-      currentDepth: number
-    ): z.ZodType<FilterQuery<Entity>> => {
-      if (currentDepth >= maxDepth) {
-        // At max depth, only allow simple field conditions, no nesting
-        return z
-          .object(fieldSchemas)
-          .strict()
-          .refine((obj) => Object.keys(obj).length <= maxConditions, {
-            message: `Filter cannot have more than ${maxConditions} conditions`,
-          }) as unknown as z.ZodType<FilterQuery<Entity>>;
+    if (typeof params?.code === "string") {
+      const paramsOperator: string | undefined = params.operator ?? operator;
+      if (
+        params.code === "operator_not_allowed" &&
+        paramsOperator &&
+        !isOperator(paramsOperator) &&
+        fieldOptions
+      ) {
+        return [
+          create("unknown_operator", {
+            suggestion: findClosestMatch(
+              paramsOperator,
+              fieldOptions.operators
+            ),
+          }),
+        ];
       }
+      return [
+        create(params.code as FilterErrorCode, {
+          ...(paramsOperator !== undefined && { operator: paramsOperator }),
+          ...(params.limit !== undefined && { limit: params.limit }),
+        }),
+      ];
+    }
 
-      return z.lazy(() => {
-        const nestedSchema = createFilterSchema(currentDepth + 1);
+    const expectsArray =
+      issue.code === "invalid_type" && issue.expected === "array";
+    if (issue.code === "too_big") {
+      return [
+        create(fieldOptions ? "too_many_values" : "too_many_branches", {
+          limit: Number(issue.maximum),
+        }),
+      ];
+    }
+    if (fieldOptions && !collection) {
+      return [
+        create("invalid_value", {
+          expected: expectsArray ? "array" : fieldOptions.type,
+        }),
+      ];
+    }
+    return [
+      create("invalid_filter", { expected: expectsArray ? "array" : "object" }),
+    ];
+  }
 
-        return z
-          .object({
-            $and: z.array(nestedSchema).optional(),
-            $or: z
-              .array(nestedSchema)
-              .max(maxOrBranches, {
-                message: `$or cannot have more than ${maxOrBranches} branches`,
-              })
-              .optional(),
-            $not: nestedSchema.optional(),
-            ...fieldSchemas,
-          })
-          .strict()
-          .refine(
-            (obj) => {
-              const fieldKeys = Object.keys(obj).filter(
-                (k) => !["$and", "$or", "$not"].includes(k)
-              );
-              return fieldKeys.length <= maxConditions;
-            },
-            {
-              message: `Filter cannot have more than ${maxConditions} field conditions`,
-            }
-          ) as unknown as z.ZodType<FilterQuery<Entity>>;
-      }) as unknown as z.ZodType<FilterQuery<Entity>>;
+  /**
+   * Returns the type, enum values and operators of a field for issue messages.
+   * @internal
+   */
+  private describeField(field: string):
+    | {
+        type: FieldType;
+        relative?: boolean;
+        values?: EnumValue[];
+        operators: Operator[];
+      }
+    | undefined {
+    const options = this.fieldOptionsMap.get(field);
+    if (!options) {
+      return undefined;
+    }
+    return {
+      type: options.type,
+      relative: "relative" in options ? options.relative : undefined,
+      values: "values" in options ? getEnumValues(options.values) : undefined,
+      operators: getFieldOperators(options.type, {
+        array: options.array,
+        fulltext: "fulltext" in options ? options.fulltext : undefined,
+        patterns: "patterns" in options ? options.patterns : undefined,
+        operators: options.operators,
+      }),
+    };
+  }
+
+  /**
+   * Finds the builder, field and operator an issue path points to.
+   *
+   * @remarks
+   * `collection` is set when the path points to the object of a collection
+   * condition, e.g. `tags` in `{ tags: { $some: { ... } } }`.
+   *
+   * @internal
+   */
+  private locateIssuePath(path: PropertyKey[]): {
+    builder: FilterQuerySchemaBuilder<object>;
+    field?: string;
+    operator?: string;
+    collection?: boolean;
+  } {
+    let builder = this as unknown as FilterQuerySchemaBuilder<object>;
+    for (let index = 0; index < path.length; index++) {
+      const segment = String(path[index]);
+      const next = path[index + 1];
+
+      if (segment === "$and" || segment === "$or" || segment === "$not") {
+        if (next === undefined) {
+          return { builder, operator: segment };
+        }
+        // Skip the branch index
+        index += segment === "$not" ? 0 : 1;
+        continue;
+      }
+
+      const relation = builder.relationMap.get(segment);
+      if (relation?.collection) {
+        if (
+          typeof next !== "string" ||
+          !["$some", "$every", "$none"].includes(next)
+        ) {
+          return { builder, field: segment, collection: true };
+        }
+        index++;
+      }
+      if (relation) {
+        builder = relation.builder;
+        continue;
+      }
+
+      return {
+        builder,
+        field: segment,
+        operator: typeof next === "string" ? next : undefined,
+      };
+    }
+    return { builder };
+  }
+
+  /**
+   * Adds the GraphQL types of this builder and its nested builders.
+   *
+   * @remarks
+   * `comparisons` maps the scalar and operators of comparison types to their name, so
+   * fields accepting the same operators share a type. `names` maps already exported
+   * builders to their type name, so builders mounted on themselves reference their
+   * existing type.
+   *
+   * @internal
+   */
+  private addGraphQLTypes(
+    types: Map<string, string>,
+    comparisons: Map<string, string>,
+    name: string,
+    options: GraphQLSdlOptions,
+    names: Map<FilterQuerySchemaBuilder<object>, string>
+  ): void {
+    const { maxDepth, maxConditions, maxOrBranches, maxAndBranches } =
+      this.options;
+    names.set(this as unknown as FilterQuerySchemaBuilder<object>, name);
+    // Reserved first, so that the filter type precedes the types it references
+    types.set(name, "");
+
+    const assertFieldName = (field: string) => {
+      if (!GRAPHQL_NAME_PATTERN.test(field)) {
+        throw new Error(`Field "${field}" is not a valid GraphQL name`);
+      }
+      if (["and", "or", "not"].includes(field)) {
+        throw new Error(
+          `Field "${field}" conflicts with the logical operator of the GraphQL filter`
+        );
+      }
+    };
+
+    const scalars: Record<Exclude<FieldType, "enum">, string> = {
+      string: "String",
+      number: options.numberType,
+      boolean: "Boolean",
+      date: options.dateType,
     };
 
-    // Add transform if there are any replacements or fulltext fields
-    if (hasTransforms) {
-      return createFilterSchema(0).transform((obj) =>
-        applyReplacements(obj as Record<string, unknown>)
-      ) as unknown as z.ZodType<FilterQuery<Entity>>;
+    const fields = [`  and: [${name}!]`, `  or: [${name}!]`, `  not: ${name}`];
+    for (const field of this.fieldOptionsMap.values()) {
+      assertFieldName(field.field);
+      const operators = getFieldOperators(field.type, {
+        array: field.array,
+        fulltext: "fulltext" in field ? field.fulltext : undefined,
+        patterns: "patterns" in field ? field.patterns : undefined,
+        operators: field.operators,
+      });
+
+      let scalar: string;
+      let isDefault = false;
+      if (field.type === "enum") {
+        const values = "values" in field ? getEnumValues(field.values) : [];
+        if (
+          values.length > 0 &&
+          values.every(
+            (value) =>
+              typeof value === "string" && GRAPHQL_NAME_PATTERN.test(value)
+          )
+        ) {
+          scalar = `${name}_${field.field}Value`;
+          types.set(scalar, `enum ${scalar} {\n  ${values.join("\n  ")}\n}`);
+        } else {
+          scalar = values.every((value) => typeof value === "number")
+            ? options.numberType
+            : "String";
+        }
+      } else {
+        scalar = scalars[field.type];
+        isDefault = operators.join() === getFieldOperators(field.type).join();
+      }
+
+      const signature = `${scalar}:${operators.join()}`;
+      let comparison = comparisons.get(signature);
+      if (!comparison) {
+        comparison = isDefault
+          ? `${scalar}Comparison`
+          : `${name}_${field.field}Comparison`;
+        comparisons.set(signature, comparison);
+        types.set(
+          comparison,
+          createGraphQLComparison(comparison, scalar, operators)
+        );
+      }
+      fields.push(`  ${field.field}: ${comparison}`);
+    }
+
+    for (const [field, { builder, collection }] of this.relationMap) {
+      assertFieldName(field);
+      let definition = names.get(builder);
+      if (!definition) {
+        definition = `${name}_${field}`;
+        builder.addGraphQLTypes(types, comparisons, definition, options, names);
+      }
+      if (!collection) {
+        fields.push(`  ${field}: ${definition}`);
+        continue;
+      }
+      const collectionType = `${definition}Collection`;
+      types.set(
+        collectionType,
+        `input ${collectionType} {\n  some: ${definition}\n  every: ${definition}\n  none: ${definition}\n}`
+      );
+      fields.push(`  ${field}: ${collectionType}`);
+    }
+
+    types.set(
+      name,
+      `"""\nFilter query. Logical operators can be nested at most ${maxDepth} levels deep, with at most ${maxAndBranches === undefined ? "" : `${maxAndBranches} and branches and `}${maxOrBranches} or branches, and each object can have at most ${maxConditions} field conditions.\n"""\ninput ${name} {\n${fields.join("\n")}\n}`
+    );
+  }
+
+  /**
+   * Exports the fields and relations of this builder and its nested builders.
+   *
+   * @remarks
+   * Relations are only exported above the `maxDepth` of the root builder, which also
+   * ends the recursion of builders mounted on themselves.
+   *
+   * @internal
+   */
+  private getClientRelation(
+    context: unknown,
+    depth: number,
+    maxDepth = this.options.maxDepth
+  ): Omit<FilterClientRelation, "collection"> {
+    const fields: Record<string, FilterClientField> = {};
+    for (const field of this.fieldOptionsMap.values()) {
+      if (!isFieldAccessible(field.access, context)) {
+        continue;
+      }
+
+      const patterns = "patterns" in field ? field.patterns : undefined;
+      const relative = "relative" in field ? field.relative : undefined;
+      fields[field.field] = {
+        type: field.type,
+        operators: getFieldOperators(field.type, {
+          array: field.array,
+          fulltext: "fulltext" in field ? field.fulltext : undefined,
+          patterns,
+          operators: field.operators,
+        }),
+        nullable: field.nullable ?? true,
+        ...("values" in field && { values: getEnumValues(field.values) }),
+        ...(field.cost !== undefined && { cost: field.cost }),
+        ...(typeof patterns === "object" &&
+          patterns.leadingWildcard !== undefined && {
+            leadingWildcard: patterns.leadingWildcard,
+          }),
+        ...(typeof patterns === "object" &&
+          patterns.caseSensitive !== undefined && {
+            caseSensitive: patterns.caseSensitive,
+          }),
+        ...(relative !== undefined && { relative }),
+      };
+    }
+
+    const relations: Record<string, FilterClientRelation> = {};
+    if (depth < maxDepth) {
+      for (const [field, { builder, collection }] of this.relationMap) {
+        relations[field] = {
+          collection,
+          ...builder.getClientRelation(context, depth + 1, maxDepth),
+        };
+      }
+    }
+
+    return { fields, relations };
+  }
+
+  /**
+   * Adds the JSON Schema definitions of this builder and its nested builders.
+   *
+   * @remarks
+   * `names` maps already exported builders to their definition name, so builders
+   * mounted on themselves reference their existing definition.
+   *
+   * @internal
+   */
+  private addJsonSchemaDefinitions(
+    $defs: Record<string, JsonSchema>,
+    name: string,
+    refPrefix: string,
+    options: FilterOptions,
+    names: Map<FilterQuerySchemaBuilder<object>, string>
+  ): void {
+    const {
+      maxDepth,
+      maxConditions,
+      maxOrBranches,
+      maxAndBranches,
+      maxTotalConditions,
+      maxArrayLength,
+    } = options;
+    names.set(this as unknown as FilterQuerySchemaBuilder<object>, name);
+
+    const ref = (definition: string): JsonSchema => ({
+      $ref: `${refPrefix}${definition}`,
+    });
+
+    const fieldProperties: Record<string, JsonSchema> = {};
+    for (const field of this.fieldOptionsMap.values()) {
+      const definition = `${name}_${field.field}`;
+      $defs[definition] = createFieldJsonSchema(field.type, maxArrayLength, {
+        array: field.array,
+        nullable: field.nullable,
+        operators: field.operators,
+        values: "values" in field ? getEnumValues(field.values) : undefined,
+        fulltext: "fulltext" in field ? field.fulltext : undefined,
+        patterns: "patterns" in field ? field.patterns : undefined,
+        relative: "relative" in field ? field.relative : undefined,
+      });
+      fieldProperties[field.field] = ref(definition);
+    }
+
+    for (const [field, { builder, collection }] of this.relationMap) {
+      let definition = names.get(builder);
+      if (!definition) {
+        definition = `${name}_${field}`;
+        builder.addJsonSchemaDefinitions(
+          $defs,
+          definition,
+          refPrefix,
+          options,
+          names
+        );
+      }
+      fieldProperties[field] = collection
+        ? {
+            type: "object",
+            properties: {
+              $some: ref(definition),
+              $every: ref(definition),
+              $none: ref(definition),
+            },
+            additionalProperties: false,
+          }
+        : ref(definition);
     }
 
-    return createFilterSchema(0);
+    $defs[name] = {
+      type: "object",
+      description: `Filter query. Logical operators can be nested at most ${maxDepth} levels deep, and each object can have at most ${maxConditions} field conditions${maxTotalConditions === undefined ? "" : `, the whole filter at most ${maxTotalConditions}`}.`,
+      properties: {
+        $and: {
+          type: "array",
+          items: ref(name),
+          ...(maxAndBranches !== undefined && { maxItems: maxAndBranches }),
+        },
+        $or: { type: "array", items: ref(name), maxItems: maxOrBranches },
+        $not: ref(name),
+        ...fieldProperties,
+      },
+      additionalProperties: false,
+    };
   }
 }
@@ -0,0 +1,317 @@
+import type { FilterQuery, QueryOrderMap } from "@mikro-orm/core";
+import { z } from "zod";
+
+import { FilterQuerySchemaBuilder } from "./filter-query-schema-builder.js";
+import { FilterMessageParams } from "./interfaces/filter-message-params.interface.js";
+import { PaginationOptions } from "./interfaces/pagination-options.interface.js";
+import { OrderBySchemaBuilder } from "./order-by-schema-builder.js";
+import { FilterErrorCode, FindQuery } from "./types/index.js";
+import { decodeCursor, formatFilterMessage } from "./utils/index.js";
+
+/**
+ * The find options input after validation of its parts.
+ * @internal
+ */
+interface FindInput {
+  filter?: FilterQuery<object>;
+  orderBy?: Record<string, unknown>[];
+  limit?: number;
+  offset?: number;
+  after?: string;
+  before?: string;
+}
+
+/**
+ * Checks whether the values of a cursor match the fields of a sort order.
+ * @internal
+ */
+function matchesSortFields(
+  values: unknown[],
+  orderBy: Record<string, unknown>[]
+): boolean {
+  const directions = orderBy.flatMap((entry) => Object.values(entry));
+  return (
+    values.length === directions.length &&
+    directions.every((direction, index) => {
+      const value = values[index];
+      const isObject =
+        typeof value === "object" && value !== null && !Array.isArray(value);
+      return typeof direction === "object" ? isObject : !isObject;
+    })
+  );
+}
+
+/**
+ * A builder for creating Zod schemas that validate a filter, a sort order and
+ * pagination together, ready to be passed to `em.find()` or `em.findByCursor()`.
+ *
+ * @remarks
+ * The schema accepts `{ filter, orderBy, limit, offset }` with offset pagination, or
+ * `{ filter, orderBy, limit, after, before }` with cursor pagination. The filter is
+ * validated by the filter builder and the sort order by an {@link OrderBySchemaBuilder},
+ * created from the filter builder's fields unless one is set with
+ * {@link FindOptionsSchemaBuilder.withOrderBy}. `limit` and `offset` also accept numeric
+ * strings, e.g. from a query string.
+ *
+ * @example
+ * ```typescript
+ * const schema = new FindOptionsSchemaBuilder(filterBuilder, { maxLimit: 50 }).build();
+ *
+ * const { filter, ...options } = schema.parse({
+ *   filter: { title: { $like: "%orm%" } },
+ *   orderBy: "-createdAt",
+ *   limit: 10,
+ *   offset: 20,
+ * });
+ * // Result: {
+ * //   filter: { title: { $like: "%orm%" } },
+ * //   orderBy: [{ createdAt: "desc" }],
+ * //   limit: 10,
+ * //   offset: 20,
+ * // }
+ *
+ * await em.find(Post, filter, options);
+ * ```
+ *
+ * @typeParam Entity - The entity type being queried
+ * @typeParam Context - The request context passed to the filter builder
+ */
+export class FindOptionsSchemaBuilder<
+  Entity extends object,
+  Context = unknown,
+> {
+  private readonly options: PaginationOptions;
+
+  private orderByBuilder?: OrderBySchemaBuilder<Entity>;
+
+  /**
+   * Creates a new FindOptionsSchemaBuilder instance.
+   *
+   * @param filterBuilder - The builder of the filter schema
+   * @param options - Optional configuration for pagination, page size and default sort order
+   */
+  constructor(
+    private readonly filterBuilder: FilterQuerySchemaBuilder<Entity, Context>,
+    options?: Partial<PaginationOptions>
+  ) {
+    this.options = {
+      pagination: "offset",
+      defaultLimit: 20,
+      maxLimit: 100,
+      ...(options ?? {}),
+    };
+  }
+
+  /**
+   * Sets the builder of the sort order schema.
+   *
+   * @param orderByBuilder - The order-by builder replacing the one created from the filter builder
+   * @returns The builder instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * builder.withOrderBy(
+   *   new OrderBySchemaBuilder<Post>().addField({ field: "createdAt" }).addField({ field: "id" })
+   * );
+   * ```
+   */
+  withOrderBy(orderByBuilder: OrderBySchemaBuilder<Entity>): this {
+    this.orderByBuilder = orderByBuilder;
+    return this;
+  }
+
+  /**
+   * Builds and returns the Zod schema for validating find options.
+   *
+   * @param context - The request context passed to the filter builder
+   * @returns A Zod schema that validates find options and outputs a {@link FindQuery}
+   *
+   * @remarks
+   * The output always contains a `filter` (`{}` when omitted) and a page size, `defaultLimit`
+   * when omitted. `orderBy` falls back to `defaultOrderBy`.
+   *
+   * With cursor pagination, a sort order is required and cursors must be created by
+   * MikroORM for the same sort order: a cursor holds one value per sort field, so cursors
+   * of a different sort order are rejected. A page after a cursor (or the first page) is
+   * output as `first`, a page before a cursor as `last`. `after` and `before` cannot be
+   * combined.
+   *
+   * Issues take their message from the `messages` option and carry their error code in
+   * `params.code`, issues of the filter those of the filter builder.
+   *
+   * @example
+   * ```typescript
+   * const schema = new FindOptionsSchemaBuilder(filterBuilder, {
+   *   pagination: "cursor",
+   *   defaultOrderBy: ["-createdAt", "id"],
+   * }).build();
+   *
+   * const { filter, ...options } = schema.parse({ limit: 10, after: previous.endCursor });
+   * // Result: { filter: {}, orderBy: [{ createdAt: "desc" }, { id: "asc" }], first: 10, after: "..." }
+   *
+   * const cursor = await em.findByCursor(Post, filter, options);
+   * ```
+   */
+  build(context?: Context): z.ZodType<FindQuery<Entity>> {
+    return this.createSchema(this.filterBuilder.build(context), context);
+  }
+
+  /**
+   * Builds a Zod schema whose filter supports async replacements and resolvers, for use
+   * with `parseAsync()`.
+   *
+   * @param context - The request context passed to the filter builder
+   * @returns A Zod schema that validates find options asynchronously
+   *
+   * @remarks
+   * See {@link FilterQuerySchemaBuilder.buildAsync}.
+   */
+  buildAsync(context?: Context): z.ZodType<FindQuery<Entity>> {
+    return this.createSchema(this.filterBuilder.buildAsync(context), context);
+  }
+
+  /**
+   * Creates the find options schema around a filter schema.
+   * @internal
+   */
+  private createSchema(
+    filterSchema: z.ZodType<FilterQuery<Entity>>,
+    context: Context | undefined
+  ): z.ZodType<FindQuery<Entity>> {
+    const { pagination, defaultLimit, maxLimit, defaultOrderBy, messages } =
+      this.options;
+    const catalog =
+      typeof messages === "function" ? messages(context) : messages;
+    const message = (code: FilterErrorCode, params: FilterMessageParams = {}) =>
+      formatFilterMessage(code, params, catalog);
+
+    const orderBySchema = (
+      this.orderByBuilder ??
+      OrderBySchemaBuilder.fromFilterBuilder(this.filterBuilder, { messages })
+    ).build(context) as z.ZodType<Record<string, unknown>[]>;
+    const defaultOrder =
+      defaultOrderBy === undefined
+        ? undefined
+        : orderBySchema.parse(defaultOrderBy);
+
+    const invalidLimit = {
+      error: message("invalid_limit", { limit: maxLimit }),
+    };
+    const invalidOffset = { error: message("invalid_offset") };
+    const invalidCursor = { error: message("invalid_cursor") };
+    const pageSchema =
+      pagination === "offset"
+        ? {
+            offset: z.coerce
+              .number(invalidOffset)
+              .int(invalidOffset)
+              .min(0, invalidOffset)
+              .optional(),
+          }
+        : {
+            after: z.string(invalidCursor).optional(),
+            before: z.string(invalidCursor).optional(),
+          };
+
+    return (
+      z.strictObject(
+        {
+          filter: filterSchema.optional(),
+          orderBy: orderBySchema.optional(),
+          limit: z.coerce
+            .number(invalidLimit)
+            .int(invalidLimit)
+            .min(1, invalidLimit)
+            .max(maxLimit, invalidLimit)
+            .optional(),
+          ...pageSchema,
+        },
+        {
+          error: (issue) =>
+            issue.code === "unrecognized_keys"
+              ? issue.keys
+                  .map((option) => message("unknown_option", { option }))
+                  .join("; ")
+              : undefined,
+        }
+      ) as z.ZodType<FindInput>
+    )
+      .transform((input) => ({
+        ...input,
+        orderBy:
+          input.orderBy && input.orderBy.length > 0
+            ? input.orderBy
+            : defaultOrder,
+      }))
+      .superRefine(({ orderBy, after, before }, ctx) => {
+        if (pagination !== "cursor") {
+          return;
+        }
+
+        if (after !== undefined && before !== undefined) {
+          ctx.addIssue({
+            code: "custom",
+            message: message("cursors_combined"),
+            path: ["before"],
+            params: { code: "cursors_combined" },
+          });
+        }
+
+        if (!orderBy) {
+          ctx.addIssue({
+            code: "custom",
+            message: message("order_by_required"),
+            path: ["orderBy"],
+            params: { code: "order_by_required" },
+          });
+          return;
+        }
+
+        for (const [key, cursor] of Object.entries({ after, before })) {
+          if (cursor === undefined) {
+            continue;
+          }
+          const values = decodeCursor(cursor);
+          if (!values) {
+            ctx.addIssue({
+              code: "custom",
+              message: message("invalid_cursor", { option: key }),
+              path: [key],
+              params: { code: "invalid_cursor", option: key },
+            });
+          } else if (!matchesSortFields(values, orderBy)) {
+            const fields = orderBy.flatMap((entry) => Object.keys(entry));
+            ctx.addIssue({
+              code: "custom",
+              message: message("cursor_mismatch", { option: key, fields }),
+              path: [key],
+              params: { code: "cursor_mismatch", option: key, fields },
+            });
+          }
+        }
+      })
+      .transform(({ filter = {}, orderBy, limit, offset, after, before }) => {
+        const query = {
+          filter,
+          ...(orderBy && { orderBy: orderBy as QueryOrderMap<Entity>[] }),
+        };
+        const pageSize = limit ?? Math.min(defaultLimit, maxLimit);
+
+        if (pagination === "offset") {
+          return {
+            ...query,
+            limit: pageSize,
+            ...(offset !== undefined && { offset }),
+          };
+        }
+        if (before !== undefined) {
+          return { ...query, last: pageSize, before };
+        }
+        return {
+          ...query,
+          first: pageSize,
+          ...(after !== undefined && { after }),
+        };
+      }) as unknown as z.ZodType<FindQuery<Entity>>;
+  }
+}
@@ -1,3 +1,18 @@
+export * from "./filter-client.js";
 export * from "./filter-query-schema-builder.js";
+export * from "./find-options-schema-builder.js";
+export * from "./order-by-schema-builder.js";
 export type * from "./interfaces/index.js";
 export type * from "./types/index.js";
+export {
+  compileFilterPredicate,
+  compileMikroOrmFilter,
+  compileMongoFilter,
+  createFilterPredicate,
+  DEFAULT_FILTER_MESSAGES,
+  escapeLikePattern,
+  formatFilterMessage,
+  parseFilterNode,
+  parseFilterQueryString,
+  stringifyFilterQueryString,
+} from "./utils/index.js";
@@ -0,0 +1,34 @@
+/**
+ * Options for the coercion of date field values.
+ *
+ * @remarks
+ * With date options set, every date value is converted into a `Date` instance
+ * before the filter query is returned. Datetimes with an offset (e.g. `Z`) keep
+ * their instant, date-only values and datetimes without an offset are
+ * interpreted in `timeZone`.
+ *
+ * @example
+ * ```typescript
+ * const builder = new FilterQuerySchemaBuilder<Post>({
+ *   dates: { timeZone: "Asia/Shanghai" },
+ * });
+ *
+ * // Input: { createdAt: { $gte: "2024-01-01", $lte: "2024-01-31" } }
+ * // Output: { createdAt: { $gte: 2023-12-31T16:00:00.000Z, $lte: 2024-01-31T15:59:59.999Z } }
+ * ```
+ */
+export interface DateOptions {
+  /**
+   * The IANA time zone of date-only values and datetimes without an offset.
+   * @defaultValue "UTC"
+   */
+  timeZone?: string;
+
+  /**
+   * Whether date-only values of `$gt` and `$lte` mean the end of that day, so that
+   * `$lte: "2024-01-31"` includes the whole of January 31st. Otherwise, and for all
+   * other operators, date-only values mean the start of the day.
+   * @defaultValue true
+   */
+  endOfDay?: boolean;
+}
@@ -0,0 +1,76 @@
+import { type EnumValue, type FieldType } from "../types/index.js";
+
+/**
+ * The interpolation parameters of filter validation messages.
+ *
+ * @remarks
+ * Each message only receives the parameters that apply to its code, e.g. `limit`
+ * for limit violations and `suggestion` for unknown fields with a close match.
+ */
+export interface FilterMessageParams {
+  /**
+   * The field the message applies to.
+   */
+  field?: string;
+
+  /**
+   * The operator the message applies to, e.g. `$gt` or `$or`.
+   */
+  operator?: string;
+
+  /**
+   * The type of the field.
+   */
+  type?: FieldType;
+
+  /**
+   * Whether the date field accepts relative date expressions.
+   */
+  relative?: boolean;
+
+  /**
+   * The expected field type, `"enum"` or `"array"` for invalid values,
+   * `"object"` or `"array"` for invalid filters.
+   */
+  expected?: string;
+
+  /**
+   * The allowed values of enum fields.
+   */
+  values?: EnumValue[];
+
+  /**
+   * The violated limit.
+   */
+  limit?: number;
+
+  /**
+   * The number of conditions of the filter for `too_many_total_conditions`.
+   */
+  count?: number;
+
+  /**
+   * The cost of the filter for `cost_exceeded`.
+   */
+  cost?: number;
+
+  /**
+   * A close field or operator name.
+   */
+  suggestion?: string;
+
+  /**
+   * The sort direction of `invalid_sort_direction`.
+   */
+  direction?: string;
+
+  /**
+   * The sort fields a cursor must match for `cursor_mismatch`.
+   */
+  fields?: string[];
+
+  /**
+   * The find option the message applies to, e.g. `limit` or `after`.
+   */
+  option?: string;
+}
@@ -1,3 +1,10 @@
+import {
+  type FilterMessageCatalog,
+  type MergeStrategy,
+  type Operator,
+} from "../types/index.js";
+import { type DateOptions } from "./date-options.interface.js";
+
 /**
  * Configuration options for filter query validation limits.
  *
@@ -12,6 +19,7 @@
  *   maxConditions: 10,
  *   maxOrBranches: 3,
  *   maxArrayLength: 50,
+ *   maxCost: 40,
  * });
  * ```
  */
@@ -34,9 +42,85 @@ export interface FilterOptions {
    */
   maxOrBranches: number;
 
+  /**
+   * Maximum number of branches allowed in `$and` operator, no limit when not set.
+   */
+  maxAndBranches?: number;
+
+  /**
+   * Maximum number of field conditions in the whole filter query, including
+   * the conditions nested in logical operators and relations, no limit when not set.
+   */
+  maxTotalConditions?: number;
+
   /**
    * Maximum array length for `$in`, `$nin`, `$contains`, and `$overlap` operators.
    * @defaultValue 100
    */
   maxArrayLength: number;
+
+  /**
+   * Maximum cost of the whole filter query, no limit when not set.
+   *
+   * @remarks
+   * Each operator costs its `operatorCosts` entry times the `cost` of its field,
+   * array values multiply the cost by their length. A direct value counts as `$eq`.
+   */
+  maxCost?: number;
+
+  /**
+   * The cost of each operator, operators without a cost count as 1.
+   * Pattern operators are costed as the `$like` or `$ilike` they compile to.
+   * The given costs are merged with the default costs.
+   * @defaultValue `{ $fulltext: 10 }`
+   */
+  operatorCosts: Partial<Record<Operator, number>>;
+
+  /**
+   * How conditions on fields the caller cannot access are handled, see the `access` field option.
+   * `"reject"` fails validation, `"strip"` removes the conditions before validation, along
+   * with the `$and` / `$or` branches and relation conditions left empty. Filters that
+   * stripping would leave matching everything a removed condition excluded, e.g. an empty
+   * filter or an `$or` without branches, fail validation.
+   * @defaultValue "reject"
+   */
+  forbiddenFields: "reject" | "strip";
+
+  /**
+   * How replacement results are combined when they produce conditions for the same key,
+   * e.g. two callback replacements returning `$or`, or string replacements into the same
+   * relation. See {@link MergeStrategy}.
+   * @defaultValue "deep"
+   */
+  mergeStrategy: MergeStrategy;
+
+  /**
+   * Converts date field values into `Date` instances, no conversion when not set.
+   * See {@link DateOptions} for the handling of time zones and date-only values.
+   */
+  dates?: DateOptions;
+
+  /**
+   * The clock relative date expressions are resolved against, called once per
+   * date condition on every parse.
+   * @defaultValue `() => new Date()`
+   */
+  now: () => Date;
+
+  /**
+   * Messages overriding the default English validation messages, by error code.
+   *
+   * @remarks
+   * Used for every issue returned by `formatError()` and every issue of built schemas.
+   * Issues reported by Zod itself, e.g. wrong types, unrecognized keys or `$or` not being
+   * an array, get the message `formatError()` reports for them. Errors thrown while
+   * building are not localized.
+   *
+   * A function receives the request context passed to `build()` or `formatError()`, e.g.
+   * to select the catalog of the caller's locale. Codes without a message use the English
+   * message.
+   */
+  messages?:
+    | Partial<FilterMessageCatalog>
+    | ((context: unknown) => Partial<FilterMessageCatalog> | undefined);
 }
@@ -0,0 +1,47 @@
+import { type FilterErrorCode } from "../types/index.js";
+
+/**
+ * A validation issue of a filter, described in terms of fields and operators.
+ */
+export interface FilterValidationIssue {
+  /**
+   * The stable code of the issue.
+   */
+  code: FilterErrorCode;
+
+  /**
+   * A human-readable description of the issue.
+   */
+  message: string;
+
+  /**
+   * The path of the invalid node in the input query, e.g. `$or[2].age.$gte`.
+   * Issues of the root object have an empty path.
+   */
+  path: string;
+
+  /**
+   * The field the issue applies to, if any.
+   */
+  field?: string;
+
+  /**
+   * The operator the issue applies to, if any.
+   */
+  operator?: string;
+
+  /**
+   * The expected field type, `"enum"` values or `"array"` for `invalid_value` issues.
+   */
+  expected?: string;
+
+  /**
+   * The violated limit for limit issues, e.g. `maxOrBranches` for `too_many_branches`.
+   */
+  limit?: number;
+
+  /**
+   * A close field or operator name for `unknown_field` and `unknown_operator` issues.
+   */
+  suggestion?: string;
+}
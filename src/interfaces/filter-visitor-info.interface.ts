@@ -0,0 +1,22 @@
+/**
+ * The location of a node passed to a filter visitor.
+ *
+ * @typeParam Context - The request context passed to `build()`
+ */
+export interface FilterVisitorInfo<Context = unknown> {
+  /**
+   * The path of the node in the input query, e.g. `$or[1].age` or `comments.$some.likes`.
+   * The root object has an empty path.
+   */
+  path: string;
+
+  /**
+   * The nesting depth of the filter object containing the node, counted like `maxDepth`.
+   */
+  depth: number;
+
+  /**
+   * The request context passed to `build()`.
+   */
+  context: Context;
+}
@@ -0,0 +1,29 @@
+/**
+ * Options for exporting a filter schema as GraphQL SDL.
+ *
+ * @example
+ * ```typescript
+ * const sdl = builder.toGraphQLSdl({ name: "PostFilter", numberType: "Int" });
+ * ```
+ */
+export interface GraphQLSdlOptions {
+  /**
+   * Name of the filter input type, also used as prefix for the types of
+   * fields with custom operators, enum values and relations (e.g. `Filter_status`).
+   * @defaultValue "Filter"
+   */
+  name: string;
+
+  /**
+   * GraphQL scalar used for number fields.
+   * @defaultValue "Float"
+   */
+  numberType: "Int" | "Float";
+
+  /**
+   * GraphQL scalar used for date fields. The scalar is not declared by the exported
+   * SDL and must be provided by the GraphQL schema, e.g. from `graphql-scalars`.
+   * @defaultValue "DateTime"
+   */
+  dateType: string;
+}
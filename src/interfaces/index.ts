@@ -1,2 +1,13 @@
+export * from "./date-options.interface.js";
+export * from "./filter-message-params.interface.js";
 export * from "./filter-options.interface.js";
+export * from "./filter-validation-issue.interface.js";
+export * from "./filter-visitor-info.interface.js";
+export * from "./graphql-sdl-options.interface.js";
+export * from "./json-schema-options.interface.js";
+export * from "./metadata-field-options.interface.js";
+export * from "./order-by-options.interface.js";
+export * from "./pagination-options.interface.js";
+export * from "./pattern-options.interface.js";
+export * from "./query-string-options.interface.js";
 export * from "./replacement-callback-args.interface.js";
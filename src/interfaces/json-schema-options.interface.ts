@@ -0,0 +1,29 @@
+/**
+ * Options for exporting a filter schema as JSON Schema.
+ *
+ * @example
+ * Embedding the schema in an OpenAPI 3.1 document:
+ * ```typescript
+ * const { $defs } = builder.toJsonSchema({
+ *   name: "PostFilter",
+ *   refPrefix: "#/components/schemas/",
+ * });
+ *
+ * document.components.schemas = { ...document.components.schemas, ...$defs };
+ * ```
+ */
+export interface JsonSchemaOptions {
+  /**
+   * Name of the definition for the filter object, also used as prefix
+   * for the per-field definitions (e.g. `Filter_name`).
+   * @defaultValue "Filter"
+   */
+  name: string;
+
+  /**
+   * Prefix of the `$ref` pointers between definitions.
+   * Use `"#/components/schemas/"` when the definitions are placed in an OpenAPI document.
+   * @defaultValue "#/$defs/"
+   */
+  refPrefix: string;
+}
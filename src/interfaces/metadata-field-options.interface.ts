@@ -0,0 +1,27 @@
+import type { EntityKey } from "@mikro-orm/core";
+
+/**
+ * Options controlling which entity properties are turned into filter fields
+ * by `FilterQuerySchemaBuilder.fromMetadata`.
+ *
+ * @typeParam Entity - The entity type
+ *
+ * @example
+ * ```typescript
+ * const builder = FilterQuerySchemaBuilder.fromMetadata(meta, {
+ *   exclude: ["content"],
+ * });
+ * ```
+ */
+export interface MetadataFieldOptions<Entity extends object> {
+  /**
+   * Properties to add as filter fields.
+   * When omitted, every property with a supported type is added.
+   */
+  include?: EntityKey<Entity>[];
+
+  /**
+   * Properties to skip, applied after `include`.
+   */
+  exclude?: EntityKey<Entity>[];
+}
@@ -0,0 +1,33 @@
+import { type FilterMessageCatalog, type NullsOrder } from "../types/index.js";
+
+/**
+ * Configuration options for order-by validation.
+ *
+ * @example
+ * ```typescript
+ * const builder = new OrderBySchemaBuilder<User>({ maxSortKeys: 2, nulls: "last" });
+ * ```
+ */
+export interface OrderByOptions {
+  /**
+   * Maximum number of fields to sort by.
+   * @defaultValue 3
+   */
+  maxSortKeys: number;
+
+  /**
+   * Where `null` values are placed, the database default when not set.
+   */
+  nulls?: NullsOrder;
+
+  /**
+   * Messages overriding the default English validation messages, by error code.
+   *
+   * @remarks
+   * Uses the sort order codes of the message catalog, see `FilterOptions.messages`.
+   * A function receives the request context passed to `build()`.
+   */
+  messages?:
+    | Partial<FilterMessageCatalog>
+    | ((context: unknown) => Partial<FilterMessageCatalog> | undefined);
+}
@@ -0,0 +1,55 @@
+import {
+  type FilterMessageCatalog,
+  type PaginationMode,
+} from "../types/index.js";
+
+/**
+ * Configuration options for find options validation.
+ *
+ * @example
+ * ```typescript
+ * const builder = new FindOptionsSchemaBuilder(filterBuilder, {
+ *   pagination: "cursor",
+ *   maxLimit: 50,
+ *   defaultOrderBy: ["-createdAt", "id"],
+ * });
+ * ```
+ */
+export interface PaginationOptions {
+  /**
+   * Whether pages are selected with `offset` or with `after` / `before` cursors.
+   * @defaultValue "offset"
+   */
+  pagination: PaginationMode;
+
+  /**
+   * Page size used when the input has no `limit`.
+   * @defaultValue 20
+   */
+  defaultLimit: number;
+
+  /**
+   * Maximum page size.
+   * @defaultValue 100
+   */
+  maxLimit: number;
+
+  /**
+   * Sort order used when the input has no `orderBy`, in any input format of the
+   * order-by schema. Validated when the schema is built.
+   */
+  defaultOrderBy?: string | string[] | Record<string, string>;
+
+  /**
+   * Messages overriding the default English validation messages, by error code.
+   *
+   * @remarks
+   * Uses the find options codes of the message catalog, and the sort order codes for the
+   * order-by builder created from the filter builder. A function receives the request
+   * context passed to `build()`. The filter is validated with the messages of the filter
+   * builder.
+   */
+  messages?:
+    | Partial<FilterMessageCatalog>
+    | ((context: unknown) => Partial<FilterMessageCatalog> | undefined);
+}
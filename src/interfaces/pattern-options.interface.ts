@@ -0,0 +1,44 @@
+/**
+ * Options for the pattern matching operators of a string field.
+ *
+ * @remarks
+ * With pattern options set, a field accepts `$startsWith`. These input-only operators
+ * are compiled into `$like` (or `$ilike`) with `%`, `_` and `\` in the user input
+ * escaped, so the input cannot add wildcards of its own. Patterns are escaped with
+ * a backslash, the default escape character of PostgreSQL and MySQL.
+ *
+ * @example
+ * ```typescript
+ * builder.addField({
+ *   field: "title",
+ *   type: "string",
+ *   patterns: { leadingWildcard: true },
+ * });
+ *
+ * // Input: { title: { $includes: "50%" } }
+ * // Output: { title: { $ilike: "%50\\%%" } }
+ * ```
+ */
+export interface PatternOptions {
+  /**
+   * Whether the raw `$like` and `$ilike` operators are accepted, with wildcards
+   * written by the client. Leading wildcards are still subject to `leadingWildcard`.
+   * @defaultValue false
+   */
+  like?: boolean;
+
+  /**
+   * Whether patterns may start with a wildcard, which prevents the use of indexes.
+   * Enables `$endsWith` and `$includes`, and allows `$like` / `$ilike` values
+   * starting with `%` or `_`.
+   * @defaultValue false
+   */
+  leadingWildcard?: boolean;
+
+  /**
+   * Whether `$startsWith`, `$endsWith` and `$includes` compile to the case-sensitive
+   * `$like` instead of `$ilike`.
+   * @defaultValue false
+   */
+  caseSensitive?: boolean;
+}
@@ -0,0 +1,19 @@
+/**
+ * Options for parsing filter queries from URL query strings.
+ *
+ * @example
+ * ```typescript
+ * const schema = builder.buildQueryStringSchema({ key: "filter" });
+ *
+ * schema.parse("filter[age][$gte]=18&page=2");
+ * // Result: { age: { $gte: 18 } }
+ * ```
+ */
+export interface QueryStringOptions {
+  /**
+   * Name of the root query parameter holding the filter, e.g. `"filter"` for
+   * `filter[age][$gte]=18`. Other parameters are ignored.
+   * When omitted, every parameter of the query string is part of the filter.
+   */
+  key?: string;
+}
@@ -1,9 +1,15 @@
-import { type FieldType, type Operator, type ValueType } from "../types/index.js";
+import {
+  type EnumValues,
+  type FieldType,
+  type Operator,
+  type ValueType,
+} from "../types/index.js";
 
 /**
  * Arguments passed to the replacement callback function.
  *
  * @typeParam Type - The field's data type
+ * @typeParam Values - The allowed values of enum fields
  *
  * @example
  * ```typescript
@@ -15,7 +21,10 @@ import { type FieldType, type Operator, type ValueType } from "../types/index.js
  * }
  * ```
  */
-export interface ReplacementCallbackArgs<Type extends FieldType = never> {
+export interface ReplacementCallbackArgs<
+  Type extends FieldType = never,
+  Values extends EnumValues = EnumValues,
+> {
   /**
    * The original field name from the input query.
    */
@@ -30,5 +39,5 @@ export interface ReplacementCallbackArgs<Type extends FieldType = never> {
    * The value associated with the operator.
    * Can be a single value, an array (for `$in`, `$nin`), or null.
    */
-  value: ValueType<Type> | ValueType<Type>[] | null;
+  value: ValueType<Type, Values> | ValueType<Type, Values>[] | null;
 }
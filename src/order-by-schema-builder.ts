@@ -0,0 +1,279 @@
+import type { QueryOrderMap } from "@mikro-orm/core";
+import { z } from "zod";
+
+import { FilterQuerySchemaBuilder } from "./filter-query-schema-builder.js";
+import { FilterMessageParams } from "./interfaces/filter-message-params.interface.js";
+import { OrderByOptions } from "./interfaces/order-by-options.interface.js";
+import {
+  FilterErrorCode,
+  NullsOrder,
+  SortFieldOptions,
+} from "./types/index.js";
+import { formatFilterMessage, setNestedValue } from "./utils/index.js";
+
+/**
+ * A sort key parsed from the order-by input.
+ * @internal
+ */
+interface SortKey {
+  field: string;
+  direction: string;
+  path: (string | number)[];
+}
+
+/**
+ * Parses a sort key like `-createdAt` or `+name`.
+ * @internal
+ */
+function parseSortKey(key: string, path: (string | number)[]): SortKey {
+  const trimmed = key.trim();
+  if (trimmed.startsWith("-")) {
+    return { field: trimmed.slice(1), direction: "desc", path };
+  }
+  return {
+    field: trimmed.startsWith("+") ? trimmed.slice(1) : trimmed,
+    direction: "asc",
+    path,
+  };
+}
+
+/**
+ * Normalizes the accepted input shapes into a list of sort keys.
+ * @internal
+ */
+function toSortKeys(
+  input: string | string[] | Record<string, string>
+): SortKey[] {
+  if (typeof input === "string") {
+    return input
+      .split(",")
+      .filter((key) => key.trim() !== "")
+      .map((key) => parseSortKey(key, []));
+  }
+  if (Array.isArray(input)) {
+    return input.map((key, index) => parseSortKey(key, [index]));
+  }
+  return Object.entries(input).map(([field, direction]) => ({
+    field,
+    direction: direction.toLowerCase(),
+    path: [field],
+  }));
+}
+
+/**
+ * A builder for creating Zod schemas that validate sorting input and produce
+ * a list of MikroORM `QueryOrderMap` entries.
+ *
+ * @remarks
+ * The schema accepts a list of sort keys (`["-createdAt", "name"]`), the same list as a
+ * comma-separated string (`"-createdAt,name"`, e.g. from a query string), or an object
+ * mapping fields to `"asc"` or `"desc"` (`{ createdAt: "desc" }`). A `-` prefix sorts
+ * descending, no prefix or `+` ascending. Only registered fields are accepted, each field
+ * at most once. The output has one entry per sort key in input order, so that the sort
+ * priority is kept for fields with replacement paths sharing a prefix.
+ *
+ * @example
+ * ```typescript
+ * const schema = new OrderBySchemaBuilder<Post>({ maxSortKeys: 2 })
+ *   .addField({ field: "createdAt", nulls: "last" })
+ *   .addField({ field: "authorName", replacement: "author.name" })
+ *   .build();
+ *
+ * schema.parse(["-createdAt", "authorName"]);
+ * // Result: [{ createdAt: "desc nulls last" }, { author: { name: "asc" } }]
+ * ```
+ *
+ * @typeParam Entity - The entity type being sorted
+ */
+export class OrderBySchemaBuilder<Entity extends object> {
+  private readonly options: OrderByOptions;
+
+  private readonly fieldOptionsMap = new Map<
+    string,
+    { path: string; nulls?: NullsOrder }
+  >();
+
+  /**
+   * Creates a new OrderBySchemaBuilder instance.
+   *
+   * @param options - Optional configuration for the sort key limit and `null` placement
+   */
+  constructor(options?: Partial<OrderByOptions>) {
+    this.options = {
+      maxSortKeys: 3,
+      ...(options ?? {}),
+    };
+  }
+
+  /**
+   * Creates a builder sharing the field definitions of a filter query schema builder.
+   *
+   * @typeParam Entity - The entity type being sorted
+   * @typeParam Context - The request context of the filter builder
+   * @param builder - The filter builder whose fields become sortable
+   * @param options - Optional configuration for the sort key limit and `null` placement
+   * @returns A builder with one sortable field per sortable filter field
+   *
+   * @remarks
+   * Fields keep their name and string replacement path. Fields with `sortable: false` and
+   * fields with a callback replacement are skipped, `sortable: { nulls }` sets the
+   * placement of `null` values. Fields added to the filter builder later are not included.
+   *
+   * @example
+   * ```typescript
+   * const filterBuilder = new FilterQuerySchemaBuilder<Post>()
+   *   .addField({ field: "title", type: "string" })
+   *   .addField({ field: "content", type: "string", sortable: false });
+   *
+   * const schema = OrderBySchemaBuilder.fromFilterBuilder(filterBuilder).build();
+   *
+   * schema.parse("-title");
+   * // Result: [{ title: "desc" }]
+   * ```
+   */
+  static fromFilterBuilder<Entity extends object, Context>(
+    builder: FilterQuerySchemaBuilder<Entity, Context>,
+    options?: Partial<OrderByOptions>
+  ): OrderBySchemaBuilder<Entity> {
+    const orderByBuilder = new OrderBySchemaBuilder<Entity>(options);
+
+    for (const field of builder.getFields()) {
+      const replacement =
+        "replacement" in field ? field.replacement : undefined;
+      if (field.sortable === false || typeof replacement === "function") {
+        continue;
+      }
+      orderByBuilder.fieldOptionsMap.set(field.field, {
+        path: replacement ?? field.field,
+        nulls:
+          typeof field.sortable === "object" ? field.sortable.nulls : undefined,
+      });
+    }
+
+    return orderByBuilder;
+  }
+
+  /**
+   * Adds a sortable field to the schema builder.
+   *
+   * @typeParam Field - The dot-notation path for replacement fields
+   * @param options - The field configuration options
+   * @returns The builder instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * builder
+   *   .addField({ field: "name" })
+   *   .addField({ field: "createdAt", nulls: "last" })
+   *   .addField({ field: "authorName", replacement: "author.name" });
+   * ```
+   */
+  addField<Field extends string = never>(
+    options: SortFieldOptions<Entity, Field>
+  ): this {
+    this.fieldOptionsMap.set(options.field, {
+      path: "replacement" in options ? options.replacement : options.field,
+      nulls: options.nulls,
+    });
+    return this;
+  }
+
+  /**
+   * Builds and returns the Zod schema for validating sorting input.
+   *
+   * @param context - The request context a `messages` function is called with
+   * @returns A Zod schema that validates sort keys and transforms them into `QueryOrderMap` entries
+   *
+   * @remarks
+   * Each sort key is output as its own entry, e.g. `["authorName", "-createdAt", "authorAge"]`
+   * becomes `[{ author: { name: "asc" } }, { createdAt: "desc" }, { author: { age: "asc" } }]`.
+   * Directions are output in lower case, with ` nulls first` or ` nulls last` appended
+   * when a `nulls` option applies, e.g. `"desc nulls last"`. Fields with a replacement
+   * path are output as nested objects. Issues take their message from the `messages`
+   * option and carry their error code in `params.code`.
+   *
+   * @example
+   * ```typescript
+   * const schema = builder.build();
+   *
+   * const orderBy = schema.parse(req.query.sort);
+   * await em.find(Post, filter, { orderBy });
+   * ```
+   */
+  build(context?: unknown): z.ZodType<QueryOrderMap<Entity>[]> {
+    const { maxSortKeys, messages } = this.options;
+    const catalog =
+      typeof messages === "function" ? messages(context) : messages;
+    const message = (code: FilterErrorCode, params: FilterMessageParams = {}) =>
+      formatFilterMessage(code, params, catalog);
+    const invalidSort = { error: message("invalid_sort") };
+
+    return z
+      .union(
+        [
+          z.string(invalidSort),
+          z.array(z.string(invalidSort), invalidSort),
+          z.record(z.string(), z.string(invalidSort), invalidSort),
+        ],
+        invalidSort
+      )
+      .transform(toSortKeys)
+      .superRefine((keys, ctx) => {
+        if (keys.length > maxSortKeys) {
+          ctx.addIssue({
+            code: "custom",
+            message: message("too_many_sort_keys", {
+              limit: maxSortKeys,
+              count: keys.length,
+            }),
+            params: {
+              code: "too_many_sort_keys",
+              limit: maxSortKeys,
+              count: keys.length,
+            },
+          });
+        }
+
+        const seen = new Set<string>();
+        for (const { field, direction, path } of keys) {
+          if (!this.fieldOptionsMap.has(field)) {
+            ctx.addIssue({
+              code: "custom",
+              message: message("field_not_sortable", { field }),
+              path,
+              params: { code: "field_not_sortable", field },
+            });
+          } else if (seen.has(field)) {
+            ctx.addIssue({
+              code: "custom",
+              message: message("duplicate_sort_field", { field }),
+              path,
+              params: { code: "duplicate_sort_field", field },
+            });
+          }
+          if (direction !== "asc" && direction !== "desc") {
+            ctx.addIssue({
+              code: "custom",
+              message: message("invalid_sort_direction", { direction }),
+              path,
+              params: { code: "invalid_sort_direction", direction },
+            });
+          }
+          seen.add(field);
+        }
+      })
+      .transform((keys) =>
+        keys.map(({ field, direction }) => {
+          const { path, nulls = this.options.nulls } =
+            this.fieldOptionsMap.get(field)!;
+          const orderBy: Record<string, unknown> = {};
+          setNestedValue(
+            orderBy,
+            path,
+            nulls ? `${direction} nulls ${nulls}` : direction
+          );
+          return orderBy;
+        })
+      ) as unknown as z.ZodType<QueryOrderMap<Entity>[]>;
+  }
+}
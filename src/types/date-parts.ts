@@ -0,0 +1,15 @@
+/**
+ * The calendar date and wall-clock time of an instant in a time zone.
+ *
+ * @remarks
+ * Months are 1-based, unlike the months of `Date`.
+ */
+export interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  milliseconds: number;
+}
@@ -0,0 +1,34 @@
+/**
+ * A single allowed value of an enum field.
+ */
+export type EnumValue = string | number;
+
+/**
+ * The allowed values of an enum field, either as a list or as a TypeScript enum object.
+ *
+ * @typeParam Value - The allowed value type
+ *
+ * @example
+ * ```typescript
+ * enum Status { Active = "active", Inactive = "inactive" }
+ *
+ * const fromList: EnumValues = ["active", "inactive"];
+ * const fromEnum: EnumValues = Status;
+ * ```
+ */
+export type EnumValues<Value extends EnumValue = EnumValue> =
+  | readonly Value[]
+  | { readonly [key: string]: Value };
+
+/**
+ * Extracts the literal value union from enum values.
+ *
+ * @typeParam Values - The enum values, a list or a TypeScript enum object
+ *
+ * @remarks
+ * Reverse mappings of numeric TypeScript enums (`Status[0] === "Active"`) are excluded.
+ */
+export type EnumValueOf<Values extends EnumValues> =
+  Values extends readonly (infer Value)[]
+    ? Value
+    : Values[Exclude<keyof Values, number>];
@@ -1,14 +1,25 @@
 import type { AutoPath, FilterQuery } from "@mikro-orm/core";
 
+import { type PatternOptions } from "../interfaces/pattern-options.interface.js";
 import { type ReplacementCallbackArgs } from "../interfaces/replacement-callback-args.interface.js";
+import { type EnumValues } from "./enum-values.js";
 import { type FieldType } from "./field-type.js";
+import { type Operator } from "./operator.js";
+import { type NullsOrder } from "./sort-field-options.js";
+import { type ValueType } from "./value-type.js";
 
 /**
  * Base configuration options shared by all field types.
  *
  * @typeParam Type - The field's data type
+ * @typeParam Values - The allowed values of enum fields
+ * @typeParam Context - The request context passed to `build()`
  */
-export type BaseFieldOptions<Type extends FieldType = never> = {
+export type BaseFieldOptions<
+  Type extends FieldType = never,
+  Values extends EnumValues = EnumValues,
+  Context = unknown,
+> = {
   /**
    * The data type of the field, determines which operators are available.
    */
@@ -24,6 +35,90 @@ export type BaseFieldOptions<Type extends FieldType = never> = {
    * When true, enables `$contains` and `$overlap` operators.
    */
   array?: boolean;
+
+  /**
+   * Whether this field accepts `null` values.
+   * When false, `null` is rejected for direct assignment and all operators.
+   * @defaultValue true
+   */
+  nullable?: boolean;
+
+  /**
+   * Restricts the operators accepted for this field.
+   * `include` allows only the listed operators, `exclude` forbids the listed ones.
+   * Direct assignment (e.g. `{ email: "a@b.c" }`) counts as `$eq`.
+   * Operators that do not apply to the field type stay unavailable.
+   *
+   * @example
+   * ```typescript
+   * builder.addField({ field: "email", type: "string", operators: { include: ["$eq"] } });
+   * builder.addField({ field: "status", type: "string", operators: { exclude: ["$nin"] } });
+   * ```
+   */
+  operators?: {
+    /**
+     * Operators to allow, all other operators are rejected.
+     */
+    include?: Operator[];
+
+    /**
+     * Operators to reject.
+     */
+    exclude?: Operator[];
+  };
+
+  /**
+   * Restricts who may filter by this field.
+   * Either the roles allowed to use the field, matched against the `roles` array of the
+   * context passed to `build()`, or a predicate receiving that context.
+   * Fields without `access` are available to every caller.
+   *
+   * @example
+   * ```typescript
+   * builder.addField({ field: "email", type: "string", access: ["admin"] });
+   * builder.addField({ field: "balance", type: "number", access: (ctx) => ctx.isOwner });
+   * ```
+   */
+  access?: string[] | ((context: Context) => boolean);
+
+  /**
+   * Multiplies the cost of the conditions on this field, see `FilterOptions.maxCost`.
+   * @defaultValue 1
+   */
+  cost?: number;
+
+  /**
+   * Whether this field is sortable with an order-by builder created by
+   * `OrderBySchemaBuilder.fromFilterBuilder()`, optionally with the placement of `null` values.
+   * Fields with a callback replacement are never sortable.
+   * @defaultValue true
+   */
+  sortable?: boolean | { nulls?: NullsOrder };
+
+  /**
+   * Resolves the values of the conditions on this field before replacements, e.g. slugs into IDs.
+   * Called once per parse with the distinct values of all conditions on the field, including the
+   * items of array values, and returns the resolved values in the same order.
+   * `null` and the values of `$like`, `$ilike` and `$fulltext` are not resolved.
+   * Resolvers returning a Promise require `buildAsync()`.
+   *
+   * @example
+   * ```typescript
+   * builder.addField({
+   *   field: "authorSlug",
+   *   type: "string",
+   *   replacement: "author.id",
+   *   resolve: async (slugs) => {
+   *     const users = await userRepository.find({ slug: { $in: slugs } });
+   *     return slugs.map((slug) => users.find((user) => user.slug === slug)?.id ?? 0);
+   *   },
+   * });
+   * ```
+   */
+  resolve?: (
+    values: ValueType<Type, Values>[],
+    context: Context
+  ) => unknown[] | Promise<unknown[]>;
 } & (Type extends "string"
   ? {
       /**
@@ -32,14 +127,41 @@ export type BaseFieldOptions<Type extends FieldType = never> = {
        * Only available for string fields.
        */
       fulltext?: boolean;
+
+      /**
+       * Enables pattern matching operators for this field.
+       * `true` allows `$startsWith`, see {@link PatternOptions} for the other operators.
+       * Only available for string fields.
+       */
+      patterns?: boolean | PatternOptions;
     }
-  : object);
+  : Type extends "date"
+    ? {
+        /**
+         * Whether this field accepts relative date expressions like `now-7d`, `now/d`
+         * or `startOf:month`, resolved against the `now` clock of the builder.
+         * Only available for date fields.
+         * @defaultValue false
+         */
+        relative?: boolean;
+      }
+    : Type extends "enum"
+      ? {
+          /**
+           * The allowed values, as a list or a TypeScript enum object.
+           * Only available for enum fields.
+           */
+          values: Values;
+        }
+      : object);
 
 /**
  * Field options for simple fields that map directly to entity properties.
  *
  * @typeParam Entity - The entity type
  * @typeParam Type - The field's data type
+ * @typeParam Values - The allowed values of enum fields
+ * @typeParam Context - The request context passed to `build()`
  *
  * @example
  * ```typescript
@@ -49,7 +171,9 @@ export type BaseFieldOptions<Type extends FieldType = never> = {
 export type SimpleFieldOptions<
   Entity extends object,
   Type extends FieldType = never,
-> = BaseFieldOptions<Type> & {
+  Values extends EnumValues = EnumValues,
+  Context = unknown,
+> = BaseFieldOptions<Type, Values, Context> & {
   /**
    * The field name, must be a key of the entity.
    */
@@ -62,6 +186,8 @@ export type SimpleFieldOptions<
  * @typeParam Entity - The entity type
  * @typeParam Type - The field's data type
  * @typeParam Field - The dot-notation path to the nested property
+ * @typeParam Values - The allowed values of enum fields
+ * @typeParam Context - The request context passed to `build()`
  *
  * @example
  * ```typescript
@@ -76,7 +202,9 @@ export type ReplacementFieldOptions<
   Entity extends object,
   Type extends FieldType = never,
   Field extends string = never,
-> = BaseFieldOptions<Type> & {
+  Values extends EnumValues = EnumValues,
+  Context = unknown,
+> = BaseFieldOptions<Type, Values, Context> & {
   /**
    * The dot-notation path to replace the field with in the output.
    */
@@ -88,6 +216,8 @@ export type ReplacementFieldOptions<
  *
  * @typeParam Entity - The entity type
  * @typeParam Type - The field's data type
+ * @typeParam Values - The allowed values of enum fields
+ * @typeParam Context - The request context passed to `build()`
  *
  * @example
  * ```typescript
@@ -106,13 +236,18 @@ export type ReplacementFieldOptions<
 export type ReplacementCallbackFieldOptions<
   Entity extends object,
   Type extends FieldType = never,
-> = BaseFieldOptions<Type> & {
+  Values extends EnumValues = EnumValues,
+  Context = unknown,
+> = BaseFieldOptions<Type, Values, Context> & {
   /**
    * A callback function that transforms the field value into a FilterQuery.
+   * Callbacks returning a Promise require `buildAsync()`.
    * @param args - The replacement callback arguments containing field, operator, and value
-   * @returns A FilterQuery object to be merged into the result
+   * @returns A FilterQuery object, or a Promise of one, to be merged into the result
    */
-  replacement?: (args: ReplacementCallbackArgs<Type>) => FilterQuery<Entity>;
+  replacement?: (
+    args: ReplacementCallbackArgs<Type, Values>
+  ) => FilterQuery<Entity> | Promise<FilterQuery<Entity>>;
 };
 
 /**
@@ -121,12 +256,16 @@ export type ReplacementCallbackFieldOptions<
  * @typeParam Entity - The entity type
  * @typeParam Type - The field's data type
  * @typeParam Field - The dot-notation path for replacement fields
+ * @typeParam Values - The allowed values of enum fields
+ * @typeParam Context - The request context passed to `build()`
  */
 export type FieldOptions<
   Entity extends object,
   Type extends FieldType = never,
   Field extends string = never,
+  Values extends EnumValues = EnumValues,
+  Context = unknown,
 > =
-  | SimpleFieldOptions<Entity, Type>
-  | ReplacementFieldOptions<Entity, Type, Field>
-  | ReplacementCallbackFieldOptions<Entity, Type>;
+  | SimpleFieldOptions<Entity, Type, Values, Context>
+  | ReplacementFieldOptions<Entity, Type, Field, Values, Context>
+  | ReplacementCallbackFieldOptions<Entity, Type, Values, Context>;
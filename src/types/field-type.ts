@@ -8,5 +8,6 @@
  * - `"number"` - Validates numeric values, supports comparison operators (`$gt`, `$gte`, `$lt`, `$lte`)
  * - `"boolean"` - Validates boolean values, only supports `$eq`, `$ne`, `$in`, `$nin`
  * - `"date"` - Validates Date objects and ISO date strings, supports comparison operators
+ * - `"enum"` - Validates values against the field's allowed `values`, only supports `$eq`, `$ne`, `$in`, `$nin`
  */
-export type FieldType = "string" | "number" | "boolean" | "date";
+export type FieldType = "string" | "number" | "boolean" | "date" | "enum";
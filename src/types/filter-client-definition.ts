@@ -0,0 +1,59 @@
+import { type EnumValue } from "./enum-values.js";
+import { type FieldType } from "./field-type.js";
+import { type Operator } from "./operator.js";
+
+/**
+ * A field of a {@link FilterClientDefinition}.
+ */
+export interface FilterClientField {
+  type: FieldType;
+  /** The accepted operators, `$eq` also allows direct values. */
+  operators: Operator[];
+  nullable: boolean;
+  /** The allowed values of enum fields. */
+  values?: EnumValue[];
+  cost?: number;
+  /** Whether `$like` and `$ilike` values may start with a wildcard. */
+  leadingWildcard?: boolean;
+  /** Whether `$startsWith`, `$endsWith` and `$includes` compile to `$like` instead of `$ilike`. */
+  caseSensitive?: boolean;
+  /** Whether relative date expressions are accepted. */
+  relative?: boolean;
+}
+
+/**
+ * A relation of a {@link FilterClientDefinition}, with the fields and relations of the mounted builder.
+ */
+export interface FilterClientRelation {
+  collection: boolean;
+  fields: Record<string, FilterClientField>;
+  relations: Record<string, FilterClientRelation>;
+}
+
+/**
+ * The limits of a {@link FilterClientDefinition}, see `FilterOptions`.
+ */
+export interface FilterClientLimits {
+  maxDepth: number;
+  maxConditions: number;
+  maxOrBranches: number;
+  maxAndBranches?: number;
+  maxTotalConditions?: number;
+  maxArrayLength: number;
+  maxCost?: number;
+  operatorCosts: Partial<Record<Operator, number>>;
+}
+
+/**
+ * The fields, relations and limits of a filter builder, for a `FilterClient`.
+ *
+ * @remarks
+ * Created by `FilterQuerySchemaBuilder.toClientDefinition()`. The definition only
+ * contains JSON values, so it can be generated at build time or served by an endpoint.
+ */
+export type FilterClientDefinition = Omit<
+  FilterClientRelation,
+  "collection"
+> & {
+  limits: FilterClientLimits;
+};
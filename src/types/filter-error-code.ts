@@ -0,0 +1,68 @@
+/**
+ * Stable codes of the validation issues returned by `formatError()`, and keys of the
+ * message catalog.
+ *
+ * @remarks
+ * Filter issues:
+ * - `unknown_field` - The field is not registered, a close field name is suggested
+ * - `unknown_operator` - The key is not an operator, a close operator is suggested
+ * - `operator_not_allowed` - The operator is not allowed for the field
+ * - `field_not_accessible` - The caller may not filter by the field
+ * - `inaccessible_conditions` - Stripping inaccessible fields would widen the filter
+ * - `invalid_value` - The value does not match the field type or enum values
+ * - `leading_wildcard` - A `LIKE` pattern starts with a wildcard
+ * - `multiple_patterns` - More than one pattern operator is used in a condition
+ * - `collection_operator_required` - A collection condition has no `$some`, `$every` or `$none`
+ * - `max_depth_exceeded` - Logical operators or relations are nested deeper than `maxDepth`
+ * - `too_many_conditions` - A filter object has more than `maxConditions` field conditions
+ * - `too_many_total_conditions` - The filter has more than `maxTotalConditions` conditions
+ * - `too_many_branches` - `$and` or `$or` has more than `maxAndBranches` or `maxOrBranches` branches
+ * - `too_many_values` - An array operator has more than `maxArrayLength` values
+ * - `cost_exceeded` - The filter cost exceeds `maxCost`
+ * - `invalid_filter` - The filter or a logical operator has the wrong shape
+ *
+ * Sort order issues, reported by `OrderBySchemaBuilder` schemas in `params.code`:
+ * - `invalid_sort` - The sort order is not a list of sort keys or an object of directions
+ * - `field_not_sortable` - The field is not registered as sortable
+ * - `duplicate_sort_field` - The field is sorted more than once
+ * - `invalid_sort_direction` - The direction is not `"asc"` or `"desc"`
+ * - `too_many_sort_keys` - The sort order has more than `maxSortKeys` keys
+ *
+ * Find options issues, reported by `FindOptionsSchemaBuilder` schemas in `params.code`:
+ * - `unknown_option` - The key is not a find option
+ * - `invalid_limit` - `limit` is not an integer between 1 and `maxLimit`
+ * - `invalid_offset` - `offset` is not a non-negative integer
+ * - `invalid_cursor` - A cursor was not created by MikroORM
+ * - `cursor_mismatch` - A cursor was created for a different sort order
+ * - `cursors_combined` - `after` and `before` are both set
+ * - `order_by_required` - Cursor pagination has no sort order
+ */
+export type FilterErrorCode =
+  | "unknown_field"
+  | "unknown_operator"
+  | "operator_not_allowed"
+  | "field_not_accessible"
+  | "inaccessible_conditions"
+  | "invalid_value"
+  | "leading_wildcard"
+  | "multiple_patterns"
+  | "collection_operator_required"
+  | "max_depth_exceeded"
+  | "too_many_conditions"
+  | "too_many_total_conditions"
+  | "too_many_branches"
+  | "too_many_values"
+  | "cost_exceeded"
+  | "invalid_filter"
+  | "invalid_sort"
+  | "field_not_sortable"
+  | "duplicate_sort_field"
+  | "invalid_sort_direction"
+  | "too_many_sort_keys"
+  | "unknown_option"
+  | "invalid_limit"
+  | "invalid_offset"
+  | "invalid_cursor"
+  | "cursor_mismatch"
+  | "cursors_combined"
+  | "order_by_required";
@@ -0,0 +1,188 @@
+import { type PatternOptions } from "../interfaces/pattern-options.interface.js";
+import { type EnumValues } from "./enum-values.js";
+import { type FieldType } from "./field-type.js";
+import { type Operator } from "./operator.js";
+import { type ValueType } from "./value-type.js";
+
+/**
+ * The field options that determine the input type of a field.
+ *
+ * @remarks
+ * Captured from the options passed to `addField()`, with literal types for the
+ * field name, the flags and the operator restrictions.
+ */
+export type FieldInputOptions = {
+  field: string;
+  nullable?: boolean;
+  array?: boolean;
+  fulltext?: boolean;
+  patterns?: boolean | PatternOptions;
+  operators?: {
+    include?: readonly Operator[];
+    exclude?: readonly Operator[];
+  };
+};
+
+/**
+ * Whether an option may be enabled, `boolean` counts as enabled.
+ * @internal
+ */
+type IsEnabled<Value> = [Value] extends [false | null | undefined]
+  ? false
+  : true;
+
+/**
+ * The pattern operators enabled by the `patterns` option.
+ * @internal
+ */
+type PatternOperator<Patterns> =
+  IsEnabled<Patterns> extends false
+    ? never
+    :
+        | "$startsWith"
+        | (Patterns extends { like: true } ? "$like" | "$ilike" : never)
+        | (Patterns extends { leadingWildcard: true }
+            ? "$endsWith" | "$includes"
+            : never);
+
+/**
+ * The operators of a field before the `operators` restrictions.
+ * @internal
+ */
+type AvailableOperator<
+  Type extends FieldType,
+  Options extends FieldInputOptions,
+> =
+  | "$eq"
+  | "$ne"
+  | "$in"
+  | "$nin"
+  | (Type extends "number" | "date" ? "$gt" | "$gte" | "$lt" | "$lte" : never)
+  | (IsEnabled<Options["array"]> extends true
+      ? "$contains" | "$overlap"
+      : never)
+  | (Type extends "string"
+      ?
+          | (IsEnabled<Options["fulltext"]> extends true ? "$fulltext" : never)
+          | PatternOperator<Options["patterns"]>
+      : never);
+
+/**
+ * The operators of a field after the `operators.include` restriction.
+ * @internal
+ */
+type IncludedOperator<
+  Type extends FieldType,
+  Options extends FieldInputOptions,
+> = Options extends { operators: { include: readonly (infer Included)[] } }
+  ? Extract<AvailableOperator<Type, Options>, Included>
+  : AvailableOperator<Type, Options>;
+
+/**
+ * The operators accepted by a field, mirroring `getFieldOperators()`.
+ *
+ * @typeParam Type - The field's data type
+ * @typeParam Options - The field options passed to `addField()`
+ *
+ * @example
+ * ```typescript
+ * type Operators = FieldOperator<"number", { field: "age"; operators: { exclude: ["$in", "$nin"] } }>;
+ * // Result: "$eq" | "$ne" | "$gt" | "$gte" | "$lt" | "$lte"
+ * ```
+ */
+export type FieldOperator<
+  Type extends FieldType,
+  Options extends FieldInputOptions,
+> = Options extends { operators: { exclude: readonly (infer Excluded)[] } }
+  ? Exclude<IncludedOperator<Type, Options>, Excluded>
+  : IncludedOperator<Type, Options>;
+
+/**
+ * The input type of a field value, dates are also accepted as strings.
+ * @internal
+ */
+type FieldValueInput<
+  Type extends FieldType,
+  Values extends EnumValues,
+> = Type extends "date" ? Date | string : ValueType<Type, Values>;
+
+/**
+ * The input type of an operator value.
+ * @internal
+ */
+type OperatorInput<Op extends Operator, Value, Null> = Op extends "$eq" | "$ne"
+  ? Value | Null
+  : Op extends "$in" | "$nin"
+    ? (Value | Null)[]
+    : Op extends "$contains" | "$overlap"
+      ? Value[]
+      : Op extends "$gt" | "$gte" | "$lt" | "$lte"
+        ? Value
+        : string;
+
+/**
+ * The input type accepted for a field: a direct value, `null`, or an object of operators.
+ *
+ * @typeParam Type - The field's data type
+ * @typeParam Values - The allowed values of enum fields
+ * @typeParam Options - The field options passed to `addField()`
+ *
+ * @remarks
+ * Direct values and `null` are only accepted when `$eq` is, `null` only for nullable fields.
+ * Date values are typed as `Date | string`, as ISO strings and relative dates are accepted.
+ *
+ * @example
+ * ```typescript
+ * type AgeInput = FieldInput<"number", never, { field: "age"; nullable: false }>;
+ * // Result: number | { $eq?: number; $ne?: number; $gt?: number; ...; $in?: number[]; $nin?: number[] }
+ * ```
+ */
+export type FieldInput<
+  Type extends FieldType,
+  Values extends EnumValues,
+  Options extends FieldInputOptions,
+> =
+  | ("$eq" extends FieldOperator<Type, Options>
+      ?
+          | FieldValueInput<Type, Values>
+          | (Options["nullable"] extends false ? never : null)
+      : never)
+  | {
+      [Op in FieldOperator<Type, Options>]?: OperatorInput<
+        Op,
+        FieldValueInput<Type, Values>,
+        Options["nullable"] extends false ? never : null
+      >;
+    };
+
+/**
+ * The input type accepted by a filter schema, with the fields added to its builder
+ * and the logical operators.
+ *
+ * @typeParam Fields - The input types of the fields, keyed by field name
+ *
+ * @example
+ * ```typescript
+ * const schema = new FilterQuerySchemaBuilder<User>()
+ *   .addField({ field: "name", type: "string" })
+ *   .build();
+ *
+ * const filter: z.input<typeof schema> = { $or: [{ name: "John" }, { name: { $in: ["Jane"] } }] };
+ * ```
+ */
+export type FilterInput<Fields extends object> = Fields & {
+  $and?: FilterInput<Fields>[];
+  $or?: FilterInput<Fields>[];
+  $not?: FilterInput<Fields>;
+};
+
+/**
+ * The input type accepted for a collection added with `addCollection()`.
+ *
+ * @typeParam Fields - The input types of the fields of the collection items
+ */
+export type CollectionInput<Fields extends object> = {
+  $some?: FilterInput<Fields>;
+  $every?: FilterInput<Fields>;
+  $none?: FilterInput<Fields>;
+};
@@ -0,0 +1,21 @@
+import { type FilterMessageParams } from "../interfaces/filter-message-params.interface.js";
+import { type FilterErrorCode } from "./filter-error-code.js";
+
+/**
+ * A validation message, either a template with `{param}` placeholders or a
+ * function of the parameters.
+ *
+ * @example
+ * ```typescript
+ * const template: FilterMessage = '字段 "{field}" 不支持运算符 "{operator}"';
+ *
+ * const fn: FilterMessage = ({ field, suggestion }) =>
+ *   suggestion ? `未知字段 "${field}"，您是否想输入 "${suggestion}"？` : `未知字段 "${field}"`;
+ * ```
+ */
+export type FilterMessage = string | ((params: FilterMessageParams) => string);
+
+/**
+ * The validation messages of each error code.
+ */
+export type FilterMessageCatalog = Record<FilterErrorCode, FilterMessage>;
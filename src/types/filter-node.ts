@@ -0,0 +1,72 @@
+import { type Operator } from "./operator.js";
+
+/**
+ * Operators of to-many relation conditions.
+ */
+export type CollectionOperator = "$some" | "$every" | "$none";
+
+/**
+ * A node of the filter tree, see {@link parseFilterNode}.
+ *
+ * @remarks
+ * Field names are dot-separated entity property paths, e.g. `author.name`,
+ * after replacements were applied.
+ */
+export type FilterNode =
+  | AndNode
+  | OrNode
+  | NotNode
+  | ComparisonNode
+  | CollectionNode;
+
+/**
+ * Matches when all conditions match, an empty list matches everything.
+ */
+export interface AndNode {
+  type: "and";
+  conditions: FilterNode[];
+}
+
+/**
+ * Matches when any condition matches.
+ */
+export interface OrNode {
+  type: "or";
+  conditions: FilterNode[];
+}
+
+/**
+ * Matches when the condition does not match.
+ */
+export interface NotNode {
+  type: "not";
+  condition: FilterNode;
+}
+
+/**
+ * Compares the value of a field with an operator, a direct value is an `$eq` comparison.
+ */
+export interface ComparisonNode {
+  type: "comparison";
+  field: string;
+  operator: Operator;
+  value: unknown;
+}
+
+/**
+ * Matches the items of a to-many relation, the field names of the condition are
+ * relative to the collection items.
+ */
+export interface CollectionNode {
+  type: "collection";
+  field: string;
+  operator: CollectionOperator;
+  condition: FilterNode;
+}
+
+/**
+ * Compiles a filter tree into another representation.
+ *
+ * @typeParam Output - The compiled representation
+ */
+export type FilterCompiler<Output> = (node: FilterNode) => Output;
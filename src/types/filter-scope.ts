@@ -0,0 +1,15 @@
+import type { FilterQuery } from "@mikro-orm/core";
+
+/**
+ * A server-side filter combined with every parsed filter query.
+ *
+ * @typeParam Entity - The entity type being filtered
+ * @typeParam Context - The request context passed to `build()`
+ *
+ * @remarks
+ * Either a fixed filter, or a callback resolving the filter from the request context
+ * on every parse.
+ */
+export type FilterScope<Entity extends object, Context = unknown> =
+  | FilterQuery<Entity>
+  | ((context: Context) => FilterQuery<Entity>);
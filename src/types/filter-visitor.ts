@@ -0,0 +1,54 @@
+import { type FilterVisitorInfo } from "../interfaces/filter-visitor-info.interface.js";
+import { type Operator } from "./operator.js";
+
+/**
+ * A node passed to a {@link FilterVisitor}.
+ *
+ * @remarks
+ * Field conditions are visited once per operator, a direct value is visited as
+ * `$eq`. Logical nodes carry the already visited filter objects of their branches.
+ */
+export type FilterVisitorNode =
+  | ConditionVisitorNode
+  | LogicalVisitorNode
+  | NotVisitorNode;
+
+/**
+ * A single operator condition on a field of the visiting builder.
+ */
+export interface ConditionVisitorNode {
+  type: "condition";
+  field: string;
+  operator: Operator;
+  value: unknown;
+}
+
+/**
+ * An `$and` or `$or` node with the filter objects of its branches.
+ */
+export interface LogicalVisitorNode {
+  type: "and" | "or";
+  conditions: Record<string, unknown>[];
+}
+
+/**
+ * A `$not` node with its negated filter object.
+ */
+export interface NotVisitorNode {
+  type: "not";
+  condition: Record<string, unknown>;
+}
+
+/**
+ * A hook run on every condition and logical node of validated filter queries.
+ *
+ * @typeParam Context - The request context passed to `build()`
+ *
+ * @remarks
+ * Returning nothing keeps the node, returning a node replaces it and returning
+ * `null` drops it.
+ */
+export type FilterVisitor<Context = unknown> = (
+  node: FilterVisitorNode,
+  info: FilterVisitorInfo<Context>
+) => FilterVisitorNode | null | undefined | void;
@@ -0,0 +1,20 @@
+import type { FilterQuery, QueryOrderMap } from "@mikro-orm/core";
+
+/**
+ * The validated output of a find options schema.
+ *
+ * @typeParam Entity - The entity type being queried
+ *
+ * @remarks
+ * Offset pagination outputs `limit` and `offset`, cursor pagination outputs `first` with an
+ * `after` cursor or `last` with a `before` cursor. Apart from `filter`, all properties are
+ * find options, so the rest can be passed to `em.find()` or `em.findByCursor()` as is.
+ */
+export type FindQuery<Entity extends object> = {
+  filter: FilterQuery<Entity>;
+  orderBy?: QueryOrderMap<Entity>[];
+} & (
+  | { limit: number; offset?: number }
+  | { first: number; after?: string }
+  | { last: number; before: string }
+);
@@ -1,4 +1,18 @@
+export * from "./date-parts.js";
+export * from "./enum-values.js";
 export * from "./field-options.js";
 export * from "./field-type.js";
+export * from "./filter-client-definition.js";
+export * from "./filter-error-code.js";
+export * from "./filter-input.js";
+export * from "./filter-message-catalog.js";
+export * from "./filter-node.js";
+export * from "./filter-scope.js";
+export * from "./filter-visitor.js";
+export * from "./find-query.js";
+export * from "./json-schema.js";
+export * from "./merge-strategy.js";
 export * from "./operator.js";
+export * from "./pagination-mode.js";
+export * from "./sort-field-options.js";
 export * from "./value-type.js";
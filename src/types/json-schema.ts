@@ -0,0 +1,68 @@
+/**
+ * A JSON Schema (draft 2020-12) object, as produced by the JSON Schema exporter.
+ *
+ * @remarks
+ * Only the keywords used by the exporter are typed explicitly, any other keyword
+ * can still be read through the index signature.
+ */
+export interface JsonSchema {
+  /**
+   * The JSON Schema dialect of the document.
+   */
+  $schema?: string;
+
+  /**
+   * Reference to another schema, e.g. `#/$defs/Filter`.
+   */
+  $ref?: string;
+
+  /**
+   * Reusable schema definitions referenced by `$ref`.
+   */
+  $defs?: Record<string, JsonSchema>;
+
+  /**
+   * The JSON type(s) accepted by the schema.
+   */
+  type?: string | string[];
+
+  /**
+   * The semantic format of a string value, e.g. `date-time`.
+   */
+  format?: string;
+
+  /**
+   * Human-readable description of the schema.
+   */
+  description?: string;
+
+  /**
+   * Schemas of which at least one must match.
+   */
+  anyOf?: JsonSchema[];
+
+  /**
+   * Schemas of the object's known properties.
+   */
+  properties?: Record<string, JsonSchema>;
+
+  /**
+   * Whether properties other than `properties` are allowed.
+   */
+  additionalProperties?: boolean;
+
+  /**
+   * Schema of the items of an array.
+   */
+  items?: JsonSchema;
+
+  /**
+   * Maximum number of items of an array.
+   */
+  maxItems?: number;
+
+  /**
+   * Any other JSON Schema keyword.
+   */
+  [keyword: string]: unknown;
+}
@@ -0,0 +1,14 @@
+/**
+ * How conditions produced for the same key of a filter object are combined.
+ *
+ * @remarks
+ * - `"deep"` - Nested objects are merged key by key, e.g. `{ author: { name } }` and
+ *   `{ author: { age } }` become `{ author: { name, age } }`. Operator objects like `$not`,
+ *   `$or` or `{ $gte }` and conflicting values are combined with `$and`.
+ * - `"and"` - Every condition on a key that is already set is combined with `$and`, e.g.
+ *   `{ author: { name } }` and `{ author: { age } }` become
+ *   `{ $and: [{ author: { name } }, { author: { age } }] }`.
+ *
+ * In both strategies, `$and` arrays are concatenated.
+ */
+export type MergeStrategy = "deep" | "and";
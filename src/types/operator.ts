@@ -24,6 +24,13 @@
  * **Array field operators (fields with array: true only):**
  * - `$contains` - Array contains all values
  * - `$overlap` - Array has any overlapping values
+ *
+ * **Pattern operators (string fields with patterns option only):**
+ * - `$like` - Case-sensitive `LIKE` pattern (requires `like: true`)
+ * - `$ilike` - Case-insensitive `LIKE` pattern (requires `like: true`)
+ * - `$startsWith` - Starts with the value, compiled to `$like` / `$ilike`
+ * - `$endsWith` - Ends with the value, compiled to `$like` / `$ilike` (requires `leadingWildcard: true`)
+ * - `$includes` - Contains the value, compiled to `$like` / `$ilike` (requires `leadingWildcard: true`)
  */
 export type Operator =
   | "$eq"
@@ -36,4 +43,9 @@ export type Operator =
   | "$nin"
   | "$fulltext"
   | "$contains"
-  | "$overlap";
+  | "$overlap"
+  | "$like"
+  | "$ilike"
+  | "$startsWith"
+  | "$endsWith"
+  | "$includes";
@@ -0,0 +1,9 @@
+/**
+ * How a find options schema paginates results.
+ *
+ * @remarks
+ * - `"offset"` - Pages are selected with `limit` and `offset`, for `em.find()`.
+ * - `"cursor"` - Pages are selected with `limit` and an `after` or `before` cursor,
+ *   for `em.findByCursor()`. Requires a sort order.
+ */
+export type PaginationMode = "offset" | "cursor";
@@ -0,0 +1,46 @@
+import type { AutoPath } from "@mikro-orm/core";
+
+/**
+ * Where `null` values are placed when sorting.
+ */
+export type NullsOrder = "first" | "last";
+
+/**
+ * Options of a sortable field of an order-by schema builder.
+ *
+ * @typeParam Entity - The entity type
+ * @typeParam Field - The dot-notation path for replacement fields
+ *
+ * @example
+ * ```typescript
+ * builder.addField({ field: "createdAt", nulls: "last" });
+ * builder.addField({ field: "authorName", replacement: "author.name" });
+ * ```
+ */
+export type SortFieldOptions<
+  Entity extends object,
+  Field extends string = never,
+> = {
+  /**
+   * Where `null` values are placed, overrides the `nulls` option of the builder.
+   */
+  nulls?: NullsOrder;
+} & (
+  | {
+      /**
+       * The field name, must be a key of the entity.
+       */
+      field: Extract<keyof Entity, string>;
+    }
+  | {
+      /**
+       * The field name used in the order-by input.
+       */
+      field: string;
+
+      /**
+       * The dot-notation path to sort by in the output.
+       */
+      replacement: Extract<AutoPath<Entity, Field>, string>;
+    }
+);
@@ -1,21 +1,29 @@
+import { type EnumValueOf, type EnumValues } from "./enum-values.js";
 import { type FieldType } from "./field-type.js";
 
 /**
  * Maps FieldType to its corresponding JavaScript value type.
  *
  * @typeParam Type - The field type to map
+ * @typeParam Values - The allowed values of enum fields
  *
  * @remarks
  * Type mapping:
  * - `"string"` maps to `string`
  * - `"number"` maps to `number`
  * - `"boolean"` maps to `boolean`
+ * - `"enum"` maps to the union of the allowed values
  * - `"date"` maps to `Date`
  */
-export type ValueType<Type extends FieldType> = Type extends "string"
+export type ValueType<
+  Type extends FieldType,
+  Values extends EnumValues = EnumValues,
+> = Type extends "string"
   ? string
   : Type extends "number"
     ? number
     : Type extends "boolean"
       ? boolean
-      : Date;
+      : Type extends "enum"
+        ? EnumValueOf<Values>
+        : Date;
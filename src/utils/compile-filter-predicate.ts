@@ -0,0 +1,305 @@
+import { type FilterNode } from "../types/index.js";
+import { likePatternToRegExp } from "./like-pattern-to-reg-exp.js";
+import { toLikePattern } from "./to-like-pattern.js";
+
+/**
+ * The result of a condition in SQL three-valued logic, `null` is unknown.
+ * @internal
+ */
+type Truth = boolean | null;
+
+/**
+ * Converts arrays and iterables like MikroORM collections into arrays.
+ * @internal
+ */
+function toArray(value: unknown): unknown[] | undefined {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  return value !== null &&
+    typeof value === "object" &&
+    Symbol.iterator in value &&
+    typeof value[Symbol.iterator] === "function"
+    ? [...(value as Iterable<unknown>)]
+    : undefined;
+}
+
+/**
+ * Unwraps MikroORM references, which expose the entity through `unwrap()`.
+ * @internal
+ */
+function unwrap(value: unknown): unknown {
+  return value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    "unwrap" in value &&
+    typeof value.unwrap === "function"
+    ? (value.unwrap as () => unknown)()
+    : value;
+}
+
+/**
+ * Gets the values at a field path, paths through to-many relations yield the
+ * values of every item.
+ * @internal
+ */
+function getValues(entity: unknown, path: string): unknown[] {
+  const parts = path.split(".");
+  let values: unknown[] = [entity];
+
+  parts.forEach((part, index) => {
+    values = values.map((value) =>
+      value !== null && typeof value === "object"
+        ? unwrap((value as Record<string, unknown>)[part])
+        : undefined
+    );
+    // The leaf array is the value of an array field, not a relation
+    if (index < parts.length - 1) {
+      values = values.flatMap((value) => toArray(value) ?? [value]);
+    }
+  });
+
+  return values;
+}
+
+/**
+ * Converts dates and date strings compared with dates into timestamps.
+ * @internal
+ */
+function normalize(left: unknown, right: unknown): [unknown, unknown] {
+  if (!(left instanceof Date) && !(right instanceof Date)) {
+    return [left, right];
+  }
+  const toTime = (value: unknown) =>
+    value instanceof Date
+      ? value.getTime()
+      : typeof value === "string" || typeof value === "number"
+        ? new Date(value).getTime()
+        : value;
+  return [toTime(left), toTime(right)];
+}
+
+/**
+ * Checks whether two values are equal, arrays are compared item by item.
+ * @internal
+ */
+function isEqual(left: unknown, right: unknown): boolean {
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return (
+      left.length === right.length &&
+      left.every((item, index) => isEqual(item, right[index]))
+    );
+  }
+  const [a, b] = normalize(left, right);
+  return a === b;
+}
+
+/**
+ * Compares two values, dates by their timestamp.
+ * @internal
+ */
+function compare(left: unknown, right: unknown): number {
+  const [a, b] = normalize(left, right) as [number, number];
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Checks whether a value is one of the expected values.
+ * @internal
+ */
+function isIn(actual: unknown, expected: unknown[]): Truth {
+  if (expected.some((value) => isEqual(actual, value))) {
+    return true;
+  }
+  return expected.includes(null) ? null : false;
+}
+
+/**
+ * Negates a condition result, unknown stays unknown.
+ * @internal
+ */
+function not(truth: Truth): Truth {
+  return truth === null ? null : !truth;
+}
+
+/**
+ * Combines condition results with `AND`.
+ * @internal
+ */
+function allOf(truths: Truth[]): Truth {
+  return truths.includes(false) ? false : truths.includes(null) ? null : true;
+}
+
+/**
+ * Combines condition results with `OR`.
+ * @internal
+ */
+function anyOf(truths: Truth[]): Truth {
+  return truths.includes(true) ? true : truths.includes(null) ? null : false;
+}
+
+/**
+ * Evaluates a comparison on a single value like a SQL database would.
+ * @internal
+ */
+function evaluateComparison(
+  actual: unknown,
+  operator: string,
+  expected: unknown
+): Truth {
+  const isNull = actual === null || actual === undefined;
+
+  switch (operator) {
+    case "$eq":
+    case "$ne": {
+      // `null` compiles to `IS NULL` / `IS NOT NULL`
+      if (expected === null) {
+        return operator === "$eq" ? isNull : !isNull;
+      }
+      if (isNull) {
+        return null;
+      }
+      // A list of values for a single value means `$in`
+      const truth =
+        Array.isArray(expected) && !Array.isArray(actual)
+          ? isIn(actual, expected)
+          : isEqual(actual, expected);
+      return operator === "$eq" ? truth : not(truth);
+    }
+    case "$gt":
+    case "$gte":
+    case "$lt":
+    case "$lte": {
+      if (isNull || expected === null || expected === undefined) {
+        return null;
+      }
+      const order = compare(actual, expected);
+      return operator === "$gt"
+        ? order > 0
+        : operator === "$gte"
+          ? order >= 0
+          : operator === "$lt"
+            ? order < 0
+            : order <= 0;
+    }
+    case "$in":
+    case "$nin": {
+      if (isNull) {
+        return null;
+      }
+      const truth = isIn(actual, expected as unknown[]);
+      return operator === "$in" ? truth : not(truth);
+    }
+    case "$contains":
+    case "$overlap": {
+      const items = toArray(actual);
+      if (!items) {
+        return null;
+      }
+      const contains = (value: unknown) =>
+        items.some((item) => isEqual(item, value));
+      return operator === "$contains"
+        ? (expected as unknown[]).every(contains)
+        : (expected as unknown[]).some(contains);
+    }
+    case "$like":
+    case "$ilike":
+    case "$startsWith":
+    case "$endsWith":
+    case "$includes":
+      if (isNull) {
+        return null;
+      }
+      return likePatternToRegExp(
+        toLikePattern(operator, String(expected)),
+        operator !== "$like"
+      ).test(String(actual));
+    case "$fulltext": {
+      if (isNull) {
+        return null;
+      }
+      // Approximated by a case-insensitive match of every term
+      const text = String(actual).toLowerCase();
+      return String(expected)
+        .toLowerCase()
+        .split(/\s+/)
+        .filter(Boolean)
+        .every((term) => text.includes(term));
+    }
+    default:
+      throw new Error(`Operator "${operator}" cannot be evaluated`);
+  }
+}
+
+/**
+ * Evaluates a filter node on an entity.
+ * @internal
+ */
+function evaluate(node: FilterNode, entity: unknown): Truth {
+  switch (node.type) {
+    case "and":
+      return allOf(
+        node.conditions.map((condition) => evaluate(condition, entity))
+      );
+    case "or":
+      return anyOf(
+        node.conditions.map((condition) => evaluate(condition, entity))
+      );
+    case "not":
+      return not(evaluate(node.condition, entity));
+    case "comparison": {
+      // Like a join, paths through to-many relations match when any item matches
+      const values = getValues(entity, node.field);
+      return anyOf(
+        (values.length > 0 ? values : [null]).map((value) =>
+          evaluateComparison(value, node.operator, node.value)
+        )
+      );
+    }
+    case "collection": {
+      const items = getValues(entity, node.field).flatMap(
+        (value) => toArray(value) ?? []
+      );
+      const matches = items.map(
+        (item) => evaluate(node.condition, item) === true
+      );
+      switch (node.operator) {
+        case "$some":
+          return matches.some(Boolean);
+        case "$every":
+          return matches.every(Boolean);
+        case "$none":
+          return !matches.some(Boolean);
+      }
+    }
+  }
+}
+
+/**
+ * Compiles a filter tree into a predicate that checks entities in memory.
+ *
+ * @typeParam Entity - The entity type being filtered
+ * @param node - The root node of the filter tree
+ * @returns A function returning whether an entity matches the filter
+ *
+ * @remarks
+ * Conditions are evaluated like a SQL database would, in three-valued logic:
+ * comparisons with a missing or `null` value are unknown, also for `$ne` and `$nin`,
+ * and an entity only matches when the filter is true. `$eq: null` and `$ne: null`
+ * check for missing values. Dates are compared by their timestamp, also with date
+ * strings. References are unwrapped, and paths through to-many relations match when
+ * any item matches. `$fulltext` is approximated by a case-insensitive match of every
+ * search term.
+ *
+ * @example
+ * ```typescript
+ * const isAdult = compileFilterPredicate<User>(parseFilterNode({ age: { $gte: 18 } }));
+ *
+ * users.filter(isAdult);
+ * ```
+ */
+export function compileFilterPredicate<Entity extends object>(
+  node: FilterNode
+): (entity: Entity) => boolean {
+  return (entity) => evaluate(node, entity) === true;
+}
@@ -0,0 +1,135 @@
+import type { FilterQuery } from "@mikro-orm/core";
+
+import { type FilterNode } from "../types/index.js";
+import { setNestedValue } from "./set-nested-value.js";
+
+/**
+ * Checks whether a value is a filter object that can be merged with another one.
+ * @internal
+ */
+function isMergeable(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+/**
+ * Deeply merges a filter object into another, unless they share a key that cannot be merged.
+ * @internal
+ */
+function mergeFilter(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>
+): boolean {
+  const canMerge = (
+    left: Record<string, unknown>,
+    right: Record<string, unknown>
+  ): boolean =>
+    Object.entries(right).every(
+      ([key, value]) =>
+        !(key in left) ||
+        (!key.startsWith("$") &&
+          isMergeable(left[key]) &&
+          isMergeable(value) &&
+          canMerge(
+            left[key] as Record<string, unknown>,
+            value as Record<string, unknown>
+          ))
+    );
+
+  const merge = (
+    left: Record<string, unknown>,
+    right: Record<string, unknown>
+  ): void => {
+    for (const [key, value] of Object.entries(right)) {
+      if (key in left) {
+        merge(
+          left[key] as Record<string, unknown>,
+          value as Record<string, unknown>
+        );
+      } else if (isMergeable(value)) {
+        // Copied, so that merging further conditions leaves the source untouched
+        left[key] = {};
+        merge(left[key] as Record<string, unknown>, value);
+      } else {
+        left[key] = value;
+      }
+    }
+  };
+
+  if (!canMerge(target, source)) {
+    return false;
+  }
+  merge(target, source);
+  return true;
+}
+
+/**
+ * Compiles a filter node into a plain filter object.
+ * @internal
+ */
+function compileNode(node: FilterNode): Record<string, unknown> {
+  switch (node.type) {
+    case "and": {
+      const compiled = node.conditions.map(compileNode);
+      const merged: Record<string, unknown> = {};
+      // Conditions on distinct fields share one object, otherwise `$and` keeps them apart
+      return compiled.every((condition) => mergeFilter(merged, condition))
+        ? merged
+        : { $and: compiled };
+    }
+    case "or":
+      return { $or: node.conditions.map(compileNode) };
+    case "not":
+      return { $not: compileNode(node.condition) };
+    case "comparison": {
+      const result: Record<string, unknown> = {};
+      setNestedValue(
+        result,
+        node.field,
+        node.operator === "$eq" ? node.value : { [node.operator]: node.value }
+      );
+      return result;
+    }
+    case "collection": {
+      const result: Record<string, unknown> = {};
+      setNestedValue(result, node.field, {
+        [node.operator]: compileNode(node.condition),
+      });
+      return result;
+    }
+  }
+}
+
+/**
+ * Compiles a filter tree into a MikroORM filter query.
+ *
+ * @typeParam Entity - The entity type being filtered
+ * @param node - The root node of the filter tree
+ * @returns The filter query
+ *
+ * @remarks
+ * Field paths become nested objects and `$eq` comparisons direct values. The
+ * conditions of an `and` node are merged into one object when they do not share
+ * an operator or direct value, and kept in an `$and` array otherwise.
+ *
+ * @example
+ * ```typescript
+ * compileMikroOrmFilter({
+ *   type: "and",
+ *   conditions: [
+ *     { type: "comparison", field: "author.name", operator: "$eq", value: "John" },
+ *     { type: "comparison", field: "age", operator: "$gte", value: 18 },
+ *   ],
+ * });
+ * // Result: { author: { name: "John" }, age: { $gte: 18 } }
+ * ```
+ */
+export function compileMikroOrmFilter<Entity extends object>(
+  node: FilterNode
+): FilterQuery<Entity> {
+  return compileNode(node) as FilterQuery<Entity>;
+}
@@ -0,0 +1,86 @@
+import { type FilterNode } from "../types/index.js";
+import { likePatternToRegExp } from "./like-pattern-to-reg-exp.js";
+import { toLikePattern } from "./to-like-pattern.js";
+
+/**
+ * Compiles a comparison into a MongoDB condition on a field.
+ * @internal
+ */
+function compileComparison(
+  field: string,
+  operator: string,
+  value: unknown
+): Record<string, unknown> {
+  switch (operator) {
+    case "$fulltext":
+      // Text search is not bound to a field, the collection needs a text index
+      return { $text: { $search: value } };
+    case "$contains":
+      return { [field]: { $all: value } };
+    case "$overlap":
+      return { [field]: { $in: value } };
+    case "$like":
+    case "$ilike":
+    case "$startsWith":
+    case "$endsWith":
+    case "$includes": {
+      const regExp = likePatternToRegExp(
+        toLikePattern(operator, String(value)),
+        operator !== "$like"
+      );
+      return { [field]: { $regex: regExp.source, $options: regExp.flags } };
+    }
+    default:
+      return { [field]: { [operator]: value } };
+  }
+}
+
+/**
+ * Compiles a filter tree into a MongoDB driver query.
+ *
+ * @param node - The root node of the filter tree
+ * @returns The MongoDB query, e.g. for `collection.find()`
+ *
+ * @remarks
+ * Field paths are kept as dot notation. Operators without a MongoDB counterpart are translated:
+ * - `$not` becomes `$nor` with a single condition
+ * - `$contains` becomes `$all` and `$overlap` becomes `$in`
+ * - `$like`, `$ilike` and the pattern operators become anchored `$regex` conditions
+ * - `$fulltext` becomes a `$text` search, which requires a text index
+ * - `$some`, `$every` and `$none` become `$elemMatch` conditions
+ *
+ * @example
+ * ```typescript
+ * compileMongoFilter(parseFilterNode({ author: { name: "John" }, $not: { tags: { $contains: ["orm"] } } }));
+ * // Result: { $and: [{ "author.name": { $eq: "John" } }, { $nor: [{ tags: { $all: ["orm"] } }] }] }
+ * ```
+ */
+export function compileMongoFilter(node: FilterNode): Record<string, unknown> {
+  switch (node.type) {
+    case "and":
+      return node.conditions.length === 1
+        ? compileMongoFilter(node.conditions[0])
+        : node.conditions.length === 0
+          ? {}
+          : { $and: node.conditions.map(compileMongoFilter) };
+    case "or":
+      return { $or: node.conditions.map(compileMongoFilter) };
+    case "not":
+      return { $nor: [compileMongoFilter(node.condition)] };
+    case "comparison":
+      return compileComparison(node.field, node.operator, node.value);
+    case "collection": {
+      const condition = compileMongoFilter(node.condition);
+      switch (node.operator) {
+        case "$some":
+          return { [node.field]: { $elemMatch: condition } };
+        case "$none":
+          return { [node.field]: { $not: { $elemMatch: condition } } };
+        case "$every":
+          return {
+            [node.field]: { $not: { $elemMatch: { $nor: [condition] } } },
+          };
+      }
+    }
+  }
+}
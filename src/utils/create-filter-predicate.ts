@@ -0,0 +1,37 @@
+import type { FilterQuery } from "@mikro-orm/core";
+
+import { compileFilterPredicate } from "./compile-filter-predicate.js";
+import { parseFilterNode } from "./parse-filter-node.js";
+
+/**
+ * Creates a predicate that checks in memory whether entities match a filter query.
+ *
+ * @typeParam Entity - The entity type being filtered
+ * @param filter - The validated filter query, e.g. the output of a built schema
+ * @returns A function returning whether an entity matches the filter
+ * @throws Error if the filter uses an operator that cannot be evaluated
+ *
+ * @remarks
+ * The filter is evaluated with the semantics of a SQL database queried by MikroORM:
+ * - a list of values for a scalar field means `$in`, for an array field it is compared item by item
+ * - `null` and `$ne: null` check for missing values, other comparisons with a missing value never match
+ * - `$ne` and `$nin` do not match missing values
+ * - dates are compared by their timestamp, also with date strings
+ * - nested objects of related entities are followed, references are unwrapped, and paths through
+ *   to-many relations match when any item matches
+ *
+ * Replacements of the schema are already applied to its output, so the filter refers to the
+ * entity properties rather than the public field names.
+ *
+ * @example
+ * ```typescript
+ * const filter = builder.build().parse({ authorName: "John", age: { $gte: 18 } });
+ *
+ * const users = cachedUsers.filter(createFilterPredicate(filter));
+ * ```
+ */
+export function createFilterPredicate<Entity extends object>(
+  filter: FilterQuery<Entity>
+): (entity: Entity) => boolean {
+  return compileFilterPredicate<Entity>(parseFilterNode(filter as object));
+}
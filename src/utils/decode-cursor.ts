@@ -0,0 +1,30 @@
+/**
+ * Decodes a cursor created by MikroORM's `Cursor` into the values it points to.
+ *
+ * @param cursor - The base64url encoded cursor, e.g. `endCursor` of a previous page
+ * @returns The values of the sort fields in sort order, or `undefined` if the cursor is invalid
+ *
+ * @remarks
+ * Cursors are decoded without `Buffer`, so the function also works in browsers. Values
+ * of relation sort fields are objects keyed by the relation's sort fields.
+ *
+ * @example
+ * ```typescript
+ * decodeCursor("WyIyMDI0LTAxLTAxIiw1XQ");
+ * // Result: ["2024-01-01", 5]
+ * ```
+ */
+export function decodeCursor(cursor: string): unknown[] | undefined {
+  if (!/^[A-Za-z0-9_-]+$/.test(cursor)) {
+    return undefined;
+  }
+
+  try {
+    const binary = atob(cursor.replace(/-/g, "+").replace(/_/g, "/"));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    const values: unknown = JSON.parse(new TextDecoder().decode(bytes));
+    return Array.isArray(values) ? values : undefined;
+  } catch {
+    return undefined;
+  }
+}
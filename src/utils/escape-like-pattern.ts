@@ -0,0 +1,15 @@
+/**
+ * Escapes the wildcards of a `LIKE` pattern, so that the value matches literally.
+ *
+ * @param value - The value to escape
+ * @returns The value with `\`, `%` and `_` prefixed by a backslash
+ *
+ * @example
+ * ```typescript
+ * escapeLikePattern("50%_off");
+ * // Result: "50\\%\\_off"
+ * ```
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
@@ -0,0 +1,70 @@
+/**
+ * Finds the candidate closest to a misspelled value, e.g. to suggest a field name.
+ *
+ * @param value - The misspelled value
+ * @param candidates - The valid values
+ * @returns The candidate with the smallest edit distance, or `undefined` if no candidate is close enough
+ *
+ * @remarks
+ * The distance counts insertions, deletions, substitutions and swaps of adjacent
+ * characters, ignoring case. A candidate is close enough when the distance is at most
+ * a third of the value length, and at least 1. On equal distances the first candidate wins.
+ *
+ * @example
+ * ```typescript
+ * findClosestMatch("nmae", ["name", "age"]);
+ * // Result: "name"
+ *
+ * findClosestMatch("title", ["name", "age"]);
+ * // Result: undefined
+ * ```
+ */
+export function findClosestMatch(
+  value: string,
+  candidates: string[]
+): string | undefined {
+  const source = value.toLowerCase();
+  const maxDistance = Math.max(1, Math.floor(source.length / 3));
+
+  let closest: string | undefined;
+  let closestDistance = maxDistance + 1;
+  for (const candidate of candidates) {
+    const target = candidate.toLowerCase();
+    if (Math.abs(target.length - source.length) >= closestDistance) {
+      continue;
+    }
+
+    // Optimal string alignment distance, one row per character of the value
+    const rows: number[][] = [
+      Array.from({ length: target.length + 1 }, (_, j) => j),
+    ];
+    for (let i = 1; i <= source.length; i++) {
+      const row = [i];
+      for (let j = 1; j <= target.length; j++) {
+        const cost = source[i - 1] === target[j - 1] ? 0 : 1;
+        row[j] = Math.min(
+          rows[i - 1][j] + 1,
+          row[j - 1] + 1,
+          rows[i - 1][j - 1] + cost
+        );
+        if (
+          i > 1 &&
+          j > 1 &&
+          source[i - 1] === target[j - 2] &&
+          source[i - 2] === target[j - 1]
+        ) {
+          row[j] = Math.min(row[j], rows[i - 2][j - 2] + 1);
+        }
+      }
+      rows.push(row);
+    }
+
+    const distance = rows[source.length][target.length];
+    if (distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+}
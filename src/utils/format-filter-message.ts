@@ -0,0 +1,139 @@
+import { type FilterMessageParams } from "../interfaces/filter-message-params.interface.js";
+import {
+  type EnumValue,
+  type FieldType,
+  type FilterErrorCode,
+  type FilterMessageCatalog,
+} from "../types/index.js";
+
+/**
+ * Describes the values of a field type in the default messages.
+ * @internal
+ */
+const TYPE_DESCRIPTIONS: Record<Exclude<FieldType, "enum">, string> = {
+  string: "a string",
+  number: "a number",
+  boolean: "a boolean",
+  date: "a date",
+};
+
+/**
+ * Formats enum values as a quoted, comma-separated list.
+ * @internal
+ */
+function formatValues(values: EnumValue[]): string {
+  return values.map((value) => JSON.stringify(value)).join(", ");
+}
+
+/**
+ * The default English validation messages.
+ */
+export const DEFAULT_FILTER_MESSAGES: FilterMessageCatalog = {
+  unknown_field: ({ field, suggestion }) =>
+    suggestion
+      ? `Unknown field "${field}", did you mean "${suggestion}"?`
+      : `Unknown field "${field}"`,
+  unknown_operator: ({ field, operator, suggestion }) =>
+    `Unknown operator "${operator}"${field ? ` on field "${field}"` : ""}${
+      suggestion ? `, did you mean "${suggestion}"?` : ""
+    }`,
+  operator_not_allowed:
+    'Operator "{operator}" is not allowed for field "{field}"',
+  field_not_accessible: 'Field "{field}" is not accessible',
+  inaccessible_conditions: ({ operator }) =>
+    operator
+      ? `Conditions on inaccessible fields cannot be removed from "${operator}"`
+      : "Filter only has conditions on inaccessible fields",
+  invalid_value: ({ field, operator, type, relative, expected, values }) => {
+    const target = operator
+      ? `operator "${operator}" on field "${field}"`
+      : `field "${field}"`;
+    if (expected === "array") {
+      return `Expected an array for ${target}`;
+    }
+    if (type === "enum") {
+      return `Expected one of ${formatValues(values ?? [])} for ${target}`;
+    }
+    if (type === "date" && relative) {
+      return `Expected a date or relative date expression for ${target}`;
+    }
+    return `Expected ${type ? TYPE_DESCRIPTIONS[type] : "a valid value"} for ${target}`;
+  },
+  leading_wildcard: 'Leading wildcards are not allowed for field "{field}"',
+  multiple_patterns:
+    'Only one pattern operator can be used per condition on field "{field}"',
+  collection_operator_required:
+    'Collection field "{field}" requires $some, $every or $none',
+  max_depth_exceeded: ({ field, operator, limit }) =>
+    `"${operator ?? field}" exceeds the maximum nesting depth of ${limit}`,
+  too_many_conditions: "Filter cannot have more than {limit} field conditions",
+  too_many_total_conditions:
+    "Filter cannot have more than {limit} conditions in total, got {count}",
+  too_many_branches: "{operator} cannot have more than {limit} branches",
+  too_many_values:
+    'Operator "{operator}" of field "{field}" cannot have more than {limit} values',
+  cost_exceeded: "Filter cost {cost} exceeds the maximum cost of {limit}",
+  invalid_filter: ({ operator, expected }) =>
+    expected === "array"
+      ? `Expected an array of filters for "${operator}"`
+      : "Expected a filter object",
+  invalid_sort: "Expected a list of sort keys or an object of sort directions",
+  field_not_sortable: 'Field "{field}" is not sortable',
+  duplicate_sort_field: 'Field "{field}" is sorted more than once',
+  invalid_sort_direction:
+    'Invalid sort direction "{direction}", expected "asc" or "desc"',
+  too_many_sort_keys: "Cannot sort by more than {limit} fields, got {count}",
+  unknown_option: 'Unknown option "{option}"',
+  invalid_limit: 'Expected an integer between 1 and {limit} for "limit"',
+  invalid_offset: 'Expected a non-negative integer for "offset"',
+  invalid_cursor: "Invalid cursor",
+  cursor_mismatch: ({ fields }) =>
+    `Cursor does not match the sort fields: ${(fields ?? []).join(", ")}`,
+  cursors_combined: "Cannot combine after and before cursors",
+  order_by_required: "Cursor pagination requires orderBy",
+};
+
+/**
+ * Creates the validation message of an error code.
+ *
+ * @param code - The error code
+ * @param params - The interpolation parameters
+ * @param messages - Messages overriding the default English messages
+ * @returns The message of the code, with the parameters interpolated
+ *
+ * @remarks
+ * `{param}` placeholders of template messages are replaced with the parameter,
+ * `{values}` with the quoted, comma-separated enum values. Placeholders of missing
+ * parameters are replaced with an empty string.
+ *
+ * @example
+ * ```typescript
+ * formatFilterMessage("too_many_branches", { operator: "$or", limit: 5 });
+ * // Result: "$or cannot have more than 5 branches"
+ *
+ * formatFilterMessage(
+ *   "too_many_branches",
+ *   { operator: "$or", limit: 5 },
+ *   { too_many_branches: "{operator} 的分支不能超过 {limit} 个" }
+ * );
+ * // Result: "$or 的分支不能超过 5 个"
+ * ```
+ */
+export function formatFilterMessage(
+  code: FilterErrorCode,
+  params: FilterMessageParams,
+  messages?: Partial<FilterMessageCatalog>
+): string {
+  const message = messages?.[code] ?? DEFAULT_FILTER_MESSAGES[code];
+  if (typeof message === "function") {
+    return message(params);
+  }
+
+  return message.replace(/\{(\w+)\}/g, (_, name: string) => {
+    const value = params[name as keyof FilterMessageParams];
+    if (value === undefined) {
+      return "";
+    }
+    return Array.isArray(value) ? formatValues(value) : String(value);
+  });
+}
@@ -0,0 +1,79 @@
+import { type DateParts } from "../types/index.js";
+import { getDateParts } from "./get-date-parts.js";
+
+/**
+ * One day in milliseconds.
+ * @internal
+ */
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * The largest timestamp a `Date` can hold, in milliseconds.
+ * @internal
+ */
+const MAX_TIME = 8.64e15;
+
+/**
+ * Gets the offset of a time zone from UTC at an instant, in milliseconds.
+ * @internal
+ */
+function getTimeZoneOffset(time: number, timeZone: string): number {
+  const parts = getDateParts(new Date(time), timeZone);
+  return (
+    Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hours,
+      parts.minutes,
+      parts.seconds,
+      parts.milliseconds
+    ) - time
+  );
+}
+
+/**
+ * Converts a calendar date and wall-clock time in a time zone into an instant.
+ *
+ * @param parts - The date parts, months are 1-based and out of range values roll over like with `Date.UTC`
+ * @param timeZone - The IANA time zone, e.g. `"Europe/Berlin"`
+ * @returns The instant of the wall-clock time in the time zone, or an invalid date if it is out of range
+ * @throws RangeError if the time zone is unknown
+ *
+ * @remarks
+ * Wall-clock times skipped by a daylight saving transition resolve to the
+ * instant after the transition, repeated ones to the earlier instant.
+ *
+ * @example
+ * ```typescript
+ * fromDateParts({ year: 2024, month: 1, day: 1, hours: 0, minutes: 0, seconds: 0, milliseconds: 0 }, "Asia/Shanghai");
+ * // Result: 2023-12-31T16:00:00.000Z
+ * ```
+ */
+export function fromDateParts(parts: DateParts, timeZone: string): Date {
+  const wallTime = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hours,
+    parts.minutes,
+    parts.seconds,
+    parts.milliseconds
+  );
+  // The offsets are looked up a day before and after the wall time
+  if (!(Math.abs(wallTime) <= MAX_TIME - DAY)) {
+    return new Date(NaN);
+  }
+
+  // Near a transition, the wall time matches the offset before or after it
+  const candidates = [
+    wallTime - getTimeZoneOffset(wallTime - DAY, timeZone),
+    wallTime - getTimeZoneOffset(wallTime + DAY, timeZone),
+  ].sort((a, b) => a - b);
+  const valid = candidates.find(
+    (time) => time + getTimeZoneOffset(time, timeZone) === wallTime
+  );
+
+  // Skipped wall times are shifted by the length of the gap
+  return new Date(valid ?? candidates[1]);
+}
@@ -0,0 +1,44 @@
+import type { Operator } from "../types/index.js";
+
+/**
+ * Computes the cost of a single field condition.
+ *
+ * @param value - The field condition, a direct value or an operator object
+ * @param operatorCosts - The cost of each operator, operators without a cost count as 1
+ * @returns The sum of the operator costs, where array values scale the cost of their
+ * operator by their length
+ *
+ * @remarks
+ * A direct value counts as `$eq`. Non-operator keys are ignored.
+ *
+ * @example
+ * ```typescript
+ * getConditionCost({ $in: [1, 2, 3], $fulltext: "foo" }, { $fulltext: 10 });
+ * // Result: 13
+ * ```
+ */
+export function getConditionCost(
+  value: unknown,
+  operatorCosts: Partial<Record<Operator, number>>
+): number {
+  const getOperatorCost = (operator: Operator, operatorValue: unknown) =>
+    (operatorCosts[operator] ?? 1) *
+    (Array.isArray(operatorValue) ? Math.max(operatorValue.length, 1) : 1);
+
+  if (
+    value === null ||
+    typeof value !== "object" ||
+    value instanceof Date ||
+    Array.isArray(value)
+  ) {
+    return getOperatorCost("$eq", value);
+  }
+
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([key]) => key.startsWith("$"))
+    .reduce(
+      (cost, [operator, operatorValue]) =>
+        cost + getOperatorCost(operator as Operator, operatorValue),
+      0
+    );
+}
@@ -0,0 +1,55 @@
+import { type DateParts } from "../types/index.js";
+
+/**
+ * Formatters are expensive to create, they are cached per time zone.
+ * @internal
+ */
+const FORMATTERS = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Gets the calendar date and wall-clock time of an instant in a time zone.
+ *
+ * @param date - The instant
+ * @param timeZone - The IANA time zone, e.g. `"Europe/Berlin"`
+ * @returns The date parts of the instant in the time zone
+ * @throws RangeError if the time zone is unknown
+ *
+ * @example
+ * ```typescript
+ * getDateParts(new Date("2024-01-01T00:00:00Z"), "Asia/Shanghai");
+ * // Result: { year: 2024, month: 1, day: 1, hours: 8, minutes: 0, seconds: 0, milliseconds: 0 }
+ * ```
+ */
+export function getDateParts(date: Date, timeZone: string): DateParts {
+  let formatter = FORMATTERS.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    FORMATTERS.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter
+      .formatToParts(date)
+      .filter(({ type }) => type !== "literal")
+      .map(({ type, value }) => [type, Number(value)])
+  );
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hours: parts.hour,
+    minutes: parts.minute,
+    seconds: parts.second,
+    milliseconds: date.getUTCMilliseconds(),
+  };
+}
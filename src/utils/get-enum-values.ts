@@ -0,0 +1,28 @@
+import { type EnumValue, type EnumValues } from "../types/index.js";
+
+/**
+ * Returns the allowed values of an enum field as a list.
+ *
+ * @param values - A list of values or a TypeScript enum object
+ * @returns The allowed values
+ *
+ * @remarks
+ * For TypeScript enum objects, the reverse mappings of numeric members are skipped.
+ *
+ * @example
+ * ```typescript
+ * enum Priority { Low, High }
+ *
+ * getEnumValues(Priority);
+ * // Result: [0, 1]
+ * ```
+ */
+export function getEnumValues(values: EnumValues): EnumValue[] {
+  if (Array.isArray(values)) {
+    return [...values];
+  }
+
+  return Object.keys(values)
+    .filter((key) => Number.isNaN(Number(key)))
+    .map((key) => (values as Record<string, EnumValue>)[key]);
+}
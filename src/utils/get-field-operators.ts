@@ -0,0 +1,72 @@
+import { type PatternOptions } from "../interfaces/pattern-options.interface.js";
+import { type FieldType, type Operator } from "../types/index.js";
+
+/**
+ * Returns the operators applicable to a field, in a stable order.
+ *
+ * @param type - The field's data type
+ * @param options - The field's `array`, `fulltext` and `patterns` options, and its operator restrictions
+ * @returns The operators the field accepts in a comparison object
+ *
+ * @remarks
+ * `operators.include` keeps only the listed operators and `operators.exclude` removes
+ * the listed ones. Operators that do not apply to the field type are never returned,
+ * even when included.
+ *
+ * @example
+ * ```typescript
+ * getFieldOperators("boolean");
+ * // Result: ["$eq", "$ne", "$in", "$nin"]
+ *
+ * getFieldOperators("number", { operators: { exclude: ["$in", "$nin"] } });
+ * // Result: ["$eq", "$ne", "$gt", "$gte", "$lt", "$lte"]
+ * ```
+ */
+export function getFieldOperators(
+  type: FieldType,
+  options?: {
+    array?: boolean;
+    fulltext?: boolean;
+    patterns?: boolean | PatternOptions;
+    operators?: { include?: Operator[]; exclude?: Operator[] };
+  }
+): Operator[] {
+  const operators: Operator[] = ["$eq", "$ne"];
+
+  // Comparison operators only apply to number and date types
+  if (type === "number" || type === "date") {
+    operators.push("$gt", "$gte", "$lt", "$lte");
+  }
+
+  // $in and $nin apply to all types
+  operators.push("$in", "$nin");
+
+  // Array field specific operators
+  if (options?.array) {
+    operators.push("$contains", "$overlap");
+  }
+
+  // Fulltext search operator (only for string fields)
+  if (options?.fulltext && type === "string") {
+    operators.push("$fulltext");
+  }
+
+  // Pattern operators (only for string fields)
+  if (options?.patterns && type === "string") {
+    const patterns = options.patterns === true ? {} : options.patterns;
+    if (patterns.like) {
+      operators.push("$like", "$ilike");
+    }
+    operators.push("$startsWith");
+    if (patterns.leadingWildcard) {
+      operators.push("$endsWith", "$includes");
+    }
+  }
+
+  const include = options?.operators?.include;
+  const exclude = options?.operators?.exclude ?? [];
+  return operators.filter(
+    (operator) =>
+      (!include || include.includes(operator)) && !exclude.includes(operator)
+  );
+}
@@ -0,0 +1,107 @@
+import type { EntityProperty } from "@mikro-orm/core";
+
+import { type EnumValue, type FieldType } from "../types/index.js";
+
+/**
+ * Known MikroORM property type names mapped to their filter field type.
+ *
+ * @remarks
+ * `bigint` columns are filtered as numbers, so that range operators apply. `decimal`
+ * values are represented as strings by MikroORM to keep their precision, so they are
+ * filtered as strings.
+ *
+ * @internal
+ */
+const TYPE_NAME_MAP: Record<string, FieldType> = {
+  string: "string",
+  text: "string",
+  uuid: "string",
+  character: "string",
+  char: "string",
+  varchar: "string",
+  tinytext: "string",
+  mediumtext: "string",
+  longtext: "string",
+  number: "number",
+  integer: "number",
+  int: "number",
+  tinyint: "number",
+  smallint: "number",
+  mediumint: "number",
+  float: "number",
+  double: "number",
+  real: "number",
+  bigint: "number",
+  decimal: "string",
+  numeric: "string",
+  boolean: "boolean",
+  bool: "boolean",
+  date: "date",
+  datetime: "date",
+  timestamp: "date",
+};
+
+/**
+ * Resolves the filter field type of a MikroORM entity property.
+ *
+ * @param prop - The entity property metadata
+ * @returns The field type, whether the property is an array and the allowed
+ * values of enum properties, or `undefined` if the property cannot be filtered
+ *
+ * @remarks
+ * Enum properties with known `items` resolve to enum fields. Other scalar properties
+ * are resolved from their `runtimeType` (or `type` when the runtime type is not known
+ * yet). Properties typed `any`, like union types reported as `Object` by
+ * reflect-metadata, cannot be resolved. Types like `string[]` and the `array` type
+ * are treated as array fields. Many-to-one and owning one-to-one relations
+ * resolve to the type of the target entity's primary key, collections and
+ * embeddables are not supported.
+ *
+ * @example
+ * ```typescript
+ * getPropertyFieldType(meta.properties.tags);
+ * // Result: { type: "string", array: true }
+ * ```
+ */
+export function getPropertyFieldType(
+  prop: EntityProperty
+): { type: FieldType; array: boolean; values?: EnumValue[] } | undefined {
+  // Compared as plain strings so that `@mikro-orm/core` stays a type-only import
+  const kind: string = prop.kind;
+
+  if (kind === "m:1" || kind === "1:1") {
+    const primaryProps = prop.targetMeta?.getPrimaryProps() ?? [];
+    if (primaryProps.length !== 1) {
+      return undefined;
+    }
+    return getPropertyFieldType(primaryProps[0]);
+  }
+
+  if (kind !== "scalar") {
+    return undefined;
+  }
+
+  if (prop.enum && Array.isArray(prop.items) && prop.items.length > 0) {
+    return { type: "enum", array: prop.array ?? false, values: prop.items };
+  }
+
+  const typeName = [prop.runtimeType, prop.type].find(
+    (name): name is string => typeof name === "string" && name !== "any"
+  );
+  if (!typeName) {
+    return undefined;
+  }
+
+  const normalized = typeName.toLowerCase();
+  if (normalized === "array") {
+    return { type: "string", array: true };
+  }
+
+  if (normalized.endsWith("[]")) {
+    const type = TYPE_NAME_MAP[normalized.slice(0, -2)];
+    return type ? { type, array: true } : undefined;
+  }
+
+  const type = TYPE_NAME_MAP[normalized];
+  return type ? { type, array: prop.array ?? false } : undefined;
+}
@@ -1 +1,29 @@
+export { compileFilterPredicate } from "./compile-filter-predicate.js";
+export { compileMikroOrmFilter } from "./compile-mikro-orm-filter.js";
+export { compileMongoFilter } from "./compile-mongo-filter.js";
+export { createFilterPredicate } from "./create-filter-predicate.js";
+export { decodeCursor } from "./decode-cursor.js";
+export { escapeLikePattern } from "./escape-like-pattern.js";
+export { findClosestMatch } from "./find-closest-match.js";
+export {
+  DEFAULT_FILTER_MESSAGES,
+  formatFilterMessage,
+} from "./format-filter-message.js";
+export { fromDateParts } from "./from-date-parts.js";
+export { getConditionCost } from "./get-condition-cost.js";
+export { getDateParts } from "./get-date-parts.js";
+export { getEnumValues } from "./get-enum-values.js";
+export { getFieldOperators } from "./get-field-operators.js";
+export { getPropertyFieldType } from "./get-property-field-type.js";
+export { likePatternToRegExp } from "./like-pattern-to-reg-exp.js";
+export { mergeFilterQuery } from "./merge-filter-query.js";
+export { parseDateValue } from "./parse-date-value.js";
+export { parseFilterNode } from "./parse-filter-node.js";
+export { parseFilterQueryString } from "./parse-filter-query-string.js";
+export {
+  parseRelativeDate,
+  RELATIVE_DATE_PATTERN,
+} from "./parse-relative-date.js";
 export { setNestedValue } from "./set-nested-value.js";
+export { stringifyFilterQueryString } from "./stringify-filter-query-string.js";
+export { toLikePattern } from "./to-like-pattern.js";
@@ -0,0 +1,44 @@
+/**
+ * Escapes the special characters of a regular expression.
+ * @internal
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+/**
+ * Converts a `LIKE` pattern into an anchored regular expression.
+ *
+ * @param pattern - The pattern, `%` matches any characters and `_` a single character
+ * @param ignoreCase - Whether the expression ignores case, like `ILIKE`
+ * @returns The regular expression matching the same strings as the pattern
+ *
+ * @remarks
+ * Characters escaped with a backslash match literally, as produced by `escapeLikePattern`.
+ *
+ * @example
+ * ```typescript
+ * likePatternToRegExp("50\\%%", true);
+ * // Result: /^50%[\s\S]*$/i
+ * ```
+ */
+export function likePatternToRegExp(
+  pattern: string,
+  ignoreCase = false
+): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\" && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (char === "%") {
+      source += "[\\s\\S]*";
+    } else if (char === "_") {
+      source += "[\\s\\S]";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`, ignoreCase ? "i" : "");
+}
@@ -0,0 +1,124 @@
+import { type MergeStrategy } from "../types/index.js";
+
+/**
+ * Checks whether a value is a nested filter or operator object.
+ * @internal
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+/**
+ * Checks whether an object contains operators like `$gte`, `$not` or `$or`.
+ * @internal
+ */
+function hasOperators(value: Record<string, unknown>): boolean {
+  return Object.keys(value).some((key) => key.startsWith("$"));
+}
+
+/**
+ * Merges two nested objects key by key, returns `undefined` if they conflict.
+ *
+ * @remarks
+ * Operator objects are never merged, since merging `{ $not: { a } }` into `{ $not: { b } }`
+ * would turn NOT a AND NOT b into NOT (a AND b).
+ * @internal
+ */
+function deepMerge(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>
+): Record<string, unknown> | undefined {
+  if (hasOperators(target) || hasOperators(source)) {
+    return undefined;
+  }
+
+  const result = { ...target };
+
+  for (const [key, value] of Object.entries(source)) {
+    const existing = result[key];
+    if (!(key in result)) {
+      result[key] = value;
+    } else if (isPlainObject(existing) && isPlainObject(value)) {
+      const merged = deepMerge(existing, value);
+      if (!merged) {
+        return undefined;
+      }
+      result[key] = merged;
+    } else {
+      return undefined;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Merges the conditions of a filter object into another filter object.
+ *
+ * @param target - The filter object to modify
+ * @param source - The conditions to add
+ * @param strategy - How conditions on keys that are already set are combined
+ *
+ * @remarks
+ * The result matches the entities matching both filter objects. When a key is set
+ * in both and the conditions cannot be merged, both conditions are moved to the
+ * `$and` array of the target. `$and` arrays are concatenated, operators like `$or`
+ * and `$not` are never merged.
+ *
+ * @example
+ * ```typescript
+ * const filter = { author: { name: "John" }, $or: [{ a: 1 }, { b: 1 }] };
+ *
+ * mergeFilterQuery(filter, { author: { age: 30 }, $or: [{ c: 1 }, { d: 1 }] }, "deep");
+ * // Result: {
+ * //   author: { name: "John", age: 30 },
+ * //   $and: [{ $or: [{ a: 1 }, { b: 1 }] }, { $or: [{ c: 1 }, { d: 1 }] }],
+ * // }
+ * ```
+ */
+export function mergeFilterQuery(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>,
+  strategy: MergeStrategy
+): void {
+  const conflicts: Record<string, unknown>[] = [];
+
+  for (const [key, value] of Object.entries(source)) {
+    const existing = target[key];
+    if (!(key in target)) {
+      target[key] = value;
+    } else if (
+      key === "$and" &&
+      Array.isArray(existing) &&
+      Array.isArray(value)
+    ) {
+      target[key] = [...existing, ...value];
+    } else {
+      const merged =
+        strategy === "deep" &&
+        !key.startsWith("$") &&
+        isPlainObject(existing) &&
+        isPlainObject(value)
+          ? deepMerge(existing, value)
+          : undefined;
+      if (merged) {
+        target[key] = merged;
+      } else {
+        delete target[key];
+        conflicts.push({ [key]: existing }, { [key]: value });
+      }
+    }
+  }
+
+  if (conflicts.length > 0) {
+    target.$and = [
+      ...((target.$and as unknown[] | undefined) ?? []),
+      ...conflicts,
+    ];
+  }
+}
@@ -0,0 +1,61 @@
+import { fromDateParts } from "./from-date-parts.js";
+
+/**
+ * Matches ISO dates and datetimes without an offset.
+ * @internal
+ */
+const LOCAL_DATE_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?$/;
+
+/**
+ * Converts a date field value into a `Date` instance.
+ *
+ * @param value - A `Date`, or an ISO date or datetime string
+ * @param timeZone - The IANA time zone of values without an offset
+ * @param endOfDay - Whether a date-only value means the last millisecond of the day
+ * @returns The instant of the value
+ *
+ * @remarks
+ * Datetimes with an offset keep their instant. Date-only values mean the start
+ * of the day in the time zone, or its end with `endOfDay`. Fractions of a second
+ * are truncated to milliseconds.
+ *
+ * @example
+ * ```typescript
+ * parseDateValue("2024-01-31", "Europe/Berlin", true);
+ * // Result: 2024-01-31T22:59:59.999Z
+ * ```
+ */
+export function parseDateValue(
+  value: string | Date,
+  timeZone: string,
+  endOfDay = false
+): Date {
+  if (value instanceof Date) {
+    return value;
+  }
+
+  const match = LOCAL_DATE_PATTERN.exec(value);
+  if (!match) {
+    return new Date(value);
+  }
+
+  const [, year, month, day, hours, minutes, seconds, fraction] = match;
+  const isDateOnly = hours === undefined;
+
+  return fromDateParts(
+    {
+      year: Number(year),
+      month: Number(month),
+      day: Number(day) + (isDateOnly && endOfDay ? 1 : 0),
+      hours: Number(hours ?? 0),
+      minutes: Number(minutes ?? 0),
+      seconds: Number(seconds ?? 0),
+      milliseconds:
+        isDateOnly && endOfDay
+          ? -1
+          : Number((fraction ?? "").padEnd(3, "0").slice(0, 3)),
+    },
+    timeZone
+  );
+}
@@ -0,0 +1,136 @@
+import {
+  type CollectionOperator,
+  type FilterNode,
+  type Operator,
+} from "../types/index.js";
+
+/**
+ * Operators of to-many relation conditions.
+ * @internal
+ */
+const COLLECTION_OPERATORS: string[] = ["$some", "$every", "$none"];
+
+/**
+ * Checks whether a value is a nested filter object rather than a direct value.
+ * @internal
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+/**
+ * Parses the conditions of a filter object whose fields are relative to a path.
+ * @internal
+ */
+function parseConditions(
+  filter: Record<string, unknown>,
+  path: string
+): FilterNode[] {
+  const conditions: FilterNode[] = [];
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (key === "$and" || key === "$or") {
+      conditions.push({
+        type: key === "$and" ? "and" : "or",
+        conditions: (value as Record<string, unknown>[]).map((item) =>
+          parseFilter(item, path)
+        ),
+      });
+    } else if (key === "$not") {
+      conditions.push({
+        type: "not",
+        condition: parseFilter(value as Record<string, unknown>, path),
+      });
+    } else if (key.startsWith("$")) {
+      // Operators apply to the field the object is nested in
+      if (!path) {
+        throw new Error(`Operator "${key}" must be used on a field`);
+      }
+      conditions.push({
+        type: "comparison",
+        field: path,
+        operator: key as Operator,
+        value,
+      });
+    } else {
+      conditions.push(
+        ...parseFieldConditions(path ? `${path}.${key}` : key, value)
+      );
+    }
+  }
+
+  return conditions;
+}
+
+/**
+ * Parses the value of a field, either a direct value, operators, collection
+ * operators or the filter of a related entity.
+ * @internal
+ */
+function parseFieldConditions(path: string, value: unknown): FilterNode[] {
+  if (!isPlainObject(value)) {
+    return [{ type: "comparison", field: path, operator: "$eq", value }];
+  }
+
+  const keys = Object.keys(value);
+  if (
+    keys.length > 0 &&
+    keys.every((key) => COLLECTION_OPERATORS.includes(key))
+  ) {
+    return keys.map((operator) => ({
+      type: "collection",
+      field: path,
+      operator: operator as CollectionOperator,
+      condition: parseFilter(value[operator] as Record<string, unknown>, ""),
+    }));
+  }
+
+  return parseConditions(value, path);
+}
+
+/**
+ * Parses a filter object whose fields are relative to a path into a single node.
+ * @internal
+ */
+function parseFilter(
+  filter: Record<string, unknown>,
+  path: string
+): FilterNode {
+  const conditions = parseConditions(filter, path);
+  return conditions.length === 1 ? conditions[0] : { type: "and", conditions };
+}
+
+/**
+ * Parses a MikroORM filter query into a filter tree.
+ *
+ * @param filter - The filter query, e.g. the output of a built schema
+ * @returns The root node of the filter tree
+ * @throws Error if an operator is used outside of a field
+ *
+ * @remarks
+ * Nested objects of related entities are flattened into dot-separated field paths,
+ * and a field with several operators becomes an `and` node of comparisons. Objects
+ * with several conditions become `and` nodes, single conditions are not wrapped.
+ * Collection operators (`$some`, `$every`, `$none`) start a new path relative to the
+ * collection items.
+ *
+ * @example
+ * ```typescript
+ * parseFilterNode({ author: { name: "John" }, age: { $gte: 18 } });
+ * // Result: {
+ * //   type: "and",
+ * //   conditions: [
+ * //     { type: "comparison", field: "author.name", operator: "$eq", value: "John" },
+ * //     { type: "comparison", field: "age", operator: "$gte", value: 18 },
+ * //   ],
+ * // }
+ * ```
+ */
+export function parseFilterNode(filter: object): FilterNode {
+  return parseFilter(filter as Record<string, unknown>, "");
+}
@@ -0,0 +1,130 @@
+/**
+ * Keys that are never assigned, to prevent prototype pollution.
+ * @internal
+ */
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Splits a query string key into its path segments.
+ * An empty segment stands for `[]` (append to array).
+ * @internal
+ */
+function splitKey(key: string): string[] {
+  const match = /^[^[.]*/.exec(key);
+  const head = match ? match[0] : "";
+  const segments = [head];
+
+  const pattern = /\[([^\]]*)\]|\.([^[.]*)/g;
+  let rest = key.slice(head.length);
+  let segment: RegExpExecArray | null;
+  while (rest && (segment = pattern.exec(rest)) && segment.index === 0) {
+    segments.push(segment[1] ?? segment[2]);
+    rest = rest.slice(segment[0].length);
+    pattern.lastIndex = 0;
+  }
+
+  // Trailing text that is not bracket or dot notation is kept as part of the last segment
+  if (rest) {
+    segments[segments.length - 1] += rest;
+  }
+
+  return segments;
+}
+
+/**
+ * Converts objects whose keys are all array indices into compact arrays.
+ * @internal
+ */
+function compactArrays(value: unknown): unknown {
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>).map(
+    ([key, item]) => [key, compactArrays(item)] as const
+  );
+
+  if (entries.length > 0 && entries.every(([key]) => /^\d+$/.test(key))) {
+    return entries
+      .sort(([a], [b]) => Number(a) - Number(b))
+      .map(([, item]) => item);
+  }
+
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Parses a URL query string in bracket or dot notation into a nested filter object.
+ *
+ * @param query - The query string (with or without leading `?`) or search params
+ * @param key - Optional name of the root parameter holding the filter (e.g. `"filter"`),
+ * other parameters are ignored. When omitted, every parameter is part of the filter.
+ * @returns The nested filter object, all values are strings
+ *
+ * @remarks
+ * Numeric segments and `[]` create arrays, repeated keys are collected into an array.
+ * Array indices are compacted, so `$or[5]` after `$or[0]` becomes the second branch.
+ * Values are not coerced, use `FilterQuerySchemaBuilder.buildQueryStringSchema` to
+ * validate them against the declared field types.
+ *
+ * @example
+ * ```typescript
+ * parseFilterQueryString("filter[age][$gte]=18&filter[$or][0][name]=John", "filter");
+ * // Result: { age: { $gte: "18" }, $or: [{ name: "John" }] }
+ *
+ * parseFilterQueryString("age.$gte=18&id.$in[]=1&id.$in[]=2");
+ * // Result: { age: { $gte: "18" }, id: { $in: ["1", "2"] } }
+ * ```
+ */
+export function parseFilterQueryString(
+  query: string | URLSearchParams,
+  key?: string
+): Record<string, unknown> {
+  const params =
+    typeof query === "string" ? new URLSearchParams(query) : query;
+  const result: Record<string, unknown> = {};
+
+  for (const [name, value] of params) {
+    let segments = splitKey(name);
+    if (key !== undefined) {
+      if (segments[0] !== key) {
+        continue;
+      }
+      segments = segments.slice(1);
+    }
+
+    if (
+      segments.length === 0 ||
+      segments.some((segment) => UNSAFE_KEYS.has(segment))
+    ) {
+      continue;
+    }
+
+    let current = result;
+    for (let i = 0; i < segments.length; i++) {
+      const isLast = i === segments.length - 1;
+      const segment =
+        segments[i] === "" ? String(Object.keys(current).length) : segments[i];
+
+      if (isLast) {
+        const existing = current[segment];
+        if (existing === undefined) {
+          current[segment] = value;
+        } else if (Array.isArray(existing)) {
+          existing.push(value);
+        } else if (typeof existing === "string") {
+          current[segment] = [existing, value];
+        }
+        break;
+      }
+
+      const next = current[segment];
+      if (next === null || typeof next !== "object" || Array.isArray(next)) {
+        current[segment] = {};
+      }
+      current = current[segment] as Record<string, unknown>;
+    }
+  }
+
+  return compactArrays(result) as Record<string, unknown>;
+}
@@ -0,0 +1,178 @@
+import { type DateParts } from "../types/index.js";
+import { fromDateParts } from "./from-date-parts.js";
+import { getDateParts } from "./get-date-parts.js";
+
+/**
+ * Matches relative date expressions: `now` followed by offsets (`+1d`, `-2w`) and
+ * roundings (`/d`) in any order, or `startOf:<unit>` / `endOf:<unit>`.
+ *
+ * @remarks
+ * Units are `y` (year), `M` (month), `w` (week), `d` (day), `h` (hour), `m` (minute)
+ * and `s` (second). Named units are `year`, `month`, `week`, `day`, `hour` and `minute`.
+ * Offsets have at most 6 digits.
+ */
+export const RELATIVE_DATE_PATTERN =
+  /^(?:now(?:[+-]\d{1,6}[yMwdhms]|\/[yMwdhms])*|(?:startOf|endOf):(?:year|month|week|day|hour|minute))$/;
+
+/**
+ * Units of the named `startOf` / `endOf` expressions.
+ * @internal
+ */
+const NAMED_UNITS: Record<string, string> = {
+  year: "y",
+  month: "M",
+  week: "w",
+  day: "d",
+  hour: "h",
+  minute: "m",
+};
+
+/**
+ * Milliseconds of the units that are added to the instant, regardless of the time zone.
+ * @internal
+ */
+const UNIT_MILLISECONDS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  m: 60 * 1000,
+  s: 1000,
+};
+
+/**
+ * Adds an amount of a calendar unit to date parts, clamping the day to the target month.
+ * @internal
+ */
+function addCalendarUnit(
+  parts: DateParts,
+  unit: string,
+  amount: number
+): DateParts {
+  switch (unit) {
+    case "y":
+    case "M": {
+      const months = parts.month - 1 + amount * (unit === "y" ? 12 : 1);
+      const year = parts.year + Math.floor(months / 12);
+      const month = (((months % 12) + 12) % 12) + 1;
+      const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+      return { ...parts, year, month, day: Math.min(parts.day, daysInMonth) };
+    }
+    case "w":
+      return { ...parts, day: parts.day + amount * 7 };
+    default:
+      return { ...parts, day: parts.day + amount };
+  }
+}
+
+/**
+ * Rounds date parts down to the start of a unit, weeks start on Monday.
+ * @internal
+ */
+function startOfUnit(parts: DateParts, unit: string): DateParts {
+  const rounded = { ...parts, milliseconds: 0 };
+  switch (unit) {
+    case "y":
+      rounded.month = 1;
+    // falls through
+    case "M":
+      rounded.day = 1;
+    // falls through
+    case "d":
+      rounded.hours = 0;
+    // falls through
+    case "h":
+      rounded.minutes = 0;
+    // falls through
+    case "m":
+      rounded.seconds = 0;
+      break;
+    case "w": {
+      const weekday = new Date(
+        Date.UTC(parts.year, parts.month - 1, parts.day)
+      ).getUTCDay();
+      return {
+        ...startOfUnit(parts, "d"),
+        day: parts.day - ((weekday + 6) % 7),
+      };
+    }
+  }
+  return rounded;
+}
+
+/**
+ * Resolves a relative date expression against the current time.
+ *
+ * @param expression - The relative date expression, see {@link RELATIVE_DATE_PATTERN}
+ * @param now - The current time
+ * @param timeZone - The IANA time zone used for calendar units and roundings
+ * @param roundUp - Whether roundings resolve to the last millisecond of the unit instead of its start
+ * @returns The resolved date, or `undefined` if the expression is malformed or the
+ * date is outside of the supported range
+ *
+ * @remarks
+ * Operations are applied from left to right. Adding months or years clamps the day
+ * to the last day of the target month. `endOf:<unit>` always rounds up.
+ *
+ * @example
+ * ```typescript
+ * const now = new Date("2024-03-15T10:30:00Z");
+ *
+ * parseRelativeDate("now-7d", now, "UTC");
+ * // Result: 2024-03-08T10:30:00.000Z
+ *
+ * parseRelativeDate("now-1M/M", now, "UTC", true);
+ * // Result: 2024-02-29T23:59:59.999Z
+ * ```
+ */
+export function parseRelativeDate(
+  expression: string,
+  now: Date,
+  timeZone: string,
+  roundUp = false
+): Date | undefined {
+  if (!RELATIVE_DATE_PATTERN.test(expression)) {
+    return undefined;
+  }
+
+  const [prefix, name] = expression.split(":");
+  const operations =
+    name === undefined
+      ? (expression
+          .slice("now".length)
+          .match(/[+-]\d{1,6}[yMwdhms]|\/[yMwdhms]/g) ?? [])
+      : [`/${NAMED_UNITS[name]}`];
+  const isRoundedUp = name === undefined ? roundUp : prefix === "endOf";
+
+  let date = now;
+  for (const operation of operations) {
+    const unit = operation.slice(-1);
+    // Time zone conversions throw for dates outside of the supported range
+    if (!Number.isFinite(date.getTime())) {
+      return undefined;
+    }
+
+    if (operation.startsWith("/")) {
+      const start = startOfUnit(getDateParts(date, timeZone), unit);
+      if (!isRoundedUp) {
+        date = fromDateParts(start, timeZone);
+        continue;
+      }
+
+      // The last millisecond before the start of the next unit
+      const next =
+        unit in UNIT_MILLISECONDS
+          ? fromDateParts(start, timeZone).getTime() + UNIT_MILLISECONDS[unit]
+          : fromDateParts(addCalendarUnit(start, unit, 1), timeZone).getTime();
+      date = new Date(next - 1);
+    } else {
+      const amount = Number(operation.slice(0, -1));
+      date =
+        unit in UNIT_MILLISECONDS
+          ? new Date(date.getTime() + amount * UNIT_MILLISECONDS[unit])
+          : fromDateParts(
+              addCalendarUnit(getDateParts(date, timeZone), unit, amount),
+              timeZone
+            );
+    }
+  }
+
+  return Number.isFinite(date.getTime()) ? date : undefined;
+}
@@ -0,0 +1,83 @@
+/**
+ * Formats a leaf value as a query string value.
+ * @internal
+ */
+function formatValue(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
+
+/**
+ * Percent-encodes a key segment, keeping `$` readable as it is valid in query strings.
+ * @internal
+ */
+function encodeKey(key: string): string {
+  return encodeURIComponent(key).replace(/%24/g, "$");
+}
+
+/**
+ * Serializes a filter object into a URL query string in bracket notation.
+ *
+ * @param filter - The filter object to serialize
+ * @param key - Optional name of the root parameter holding the filter (e.g. `"filter"`)
+ * @returns The query string, without leading `?`
+ * @throws Error if the filter contains values that cannot be represented in a query string
+ *
+ * @remarks
+ * This is the inverse of `parseFilterQueryString`. Arrays are written with explicit
+ * indices, `null` as the string `"null"` and dates as ISO strings. Brackets and `$`
+ * are kept readable, everything else in keys and values is percent-encoded.
+ *
+ * Nested empty arrays and objects have no query string representation and the string
+ * `"null"` would be read back as `null`, so they are rejected instead of changing the filter.
+ *
+ * @example
+ * ```typescript
+ * stringifyFilterQueryString({ age: { $gte: 18 }, $or: [{ name: "John" }] }, "filter");
+ * // Result: "filter[age][$gte]=18&filter[$or][0][name]=John"
+ * ```
+ */
+export function stringifyFilterQueryString(
+  filter: object,
+  key?: string
+): string {
+  const pairs: string[] = [];
+
+  const visit = (value: unknown, path: string): void => {
+    if (
+      value !== null &&
+      typeof value === "object" &&
+      !(value instanceof Date)
+    ) {
+      const entries = Object.entries(value);
+      if (entries.length === 0 && value !== filter) {
+        throw new Error(
+          `Cannot serialize empty ${Array.isArray(value) ? "array" : "object"} at "${path}"`
+        );
+      }
+      for (const [childKey, child] of entries) {
+        const segment = encodeKey(childKey);
+        visit(child, path ? `${path}[${segment}]` : segment);
+      }
+      return;
+    }
+
+    if (value === "null") {
+      throw new Error(
+        `Cannot serialize the string "null" at "${path}", it would be read as null`
+      );
+    }
+    if (value !== undefined) {
+      pairs.push(`${path}=${encodeURIComponent(formatValue(value))}`);
+    }
+  };
+
+  visit(filter, key === undefined ? "" : encodeKey(key));
+
+  return pairs.join("&");
+}
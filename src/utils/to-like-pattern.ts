@@ -0,0 +1,32 @@
+import { type Operator } from "../types/index.js";
+import { escapeLikePattern } from "./escape-like-pattern.js";
+
+/**
+ * Converts the value of a pattern operator into a `LIKE` pattern.
+ *
+ * @param operator - The pattern operator
+ * @param value - The value of the operator
+ * @returns The escaped value with wildcards for `$startsWith`, `$endsWith` and
+ * `$includes`, the unchanged pattern for `$like` and `$ilike`
+ *
+ * @example
+ * ```typescript
+ * toLikePattern("$includes", "50%");
+ * // Result: "%50\\%%"
+ * ```
+ */
+export function toLikePattern(
+  operator: Operator | string,
+  value: string
+): string {
+  switch (operator) {
+    case "$startsWith":
+      return `${escapeLikePattern(value)}%`;
+    case "$endsWith":
+      return `%${escapeLikePattern(value)}`;
+    case "$includes":
+      return `%${escapeLikePattern(value)}%`;
+    default:
+      return value;
+  }
+}
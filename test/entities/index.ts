@@ -1,3 +1,4 @@
 export * from "./user.entity.js";
 export * from "./post.entity.js";
 export * from "./comment.entity.js";
+export * from "./metadata.js";
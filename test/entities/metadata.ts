@@ -0,0 +1,37 @@
+import {
+  type Constructor,
+  EntityMetadata,
+  MetadataStorage,
+  ReflectMetadataProvider,
+} from "@mikro-orm/core";
+
+/**
+ * Loads the decorator metadata of an entity with property types and enum items
+ * resolved, without initializing a full MikroORM instance.
+ */
+export function getEntityMetadata<T extends object>(
+  entity: Constructor<T>
+): EntityMetadata<T> {
+  const meta = new EntityMetadata<T>({
+    ...MetadataStorage.getMetadataFromDecorator(entity),
+    class: entity,
+    prototype: entity.prototype,
+  });
+  meta.sync();
+  meta.primaryKeys = meta.props
+    .filter((prop) => prop.primary)
+    .map((prop) => prop.name);
+  for (const prop of meta.props) {
+    if (typeof prop.items === "function") {
+      const items = (prop.items as () => Record<string, string | number>)();
+      prop.items = Object.keys(items)
+        .filter((key) => Number.isNaN(Number(key)))
+        .map((key) => items[key]);
+    }
+  }
+  new ReflectMetadataProvider({} as never).loadEntityMetadata(
+    meta,
+    entity.name
+  );
+  return meta;
+}
@@ -1,4 +1,10 @@
-import { Entity, PrimaryKey, Property } from "@mikro-orm/core";
+import { Entity, Enum, PrimaryKey, Property } from "@mikro-orm/core";
+
+export enum PostStatus {
+  Draft = "draft",
+  Published = "published",
+  Archived = "archived",
+}
 
 @Entity()
 export class Post {
@@ -23,6 +29,9 @@ export class Post {
   @Property()
   isPublished!: boolean;
 
+  @Enum({ items: () => PostStatus })
+  status!: PostStatus;
+
   @Property({ nullable: true })
   publishedAt!: Date | null;
 
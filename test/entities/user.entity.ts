@@ -17,6 +17,9 @@ export class User {
   @Property({ type: "bigint" })
   balance!: bigint;
 
+  @Property({ type: "decimal", precision: 5, scale: 2, nullable: true })
+  rating!: string | null;
+
   @Property()
   isActive!: boolean;
 
@@ -28,4 +31,7 @@ export class User {
 
   @Property()
   updatedAt!: Date;
+
+  @Property({ type: "json", nullable: true })
+  settings!: Record<string, unknown> | null;
 }
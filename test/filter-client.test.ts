@@ -0,0 +1,492 @@
+import type { z } from "zod";
+
+import { FilterClient } from "../src/filter-client.js";
+import { FilterQuerySchemaBuilder } from "../src/filter-query-schema-builder.js";
+import type { FilterOptions } from "../src/interfaces/filter-options.interface.js";
+
+interface Comment {
+  likes: number;
+  isApproved: boolean;
+}
+
+interface User {
+  name: string;
+  age: number;
+}
+
+interface Post {
+  title: string;
+  status: string;
+  tags: string[];
+  views: number;
+  publishedAt: Date | null;
+  comments: Comment[];
+  author: User;
+  secret: string;
+}
+
+describe("FilterClient", () => {
+  function createPostBuilder(options?: Partial<FilterOptions>) {
+    return new FilterQuerySchemaBuilder<Post, { roles: string[] }>(options)
+      .addField({
+        field: "title",
+        type: "string",
+        fulltext: true,
+        patterns: { like: true },
+      })
+      .addField({
+        field: "status",
+        type: "enum",
+        values: ["draft", "published"],
+        nullable: false,
+      })
+      .addField({ field: "tags", type: "string", array: true })
+      .addField({
+        field: "views",
+        type: "number",
+        operators: { exclude: ["$in", "$nin"] },
+      })
+      .addField({ field: "publishedAt", type: "date", relative: true })
+      .addField({ field: "secret", type: "string", access: ["admin"] })
+      .addCollection(
+        "comments",
+        new FilterQuerySchemaBuilder<Comment, { roles: string[] }>()
+          .addField({ field: "likes", type: "number" })
+          .addField({ field: "isApproved", type: "boolean" })
+      )
+      .addRelation(
+        "author",
+        new FilterQuerySchemaBuilder<User, { roles: string[] }>().addField({
+          field: "name",
+          type: "string",
+        })
+      );
+  }
+
+  const builder = createPostBuilder();
+  const schema = builder.build({ roles: [] });
+  type PostFilter = z.input<typeof schema>;
+
+  const filter = new FilterClient<PostFilter>(
+    builder.toClientDefinition({ roles: [] })
+  );
+
+  describe("Definition", () => {
+    it("should export fields, relations and limits", () => {
+      const definition = createPostBuilder({
+        maxDepth: 2,
+        maxCost: 50,
+      }).toClientDefinition({ roles: [] });
+
+      expect(definition.fields.status).toEqual({
+        type: "enum",
+        operators: ["$eq", "$ne", "$in", "$nin"],
+        nullable: false,
+        values: ["draft", "published"],
+      });
+      expect(definition.fields.views.operators).toEqual([
+        "$eq",
+        "$ne",
+        "$gt",
+        "$gte",
+        "$lt",
+        "$lte",
+      ]);
+      expect(definition.relations.comments.collection).toBe(true);
+      expect(Object.keys(definition.relations.comments.fields)).toEqual([
+        "likes",
+        "isApproved",
+      ]);
+      expect(definition.limits).toMatchObject({
+        maxDepth: 2,
+        maxCost: 50,
+        operatorCosts: { $fulltext: 10 },
+      });
+    });
+
+    it("should leave out fields the caller may not use", () => {
+      expect(
+        builder.toClientDefinition({ roles: [] }).fields.secret
+      ).toBeUndefined();
+      expect(
+        builder.toClientDefinition({ roles: ["admin"] }).fields.secret
+      ).toBeDefined();
+    });
+
+    it("should only contain JSON values", () => {
+      const definition = builder.toClientDefinition({ roles: [] });
+
+      expect(JSON.parse(JSON.stringify(definition))).toEqual(definition);
+    });
+
+    it("should end the definitions of self-mounted builders at maxDepth", () => {
+      interface Category {
+        name: string;
+        parent: Category;
+      }
+
+      const categoryBuilder = new FilterQuerySchemaBuilder<Category>({
+        maxDepth: 2,
+      }).addField({
+        field: "name",
+        type: "string",
+      });
+      categoryBuilder.addRelation("parent", categoryBuilder);
+      const definition = categoryBuilder.toClientDefinition();
+
+      expect(
+        Object.keys(definition.relations.parent.relations.parent.relations)
+      ).toEqual([]);
+    });
+  });
+
+  describe("Building filters", () => {
+    it("should build field conditions", () => {
+      expect(filter.field("views").gte(10).lt(100).toJSON()).toEqual({
+        views: { $gte: 10, $lt: 100 },
+      });
+      expect(filter.field("status").in(["draft"]).toJSON()).toEqual({
+        status: { $in: ["draft"] },
+      });
+      expect(
+        filter.field("tags").contains(["orm"]).overlap(["ts"]).toJSON()
+      ).toEqual({
+        tags: { $contains: ["orm"], $overlap: ["ts"] },
+      });
+      expect(filter.field("publishedAt").eq(null).toJSON()).toEqual({
+        publishedAt: { $eq: null },
+      });
+    });
+
+    it("should combine filters", () => {
+      const title = filter.field("title").eq("Hello");
+      const views = filter.field("views").gt(10);
+
+      expect(title.and(views).toJSON()).toEqual({
+        $and: [{ title: { $eq: "Hello" } }, { views: { $gt: 10 } }],
+      });
+      expect(title.or(views).not().toJSON()).toEqual({
+        $not: { $or: [{ title: { $eq: "Hello" } }, { views: { $gt: 10 } }] },
+      });
+      expect(filter.or(title, views).toJSON()).toEqual({
+        $or: [{ title: { $eq: "Hello" } }, { views: { $gt: 10 } }],
+      });
+      expect(filter.not(title).toJSON()).toEqual({
+        $not: { title: { $eq: "Hello" } },
+      });
+    });
+
+    it("should flatten chained combinations", () => {
+      const status = filter.field("status").eq("draft");
+
+      expect(status.or(status).or(status).toJSON()).toEqual({
+        $or: [
+          { status: { $eq: "draft" } },
+          { status: { $eq: "draft" } },
+          { status: { $eq: "draft" } },
+        ],
+      });
+    });
+
+    it("should build relation and collection filters", () => {
+      expect(
+        filter
+          .relation("author", (author) => author.field("name").eq("John"))
+          .toJSON()
+      ).toEqual({
+        author: { name: { $eq: "John" } },
+      });
+      expect(
+        filter
+          .some("comments", (comments) =>
+            comments
+              .field("likes")
+              .gte(10)
+              .and(comments.field("isApproved").eq(true))
+          )
+          .toJSON()
+      ).toEqual({
+        comments: {
+          $some: {
+            $and: [{ likes: { $gte: 10 } }, { isApproved: { $eq: true } }],
+          },
+        },
+      });
+      expect(
+        filter
+          .none("comments", (comments) =>
+            comments.field("isApproved").eq(false)
+          )
+          .toJSON()
+      ).toEqual({
+        comments: { $none: { isApproved: { $eq: false } } },
+      });
+    });
+
+    it("should not modify combined filters", () => {
+      const views = filter.field("views").gt(10);
+      views.lt(20);
+      views.and(filter.field("title").eq("a"));
+
+      expect(views.toJSON()).toEqual({ views: { $gt: 10 } });
+    });
+  });
+
+  describe("Serialization", () => {
+    it("should serialize to JSON", () => {
+      const expression = filter
+        .field("publishedAt")
+        .gte(new Date("2024-01-01T00:00:00.000Z"));
+
+      expect(JSON.stringify(expression)).toBe(
+        '{"publishedAt":{"$gte":"2024-01-01T00:00:00.000Z"}}'
+      );
+    });
+
+    it("should serialize to query strings", () => {
+      const expression = filter
+        .field("views")
+        .gte(18)
+        .or(filter.field("title").in(["John", "Jane"]));
+
+      expect(expression.toQueryString("filter")).toBe(
+        "filter[$or][0][views][$gte]=18&filter[$or][1][title][$in][0]=John&filter[$or][1][title][$in][1]=Jane"
+      );
+    });
+  });
+
+  describe("Query string round trip", () => {
+    const queryStringSchema = builder.buildQueryStringSchema(
+      { key: "filter" },
+      { roles: [] }
+    );
+
+    it.each([
+      ["field conditions", filter.field("views").gte(10).lt(100)],
+      [
+        "null values",
+        filter.field("publishedAt").eq(null).or(filter.field("title").ne(null)),
+      ],
+      [
+        "array values",
+        filter.field("tags").contains(["orm", "null value"]).nin(["", "a&b"]),
+      ],
+      [
+        "dates",
+        filter.field("publishedAt").gte(new Date("2024-01-01T00:00:00.000Z")),
+      ],
+      [
+        "nested filters",
+        filter
+          .every("comments", (comments) =>
+            comments.field("isApproved").eq(false)
+          )
+          .not(),
+      ],
+    ])("should send the filter it built with %s", (_, expression) => {
+      expect(
+        queryStringSchema.parse(expression.toQueryString("filter"))
+      ).toEqual(schema.parse(JSON.parse(JSON.stringify(expression))));
+    });
+
+    it("should reject values that cannot be represented in a query string", () => {
+      expect(() => filter.field("title").in([])).toThrow(
+        'Operator "$in" of field "title" requires at least one value'
+      );
+      expect(() => filter.field("tags").contains([])).toThrow(
+        'Operator "$contains" of field "tags" requires at least one value'
+      );
+      expect(() =>
+        filter.field("title").eq("null").toQueryString("filter")
+      ).toThrow(
+        'Cannot serialize the string "null" at "filter[title][$eq]", it would be read as null'
+      );
+    });
+  });
+
+  describe("Validation", () => {
+    it("should reject unknown fields and relations", () => {
+      const untyped = new FilterClient(
+        builder.toClientDefinition({ roles: [] })
+      );
+
+      expect(() => untyped.field("secret")).toThrow('Unknown field "secret"');
+      expect(() =>
+        untyped.relation("comments", (comments) =>
+          comments.field("likes").eq(1)
+        )
+      ).toThrow('Unknown relation "comments"');
+      expect(() =>
+        untyped.some("author", (author) => author.field("name").eq("a"))
+      ).toThrow('Unknown collection "author"');
+    });
+
+    it("should reject operators the field does not accept", () => {
+      const untyped = new FilterClient(
+        builder.toClientDefinition({ roles: [] })
+      );
+
+      expect(() => untyped.field("views").in([1])).toThrow(
+        'Operator "$in" is not allowed for field "views"'
+      );
+      expect(() => untyped.field("title").gt("a")).toThrow(
+        'Operator "$gt" is not allowed for field "title"'
+      );
+    });
+
+    it("should reject invalid values", () => {
+      const untyped = new FilterClient(
+        builder.toClientDefinition({ roles: [] })
+      );
+
+      expect(() => untyped.field("status").eq("archived")).toThrow(
+        'Invalid value for operator "$eq" of field "status"'
+      );
+      expect(() => untyped.field("status").eq(null)).toThrow(
+        'Invalid value for operator "$eq" of field "status"'
+      );
+      expect(() => untyped.field("views").gt(NaN)).toThrow(
+        'Invalid value for operator "$gt" of field "views"'
+      );
+      expect(() => untyped.field("views").gt("1")).toThrow(
+        'Invalid value for operator "$gt" of field "views"'
+      );
+      expect(() => untyped.field("tags").contains([null])).toThrow(
+        'Invalid value for operator "$contains" of field "tags"'
+      );
+      expect(() => untyped.field("publishedAt").gte("2024-02-30")).toThrow(
+        'Invalid value for operator "$gte" of field "publishedAt"'
+      );
+      expect(untyped.field("publishedAt").gte("now-7d").toJSON()).toEqual({
+        publishedAt: { $gte: "now-7d" },
+      });
+    });
+
+    it("should reject too many array values", () => {
+      const limited = createPostBuilder({ maxArrayLength: 2 });
+      const client = new FilterClient(
+        limited.toClientDefinition({ roles: [] })
+      );
+
+      expect(() => client.field("tags").in(["a", "b", "c"])).toThrow(
+        'Operator "$in" of field "tags" cannot have more than 2 values'
+      );
+    });
+
+    it("should reject leading wildcards and multiple pattern operators", () => {
+      expect(() => filter.field("title").like("%orm")).toThrow(
+        'Leading wildcards are not allowed for field "title"'
+      );
+      expect(() => filter.field("title").like("orm%").ilike("orm%")).toThrow(
+        'Only one pattern operator can be used per condition on field "title"'
+      );
+    });
+
+    it("should reject conditions without operators", () => {
+      expect(() => filter.field("title").toJSON()).toThrow(
+        'Field "title" has no conditions'
+      );
+    });
+
+    it("should enforce the limits when serializing", () => {
+      const client = new FilterClient<PostFilter>(
+        createPostBuilder({
+          maxDepth: 1,
+          maxOrBranches: 2,
+          maxConditions: 1,
+          maxTotalConditions: 2,
+          maxCost: 10,
+        }).toClientDefinition({ roles: [] })
+      );
+      const views = client.field("views").gt(1);
+
+      expect(() => views.or(views, views).toJSON()).toThrow(
+        "$or cannot have more than 2 branches"
+      );
+      expect(() => views.not().not().toJSON()).toThrow(
+        "Filter cannot be nested more than 1 levels"
+      );
+      expect(() =>
+        client
+          .relation("author", (author) =>
+            author.field("name").eq("a").or(author.field("name").eq("b"))
+          )
+          .toJSON()
+      ).toThrow("Filter cannot be nested more than 1 levels");
+      expect(() => views.and(views, views).toJSON()).toThrow(
+        "Filter cannot have more than 2 conditions in total, got 3"
+      );
+      expect(() =>
+        client.field("title").fulltext("orm").eq("a").toJSON()
+      ).toThrow("Filter cost 11 exceeds the maximum cost of 10");
+    });
+  });
+
+  describe("Server conformance", () => {
+    const queryStringSchema = builder.buildQueryStringSchema(
+      { key: "filter" },
+      { roles: [] }
+    );
+
+    it.each([
+      ["field conditions", filter.field("views").gte(10).lt(100)],
+      [
+        "enum values",
+        filter.field("status").in(["draft", "published"]).ne("draft"),
+      ],
+      ["array operators", filter.field("tags").contains(["orm"]).nin([null])],
+      [
+        "dates",
+        filter
+          .field("publishedAt")
+          .gte(new Date("2024-01-01"))
+          .lt("2025-01-01T10:00")
+          .ne("now-1d"),
+      ],
+      ["patterns", filter.field("title").like("orm%").fulltext("mikro")],
+      [
+        "logical operators",
+        filter.or(
+          filter.field("title").eq("a"),
+          filter.field("views").gt(1).not()
+        ),
+      ],
+      [
+        "relations",
+        filter.relation("author", (author) => author.field("name").eq("John")),
+      ],
+      [
+        "collections",
+        filter.every("comments", (comments) => comments.field("likes").gte(1)),
+      ],
+    ])("should pass the server schema with %s", (_, expression) => {
+      expect(
+        schema.safeParse(JSON.parse(JSON.stringify(expression))).success
+      ).toBe(true);
+      expect(
+        queryStringSchema.safeParse(expression.toQueryString("filter")).success
+      ).toBe(true);
+    });
+  });
+
+  describe("Types", () => {
+    it("should type field names, operators and values", () => {
+      const expressions = [
+        // @ts-expect-error unknown field
+        () => filter.field("content"),
+        // @ts-expect-error $gt is not accepted by string fields
+        () => filter.field("title").gt("a"),
+        // @ts-expect-error the value is not one of the enum values
+        () => filter.field("status").eq("archived"),
+        // @ts-expect-error $in is excluded
+        () => filter.field("views").in([1]),
+        // @ts-expect-error the nested field is not added
+        () => filter.relation("author", (author) => author.field("age").eq(1)),
+      ];
+
+      expect(
+        expressions.every((expression) => typeof expression === "function")
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,342 @@
+import { FilterQuerySchemaBuilder } from "../src/filter-query-schema-builder.js";
+import { FindOptionsSchemaBuilder } from "../src/find-options-schema-builder.js";
+import type { PaginationOptions } from "../src/interfaces/pagination-options.interface.js";
+import { OrderBySchemaBuilder } from "../src/order-by-schema-builder.js";
+import { DEFAULT_FILTER_MESSAGES } from "../src/utils/index.js";
+
+interface Post {
+  id: number;
+  title: string;
+  content: string;
+  createdAt: Date;
+  author: { name: string };
+}
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+describe("FindOptionsSchemaBuilder", () => {
+  function createFilterBuilder() {
+    return new FilterQuerySchemaBuilder<Post>()
+      .addField({ field: "id", type: "number" })
+      .addField({ field: "title", type: "string" })
+      .addField({ field: "content", type: "string", sortable: false })
+      .addField({ field: "createdAt", type: "date" })
+      .addField({
+        field: "authorName",
+        type: "string",
+        replacement: "author.name",
+      });
+  }
+
+  function createSchema(options?: Partial<PaginationOptions>) {
+    return new FindOptionsSchemaBuilder(createFilterBuilder(), options).build();
+  }
+
+  describe("Offset pagination", () => {
+    const schema = createSchema();
+
+    it("should validate filter, orderBy, limit and offset", () => {
+      expect(
+        schema.parse({
+          filter: { authorName: "John" },
+          orderBy: "-createdAt,id",
+          limit: 10,
+          offset: 20,
+        })
+      ).toEqual({
+        filter: { author: { name: "John" } },
+        orderBy: [{ createdAt: "desc" }, { id: "asc" }],
+        limit: 10,
+        offset: 20,
+      });
+    });
+
+    it("should apply defaults", () => {
+      expect(schema.parse({})).toEqual({ filter: {}, limit: 20 });
+    });
+
+    it("should coerce numeric strings", () => {
+      expect(schema.parse({ limit: "5", offset: "10" })).toEqual({
+        filter: {},
+        limit: 5,
+        offset: 10,
+      });
+    });
+
+    it("should reject invalid page sizes", () => {
+      expect(schema.safeParse({ limit: 0 }).success).toBe(false);
+      expect(schema.safeParse({ limit: 101 }).success).toBe(false);
+      expect(schema.safeParse({ limit: 1.5 }).success).toBe(false);
+      expect(schema.safeParse({ limit: "abc" }).success).toBe(false);
+      expect(schema.safeParse({ offset: -1 }).success).toBe(false);
+    });
+
+    it("should reject invalid filters and sort orders", () => {
+      const result = schema.safeParse({
+        filter: { unknown: 1 },
+        orderBy: "content",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues.map((issue) => issue.path[0])).toEqual([
+        "filter",
+        "orderBy",
+      ]);
+    });
+
+    it("should reject cursors and unknown keys", () => {
+      expect(schema.safeParse({ after: encode([1]) }).success).toBe(false);
+      expect(schema.safeParse({ page: 2 }).success).toBe(false);
+    });
+
+    it("should respect maxLimit and defaultLimit", () => {
+      const limited = createSchema({ maxLimit: 10, defaultLimit: 50 });
+
+      expect(limited.parse({})).toEqual({ filter: {}, limit: 10 });
+      expect(limited.safeParse({ limit: 11 }).success).toBe(false);
+    });
+  });
+
+  describe("Default sort order", () => {
+    it("should use defaultOrderBy when orderBy is omitted or empty", () => {
+      const schema = createSchema({ defaultOrderBy: ["-createdAt", "id"] });
+
+      expect(schema.parse({}).orderBy).toEqual([
+        { createdAt: "desc" },
+        { id: "asc" },
+      ]);
+      expect(schema.parse({ orderBy: "" }).orderBy).toEqual([
+        { createdAt: "desc" },
+        { id: "asc" },
+      ]);
+      expect(schema.parse({ orderBy: "title" }).orderBy).toEqual([
+        { title: "asc" },
+      ]);
+    });
+
+    it("should validate defaultOrderBy when building", () => {
+      expect(() => createSchema({ defaultOrderBy: "content" })).toThrow(
+        /Field .+content.+ is not sortable/
+      );
+    });
+  });
+
+  describe("Cursor pagination", () => {
+    const schema = createSchema({
+      pagination: "cursor",
+      defaultOrderBy: ["-createdAt", "id"],
+    });
+
+    it("should output the first page", () => {
+      expect(schema.parse({ limit: 10 })).toEqual({
+        filter: {},
+        orderBy: [{ createdAt: "desc" }, { id: "asc" }],
+        first: 10,
+      });
+    });
+
+    it("should output pages after a cursor", () => {
+      const after = encode(["2024-01-01T00:00:00.000Z", 5]);
+
+      expect(schema.parse({ filter: { title: "ORM" }, after })).toEqual({
+        filter: { title: "ORM" },
+        orderBy: [{ createdAt: "desc" }, { id: "asc" }],
+        first: 20,
+        after,
+      });
+    });
+
+    it("should output pages before a cursor", () => {
+      const before = encode(["2024-01-01T00:00:00.000Z", 5]);
+
+      expect(schema.parse({ limit: 5, before })).toEqual({
+        filter: {},
+        orderBy: [{ createdAt: "desc" }, { id: "asc" }],
+        last: 5,
+        before,
+      });
+    });
+
+    it("should reject cursors of other sort orders", () => {
+      const result = schema.safeParse({
+        orderBy: "title",
+        after: encode(["2024-01-01T00:00:00.000Z", 5]),
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe(
+        "Cursor does not match the sort fields: title"
+      );
+      expect(result.error?.issues[0].path).toEqual(["after"]);
+    });
+
+    it("should match relation values of cursors", () => {
+      const cursor = encode([{ name: "John" }, 5]);
+
+      expect(
+        schema.safeParse({ orderBy: "authorName,id", after: cursor }).success
+      ).toBe(true);
+      expect(
+        schema.safeParse({ orderBy: "title,id", after: cursor }).success
+      ).toBe(false);
+      expect(
+        schema.safeParse({
+          orderBy: "authorName,id",
+          after: encode(["John", 5]),
+        }).success
+      ).toBe(false);
+    });
+
+    it("should reject invalid cursors", () => {
+      const result = schema.safeParse({ before: "not a cursor" });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe("Invalid cursor");
+      expect(result.error?.issues[0].path).toEqual(["before"]);
+    });
+
+    it("should reject combined cursors", () => {
+      const cursor = encode(["2024-01-01T00:00:00.000Z", 5]);
+      const result = schema.safeParse({ after: cursor, before: cursor });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe(
+        "Cannot combine after and before cursors"
+      );
+    });
+
+    it("should reject offsets", () => {
+      expect(schema.safeParse({ offset: 10 }).success).toBe(false);
+    });
+
+    it("should require a sort order", () => {
+      const result = createSchema({ pagination: "cursor" }).safeParse({
+        limit: 10,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe(
+        "Cursor pagination requires orderBy"
+      );
+      expect(result.error?.issues[0].path).toEqual(["orderBy"]);
+    });
+  });
+
+  describe("Order-by builder", () => {
+    it("should use the order-by builder set with withOrderBy", () => {
+      const schema = new FindOptionsSchemaBuilder(createFilterBuilder())
+        .withOrderBy(
+          new OrderBySchemaBuilder<Post>().addField({ field: "content" })
+        )
+        .build();
+
+      expect(schema.parse({ orderBy: "-content" }).orderBy).toEqual([
+        { content: "desc" },
+      ]);
+      expect(schema.safeParse({ orderBy: "title" }).success).toBe(false);
+    });
+
+    it("should include fields added to the filter builder before building", () => {
+      const filterBuilder = createFilterBuilder();
+      const builder = new FindOptionsSchemaBuilder(filterBuilder);
+      filterBuilder.addField({
+        field: "published",
+        type: "boolean",
+        replacement: "author.name",
+      });
+
+      expect(builder.build().parse({ orderBy: "published" }).orderBy).toEqual([
+        { author: { name: "asc" } },
+      ]);
+    });
+  });
+
+  describe("Async", () => {
+    it("should resolve async replacements of the filter", async () => {
+      const filterBuilder = createFilterBuilder().addField({
+        field: "authorSlug",
+        type: "string",
+        replacement: async ({ value }) => ({
+          author: { name: (value as string).toUpperCase() },
+        }),
+      });
+      const schema = new FindOptionsSchemaBuilder(filterBuilder).buildAsync();
+
+      await expect(
+        schema.parseAsync({ filter: { authorSlug: "john" }, limit: "5" })
+      ).resolves.toEqual({
+        filter: { author: { name: "JOHN" } },
+        limit: 5,
+      });
+    });
+  });
+
+  describe("Messages", () => {
+    const messages = Object.fromEntries(
+      Object.keys(DEFAULT_FILTER_MESSAGES).map((code) => [
+        code,
+        `${code}: {option}{limit}{fields}`,
+      ])
+    );
+    const cursor = encode(["2024-01-01T00:00:00.000Z", 5]);
+
+    it.each([
+      ["unknown_option", "offset", { page: 2 }, "unknown_option: page"],
+      ["invalid_limit", "offset", { limit: 500 }, "invalid_limit: 100"],
+      ["invalid_limit", "offset", { limit: "ten" }, "invalid_limit: 100"],
+      ["invalid_offset", "offset", { offset: -1 }, "invalid_offset: "],
+      [
+        "invalid_cursor",
+        "cursor",
+        { orderBy: "id", after: 5 },
+        "invalid_cursor: ",
+      ],
+      [
+        "invalid_cursor",
+        "cursor",
+        { orderBy: "id", after: "not a cursor" },
+        "invalid_cursor: after",
+      ],
+      [
+        "cursor_mismatch",
+        "cursor",
+        { orderBy: "title", before: cursor },
+        'cursor_mismatch: before"title"',
+      ],
+      [
+        "cursors_combined",
+        "cursor",
+        { orderBy: "-createdAt,id", after: cursor, before: cursor },
+        "cursors_combined: ",
+      ],
+      ["order_by_required", "cursor", { limit: 10 }, "order_by_required: "],
+      [
+        "field_not_sortable",
+        "offset",
+        { orderBy: "content" },
+        "field_not_sortable: ",
+      ],
+    ] as const)(
+      "should use the %s message of the catalog",
+      (_, pagination, input, message) => {
+        const result = createSchema({ pagination, messages }).safeParse(input);
+
+        expect(result.error?.issues.map((issue) => issue.message)).toContain(
+          message
+        );
+      }
+    );
+
+    it("should keep the messages of the filter builder for the filter", () => {
+      const result = createSchema({ messages }).safeParse({
+        filter: { titel: "Hello" },
+      });
+
+      expect(result.error?.issues[0].message).toBe(
+        'Unknown field "titel", did you mean "title"?'
+      );
+    });
+  });
+});
@@ -1,5 +1,21 @@
+import type { z } from "zod";
+
 import { FilterQuerySchemaBuilder } from "../src/filter-query-schema-builder.js";
 import type { FilterOptions } from "../src/interfaces/filter-options.interface.js";
+import type { FilterMessageCatalog } from "../src/types/index.js";
+import {
+  compileFilterPredicate,
+  compileMikroOrmFilter,
+  compileMongoFilter,
+  DEFAULT_FILTER_MESSAGES,
+} from "../src/utils/index.js";
+import { RELATIVE_DATE_PATTERN } from "../src/utils/parse-relative-date.js";
+import {
+  getEntityMetadata,
+  Post,
+  PostStatus,
+  User as UserEntity,
+} from "./entities/index.js";
 
 interface User {
   id: number;
@@ -46,26 +62,42 @@ describe("FilterQuerySchemaBuilder", () => {
     it("should validate array operators", () => {
       expect(schema.safeParse({ id: { $in: [1, 2, 3] } }).success).toBe(true);
       expect(schema.safeParse({ id: { $nin: [1, 2, 3] } }).success).toBe(true);
-      expect(schema.safeParse({ roles: { $contains: ["admin"] } }).success).toBe(true);
-      expect(schema.safeParse({ roles: { $overlap: ["admin", "user"] } }).success).toBe(true);
+      expect(
+        schema.safeParse({ roles: { $contains: ["admin"] } }).success
+      ).toBe(true);
+      expect(
+        schema.safeParse({ roles: { $overlap: ["admin", "user"] } }).success
+      ).toBe(true);
     });
 
     it("should reject unsupported operators", () => {
       // $like and $ilike are not supported
-      expect(schema.safeParse({ name: { $like: "%John%" } }).success).toBe(false);
-      expect(schema.safeParse({ name: { $ilike: "%john%" } }).success).toBe(false);
+      expect(schema.safeParse({ name: { $like: "%John%" } }).success).toBe(
+        false
+      );
+      expect(schema.safeParse({ name: { $ilike: "%john%" } }).success).toBe(
+        false
+      );
       expect(schema.safeParse({ name: { $regex: ".*" } }).success).toBe(false);
     });
 
     it("should allow $fulltext when fulltext: true is set", () => {
       // name has fulltext: true in createUserBuilder
-      expect(schema.safeParse({ name: { $fulltext: "search term" } }).success).toBe(true);
+      expect(
+        schema.safeParse({ name: { $fulltext: "search term" } }).success
+      ).toBe(true);
     });
 
     it("should validate logical operators", () => {
-      expect(schema.safeParse({ $and: [{ name: "John" }, { age: 25 }] }).success).toBe(true);
-      expect(schema.safeParse({ $or: [{ name: "John" }, { name: "Jane" }] }).success).toBe(true);
-      expect(schema.safeParse({ $not: { isActive: false } }).success).toBe(true);
+      expect(
+        schema.safeParse({ $and: [{ name: "John" }, { age: 25 }] }).success
+      ).toBe(true);
+      expect(
+        schema.safeParse({ $or: [{ name: "John" }, { name: "Jane" }] }).success
+      ).toBe(true);
+      expect(schema.safeParse({ $not: { isActive: false } }).success).toBe(
+        true
+      );
     });
 
     it("should validate nested logical operators", () => {
@@ -77,7 +109,6 @@ describe("FilterQuerySchemaBuilder", () => {
       };
       expect(schema.safeParse(query).success).toBe(true);
     });
-
   });
 
   describe("addField method", () => {
@@ -111,31 +142,41 @@ describe("FilterQuerySchemaBuilder", () => {
     it("should allow array length within limit", () => {
       const schema = createUserBuilder({ maxArrayLength: 5 }).build();
 
-      expect(schema.safeParse({ id: { $in: [1, 2, 3, 4, 5] } }).success).toBe(true);
+      expect(schema.safeParse({ id: { $in: [1, 2, 3, 4, 5] } }).success).toBe(
+        true
+      );
     });
 
     it("should reject $in array exceeding limit", () => {
       const schema = createUserBuilder({ maxArrayLength: 3 }).build();
 
-      expect(schema.safeParse({ id: { $in: [1, 2, 3, 4] } }).success).toBe(false);
+      expect(schema.safeParse({ id: { $in: [1, 2, 3, 4] } }).success).toBe(
+        false
+      );
     });
 
     it("should reject $nin array exceeding limit", () => {
       const schema = createUserBuilder({ maxArrayLength: 3 }).build();
 
-      expect(schema.safeParse({ id: { $nin: [1, 2, 3, 4] } }).success).toBe(false);
+      expect(schema.safeParse({ id: { $nin: [1, 2, 3, 4] } }).success).toBe(
+        false
+      );
     });
 
     it("should reject $contains array exceeding limit", () => {
       const schema = createUserBuilder({ maxArrayLength: 2 }).build();
 
-      expect(schema.safeParse({ roles: { $contains: ["a", "b", "c"] } }).success).toBe(false);
+      expect(
+        schema.safeParse({ roles: { $contains: ["a", "b", "c"] } }).success
+      ).toBe(false);
     });
 
     it("should reject $overlap array exceeding limit", () => {
       const schema = createUserBuilder({ maxArrayLength: 2 }).build();
 
-      expect(schema.safeParse({ roles: { $overlap: ["a", "b", "c"] } }).success).toBe(false);
+      expect(
+        schema.safeParse({ roles: { $overlap: ["a", "b", "c"] } }).success
+      ).toBe(false);
     });
   });
 
@@ -263,7 +304,13 @@ describe("FilterQuerySchemaBuilder", () => {
     it("default maxOrBranches is 5", () => {
       expect(
         schema.safeParse({
-          $or: [{ name: "A" }, { name: "B" }, { name: "C" }, { name: "D" }, { name: "E" }],
+          $or: [
+            { name: "A" },
+            { name: "B" },
+            { name: "C" },
+            { name: "D" },
+            { name: "E" },
+          ],
         }).success
       ).toBe(true);
 
@@ -283,7 +330,9 @@ describe("FilterQuerySchemaBuilder", () => {
 
     it("default maxConditions is 20", () => {
       // Create a builder with many fields
-      const manyFieldsBuilder = new FilterQuerySchemaBuilder<Record<string, unknown>>();
+      const manyFieldsBuilder = new FilterQuerySchemaBuilder<
+        Record<string, unknown>
+      >();
       for (let i = 0; i < 21; i++) {
         manyFieldsBuilder.addField({ field: `field${i}`, type: "string" });
       }
@@ -346,7 +395,9 @@ describe("FilterQuerySchemaBuilder", () => {
 
     it("should reject invalid primitive value types", () => {
       // Objects are not valid primitive values (unless operator objects)
-      expect(schema.safeParse({ name: { invalid: "object" } }).success).toBe(false);
+      expect(schema.safeParse({ name: { invalid: "object" } }).success).toBe(
+        false
+      );
       // Arrays are not valid primitive values (unless using operators)
       expect(schema.safeParse({ name: ["array"] }).success).toBe(false);
     });
@@ -357,11 +408,15 @@ describe("FilterQuerySchemaBuilder", () => {
       // $gt should be a number or string
       expect(schema.safeParse({ age: { $gt: null } }).success).toBe(false);
       // $in should be an array
-      expect(schema.safeParse({ id: { $in: "not-array" } }).success).toBe(false);
+      expect(schema.safeParse({ id: { $in: "not-array" } }).success).toBe(
+        false
+      );
     });
 
     it("should reject unknown operators", () => {
-      expect(schema.safeParse({ name: { $unknown: "value" } }).success).toBe(false);
+      expect(schema.safeParse({ name: { $unknown: "value" } }).success).toBe(
+        false
+      );
       expect(schema.safeParse({ age: { $regex: ".*" } }).success).toBe(false);
     });
 
@@ -383,21 +438,27 @@ describe("FilterQuerySchemaBuilder", () => {
       expect(schema.safeParse({ age: "25" }).success).toBe(false);
       expect(schema.safeParse({ age: { $eq: "25" } }).success).toBe(false);
       expect(schema.safeParse({ age: { $gt: "18" } }).success).toBe(false);
-      expect(schema.safeParse({ age: { $in: ["25", "30"] } }).success).toBe(false);
+      expect(schema.safeParse({ age: { $in: ["25", "30"] } }).success).toBe(
+        false
+      );
     });
 
     it("should reject number values for string fields", () => {
       // name is string type, should not accept numbers
       expect(schema.safeParse({ name: 123 }).success).toBe(false);
       expect(schema.safeParse({ name: { $eq: 123 } }).success).toBe(false);
-      expect(schema.safeParse({ name: { $in: [123, 456] } }).success).toBe(false);
+      expect(schema.safeParse({ name: { $in: [123, 456] } }).success).toBe(
+        false
+      );
     });
 
     it("should reject non-boolean values for boolean fields", () => {
       // isActive is boolean type
       expect(schema.safeParse({ isActive: "true" }).success).toBe(false);
       expect(schema.safeParse({ isActive: 1 }).success).toBe(false);
-      expect(schema.safeParse({ isActive: { $eq: "true" } }).success).toBe(false);
+      expect(schema.safeParse({ isActive: { $eq: "true" } }).success).toBe(
+        false
+      );
     });
 
     it("should accept values of correct types", () => {
@@ -410,12 +471,16 @@ describe("FilterQuerySchemaBuilder", () => {
       // String fields accept strings
       expect(schema.safeParse({ name: "John" }).success).toBe(true);
       expect(schema.safeParse({ name: { $eq: "John" } }).success).toBe(true);
-      expect(schema.safeParse({ name: { $in: ["John", "Jane"] } }).success).toBe(true);
+      expect(
+        schema.safeParse({ name: { $in: ["John", "Jane"] } }).success
+      ).toBe(true);
 
       // Boolean fields accept booleans
       expect(schema.safeParse({ isActive: true }).success).toBe(true);
       expect(schema.safeParse({ isActive: { $eq: false } }).success).toBe(true);
-      expect(schema.safeParse({ isActive: { $in: [true, false] } }).success).toBe(true);
+      expect(
+        schema.safeParse({ isActive: { $in: [true, false] } }).success
+      ).toBe(true);
     });
 
     it("should allow null values for any type", () => {
@@ -426,12 +491,30 @@ describe("FilterQuerySchemaBuilder", () => {
       expect(schema.safeParse({ age: { $in: [25, null] } }).success).toBe(true);
     });
 
+    it("should reject null values for fields with nullable: false", () => {
+      const schema = new FilterQuerySchemaBuilder<User>()
+        .addField({ field: "name", type: "string", nullable: false })
+        .build();
+
+      expect(schema.safeParse({ name: null }).success).toBe(false);
+      expect(schema.safeParse({ name: { $eq: null } }).success).toBe(false);
+      expect(schema.safeParse({ name: { $ne: null } }).success).toBe(false);
+      expect(schema.safeParse({ name: { $in: ["John", null] } }).success).toBe(
+        false
+      );
+      expect(schema.safeParse({ name: { $in: ["John"] } }).success).toBe(true);
+    });
+
     it("should not support comparison operators for boolean type", () => {
       // boolean type does not support $gt, $gte, $lt, $lte
       expect(schema.safeParse({ isActive: { $gt: true } }).success).toBe(false);
-      expect(schema.safeParse({ isActive: { $gte: false } }).success).toBe(false);
+      expect(schema.safeParse({ isActive: { $gte: false } }).success).toBe(
+        false
+      );
       expect(schema.safeParse({ isActive: { $lt: true } }).success).toBe(false);
-      expect(schema.safeParse({ isActive: { $lte: false } }).success).toBe(false);
+      expect(schema.safeParse({ isActive: { $lte: false } }).success).toBe(
+        false
+      );
     });
 
     it("should not support comparison operators for string fields", () => {
@@ -444,44 +527,78 @@ describe("FilterQuerySchemaBuilder", () => {
 
     it("should not support array operators for non-array fields", () => {
       // name is not an array field, does not support $contains, $overlap
-      expect(schema.safeParse({ name: { $contains: ["John"] } }).success).toBe(false);
-      expect(schema.safeParse({ name: { $overlap: ["John", "Jane"] } }).success).toBe(false);
+      expect(schema.safeParse({ name: { $contains: ["John"] } }).success).toBe(
+        false
+      );
+      expect(
+        schema.safeParse({ name: { $overlap: ["John", "Jane"] } }).success
+      ).toBe(false);
     });
 
     it("should support array operators for array fields", () => {
       // roles is an array field, supports $contains, $overlap
-      expect(schema.safeParse({ roles: { $contains: ["admin"] } }).success).toBe(true);
-      expect(schema.safeParse({ roles: { $overlap: ["admin", "user"] } }).success).toBe(true);
+      expect(
+        schema.safeParse({ roles: { $contains: ["admin"] } }).success
+      ).toBe(true);
+      expect(
+        schema.safeParse({ roles: { $overlap: ["admin", "user"] } }).success
+      ).toBe(true);
     });
 
     it("should allow $fulltext for fields with fulltext: true", () => {
       // name has fulltext: true in createUserBuilder, so $fulltext should be allowed
-      expect(schema.safeParse({ name: { $fulltext: "search" } }).success).toBe(true);
+      expect(schema.safeParse({ name: { $fulltext: "search" } }).success).toBe(
+        true
+      );
     });
 
     it("should not allow $fulltext for non-string fields", () => {
       // $fulltext is not valid for non-string fields like number
-      expect(schema.safeParse({ age: { $fulltext: "search" } }).success).toBe(false);
+      expect(schema.safeParse({ age: { $fulltext: "search" } }).success).toBe(
+        false
+      );
     });
 
     it("should accept ISO date strings for date fields", () => {
       // Full ISO format with timezone
-      expect(schema.safeParse({ createdAt: "2024-01-15T10:30:00Z" }).success).toBe(true);
-      expect(schema.safeParse({ createdAt: { $eq: "2024-01-15T10:30:00Z" } }).success).toBe(true);
-      expect(schema.safeParse({ createdAt: { $gt: "2024-01-01T00:00:00Z" } }).success).toBe(true);
-      expect(schema.safeParse({ createdAt: { $gte: "2024-01-01T00:00:00Z" } }).success).toBe(true);
-      expect(schema.safeParse({ createdAt: { $lt: "2024-12-31T23:59:59Z" } }).success).toBe(true);
-      expect(schema.safeParse({ createdAt: { $lte: "2024-12-31T23:59:59Z" } }).success).toBe(true);
+      expect(
+        schema.safeParse({ createdAt: "2024-01-15T10:30:00Z" }).success
+      ).toBe(true);
+      expect(
+        schema.safeParse({ createdAt: { $eq: "2024-01-15T10:30:00Z" } }).success
+      ).toBe(true);
+      expect(
+        schema.safeParse({ createdAt: { $gt: "2024-01-01T00:00:00Z" } }).success
+      ).toBe(true);
+      expect(
+        schema.safeParse({ createdAt: { $gte: "2024-01-01T00:00:00Z" } })
+          .success
+      ).toBe(true);
+      expect(
+        schema.safeParse({ createdAt: { $lt: "2024-12-31T23:59:59Z" } }).success
+      ).toBe(true);
+      expect(
+        schema.safeParse({ createdAt: { $lte: "2024-12-31T23:59:59Z" } })
+          .success
+      ).toBe(true);
 
       // ISO format with timezone offset
-      expect(schema.safeParse({ createdAt: "2024-01-15T10:30:00+08:00" }).success).toBe(true);
-      expect(schema.safeParse({ createdAt: "2024-01-15T10:30:00-05:00" }).success).toBe(true);
+      expect(
+        schema.safeParse({ createdAt: "2024-01-15T10:30:00+08:00" }).success
+      ).toBe(true);
+      expect(
+        schema.safeParse({ createdAt: "2024-01-15T10:30:00-05:00" }).success
+      ).toBe(true);
 
       // ISO format with milliseconds
-      expect(schema.safeParse({ createdAt: "2024-01-15T10:30:00.123Z" }).success).toBe(true);
+      expect(
+        schema.safeParse({ createdAt: "2024-01-15T10:30:00.123Z" }).success
+      ).toBe(true);
 
       // ISO format without timezone (local time)
-      expect(schema.safeParse({ createdAt: "2024-01-15T10:30:00" }).success).toBe(true);
+      expect(
+        schema.safeParse({ createdAt: "2024-01-15T10:30:00" }).success
+      ).toBe(true);
 
       // Date only format
       expect(schema.safeParse({ createdAt: "2024-01-15" }).success).toBe(true);
@@ -533,9 +650,7 @@ describe("FilterQuerySchemaBuilder", () => {
         schema.safeParse({
           $and: [
             {
-              $or: [
-                { name: { $unknown: "value" } },
-              ],
+              $or: [{ name: { $unknown: "value" } }],
             },
           ],
         }).success
@@ -607,7 +722,11 @@ describe("FilterQuerySchemaBuilder", () => {
       const schema = new FilterQuerySchemaBuilder<Post>()
         .addField({ field: "id", type: "number" })
         .addField({ field: "title", type: "string" })
-        .addField({ field: "authorName", type: "string", replacement: "author.name" })
+        .addField({
+          field: "authorName",
+          type: "string",
+          replacement: "author.name",
+        })
         .build();
 
       const result = schema.parse({ authorName: "John" });
@@ -616,7 +735,11 @@ describe("FilterQuerySchemaBuilder", () => {
 
     it("should replace field name in comparison operators", () => {
       const schema = new FilterQuerySchemaBuilder<Post>()
-        .addField({ field: "authorAge", type: "number", replacement: "author.age" })
+        .addField({
+          field: "authorAge",
+          type: "number",
+          replacement: "author.age",
+        })
         .build();
 
       const result = schema.parse({ authorAge: { $gte: 18 } });
@@ -626,7 +749,11 @@ describe("FilterQuerySchemaBuilder", () => {
     it("should recursively replace field names in $and", () => {
       const schema = new FilterQuerySchemaBuilder<Post>()
         .addField({ field: "title", type: "string" })
-        .addField({ field: "authorName", type: "string", replacement: "author.name" })
+        .addField({
+          field: "authorName",
+          type: "string",
+          replacement: "author.name",
+        })
         .build();
 
       const result = schema.parse({
@@ -639,7 +766,11 @@ describe("FilterQuerySchemaBuilder", () => {
 
     it("should recursively replace field names in $or", () => {
       const schema = new FilterQuerySchemaBuilder<Post>()
-        .addField({ field: "authorName", type: "string", replacement: "author.name" })
+        .addField({
+          field: "authorName",
+          type: "string",
+          replacement: "author.name",
+        })
         .build();
 
       const result = schema.parse({
@@ -652,7 +783,11 @@ describe("FilterQuerySchemaBuilder", () => {
 
     it("should recursively replace field names in $not", () => {
       const schema = new FilterQuerySchemaBuilder<Post>()
-        .addField({ field: "authorName", type: "string", replacement: "author.name" })
+        .addField({
+          field: "authorName",
+          type: "string",
+          replacement: "author.name",
+        })
         .build();
 
       const result = schema.parse({
@@ -665,8 +800,16 @@ describe("FilterQuerySchemaBuilder", () => {
 
     it("should replace field names in deeply nested structures", () => {
       const schema = new FilterQuerySchemaBuilder<Post>()
-        .addField({ field: "authorName", type: "string", replacement: "author.name" })
-        .addField({ field: "authorAge", type: "number", replacement: "author.age" })
+        .addField({
+          field: "authorName",
+          type: "string",
+          replacement: "author.name",
+        })
+        .addField({
+          field: "authorAge",
+          type: "number",
+          replacement: "author.age",
+        })
         .build();
 
       const result = schema.parse({
@@ -691,7 +834,11 @@ describe("FilterQuerySchemaBuilder", () => {
       const schema = new FilterQuerySchemaBuilder<Post>()
         .addField({ field: "id", type: "number" })
         .addField({ field: "title", type: "string" })
-        .addField({ field: "authorName", type: "string", replacement: "author.name" })
+        .addField({
+          field: "authorName",
+          type: "string",
+          replacement: "author.name",
+        })
         .build();
 
       const result = schema.parse({
@@ -879,10 +1026,7 @@ describe("FilterQuerySchemaBuilder", () => {
 
       const result = schema.parse({ tagSearch: { $in: ["a", "b"] } });
       expect(result).toEqual({
-        $or: [
-          { tags: { $contains: ["a"] } },
-          { tags: { $contains: ["b"] } },
-        ],
+        $or: [{ tags: { $contains: ["a"] } }, { tags: { $contains: ["b"] } }],
       });
     });
   });
@@ -900,7 +1044,9 @@ describe("FilterQuerySchemaBuilder", () => {
         .addField({ field: "title", type: "string", fulltext: true })
         .build();
 
-      expect(schema.safeParse({ title: { $fulltext: "search term" } }).success).toBe(true);
+      expect(
+        schema.safeParse({ title: { $fulltext: "search term" } }).success
+      ).toBe(true);
       const result = schema.parse({ title: { $fulltext: "search term" } });
       expect(result).toEqual({ title: { $fulltext: "search term" } });
     });
@@ -910,7 +1056,9 @@ describe("FilterQuerySchemaBuilder", () => {
         .addField({ field: "title", type: "string" })
         .build();
 
-      expect(schema.safeParse({ title: { $fulltext: "search term" } }).success).toBe(false);
+      expect(
+        schema.safeParse({ title: { $fulltext: "search term" } }).success
+      ).toBe(false);
     });
 
     it("should allow both $fulltext and other operators for fulltext fields", () => {
@@ -919,12 +1067,18 @@ describe("FilterQuerySchemaBuilder", () => {
         .build();
 
       // $fulltext should work
-      expect(schema.safeParse({ title: { $fulltext: "search" } }).success).toBe(true);
+      expect(schema.safeParse({ title: { $fulltext: "search" } }).success).toBe(
+        true
+      );
 
       // Other operators should also work
       expect(schema.safeParse({ title: { $eq: "exact" } }).success).toBe(true);
-      expect(schema.safeParse({ title: { $ne: "excluded" } }).success).toBe(true);
-      expect(schema.safeParse({ title: { $in: ["a", "b"] } }).success).toBe(true);
+      expect(schema.safeParse({ title: { $ne: "excluded" } }).success).toBe(
+        true
+      );
+      expect(schema.safeParse({ title: { $in: ["a", "b"] } }).success).toBe(
+        true
+      );
     });
 
     it("should allow $fulltext in $and", () => {
@@ -974,10 +1128,14 @@ describe("FilterQuerySchemaBuilder", () => {
         .build();
 
       // title has fulltext: true, should allow $fulltext
-      expect(schema.safeParse({ title: { $fulltext: "search" } }).success).toBe(true);
+      expect(schema.safeParse({ title: { $fulltext: "search" } }).success).toBe(
+        true
+      );
 
       // content does not have fulltext: true, should not allow $fulltext
-      expect(schema.safeParse({ content: { $fulltext: "search" } }).success).toBe(false);
+      expect(
+        schema.safeParse({ content: { $fulltext: "search" } }).success
+      ).toBe(false);
     });
 
     it("should not allow $fulltext for number fields", () => {
@@ -985,7 +1143,9 @@ describe("FilterQuerySchemaBuilder", () => {
         .addField({ field: "id", type: "number" })
         .build();
 
-      expect(schema.safeParse({ id: { $fulltext: "search" } }).success).toBe(false);
+      expect(schema.safeParse({ id: { $fulltext: "search" } }).success).toBe(
+        false
+      );
     });
 
     it("should reject invalid value types for $fulltext", () => {
@@ -994,10 +1154,18 @@ describe("FilterQuerySchemaBuilder", () => {
         .build();
 
       // $fulltext should only accept string values
-      expect(schema.safeParse({ title: { $fulltext: 123 } }).success).toBe(false);
-      expect(schema.safeParse({ title: { $fulltext: true } }).success).toBe(false);
-      expect(schema.safeParse({ title: { $fulltext: ["array"] } }).success).toBe(false);
-      expect(schema.safeParse({ title: { $fulltext: { nested: "object" } } }).success).toBe(false);
+      expect(schema.safeParse({ title: { $fulltext: 123 } }).success).toBe(
+        false
+      );
+      expect(schema.safeParse({ title: { $fulltext: true } }).success).toBe(
+        false
+      );
+      expect(
+        schema.safeParse({ title: { $fulltext: ["array"] } }).success
+      ).toBe(false);
+      expect(
+        schema.safeParse({ title: { $fulltext: { nested: "object" } } }).success
+      ).toBe(false);
     });
 
     it("should allow combining $fulltext with other operators", () => {
@@ -1006,7 +1174,10 @@ describe("FilterQuerySchemaBuilder", () => {
         .build();
 
       // Can use multiple operators on the same field
-      expect(schema.safeParse({ title: { $fulltext: "search", $ne: "excluded" } }).success).toBe(true);
+      expect(
+        schema.safeParse({ title: { $fulltext: "search", $ne: "excluded" } })
+          .success
+      ).toBe(true);
     });
 
     it("should not allow $fulltext in nested $and when field does not have fulltext option", () => {
@@ -1015,9 +1186,11 @@ describe("FilterQuerySchemaBuilder", () => {
         .addField({ field: "content", type: "string" })
         .build();
 
-      expect(schema.safeParse({
-        $and: [{ content: { $fulltext: "search" } }]
-      }).success).toBe(false);
+      expect(
+        schema.safeParse({
+          $and: [{ content: { $fulltext: "search" } }],
+        }).success
+      ).toBe(false);
     });
 
     it("should not allow $fulltext in nested $or when field does not have fulltext option", () => {
@@ -1025,9 +1198,14 @@ describe("FilterQuerySchemaBuilder", () => {
         .addField({ field: "content", type: "string" })
         .build();
 
-      expect(schema.safeParse({
-        $or: [{ content: { $fulltext: "foo" } }, { content: { $fulltext: "bar" } }]
-      }).success).toBe(false);
+      expect(
+        schema.safeParse({
+          $or: [
+            { content: { $fulltext: "foo" } },
+            { content: { $fulltext: "bar" } },
+          ],
+        }).success
+      ).toBe(false);
     });
 
     it("should not allow $fulltext in $not when field does not have fulltext option", () => {
@@ -1035,9 +1213,3696 @@ describe("FilterQuerySchemaBuilder", () => {
         .addField({ field: "content", type: "string" })
         .build();
 
-      expect(schema.safeParse({
-        $not: { content: { $fulltext: "excluded" } }
-      }).success).toBe(false);
+      expect(
+        schema.safeParse({
+          $not: { content: { $fulltext: "excluded" } },
+        }).success
+      ).toBe(false);
+    });
+  });
+
+  describe("fromMetadata", () => {
+    const meta = getEntityMetadata(Post);
+
+    it("should add a field for every supported property", () => {
+      const schema = FilterQuerySchemaBuilder.fromMetadata(meta).build();
+
+      expect(
+        schema.safeParse({
+          id: 1,
+          title: "Hello",
+          content: "World",
+          slug: "hello",
+          viewCount: { $gte: 10 },
+          tags: { $contains: ["orm"] },
+          isPublished: true,
+          authorId: { $in: [1, 2] },
+          createdAt: { $gte: new Date() },
+        }).success
+      ).toBe(true);
+    });
+
+    it("should derive field types from metadata", () => {
+      const schema = FilterQuerySchemaBuilder.fromMetadata(meta).build();
+
+      expect(schema.safeParse({ viewCount: "10" }).success).toBe(false);
+      expect(schema.safeParse({ isPublished: "true" }).success).toBe(false);
+      expect(schema.safeParse({ title: { $gt: "a" } }).success).toBe(false);
+      expect(schema.safeParse({ createdAt: "not-a-date" }).success).toBe(false);
+    });
+
+    it("should derive array fields from metadata", () => {
+      const schema = FilterQuerySchemaBuilder.fromMetadata(meta).build();
+
+      expect(schema.safeParse({ tags: { $overlap: ["a", "b"] } }).success).toBe(
+        true
+      );
+      expect(
+        schema.safeParse({ title: { $overlap: ["a", "b"] } }).success
+      ).toBe(false);
+    });
+
+    it("should derive nullability from metadata", () => {
+      const schema = FilterQuerySchemaBuilder.fromMetadata(
+        getEntityMetadata(UserEntity)
+      ).build();
+
+      expect(schema.safeParse({ rating: null }).success).toBe(true);
+      expect(schema.safeParse({ rating: { $ne: null } }).success).toBe(true);
+      expect(schema.safeParse({ name: null }).success).toBe(false);
+      expect(schema.safeParse({ createdAt: { $eq: null } }).success).toBe(
+        false
+      );
+    });
+
+    it("should only add included properties", () => {
+      const schema = FilterQuerySchemaBuilder.fromMetadata(meta, {
+        include: ["title", "tags"],
+      }).build();
+
+      expect(
+        schema.safeParse({ title: "Hello", tags: { $contains: ["orm"] } })
+          .success
+      ).toBe(true);
+      expect(schema.safeParse({ id: 1 }).success).toBe(false);
+    });
+
+    it("should skip excluded properties", () => {
+      const schema = FilterQuerySchemaBuilder.fromMetadata(meta, {
+        exclude: ["content"],
+      }).build();
+
+      expect(schema.safeParse({ title: "Hello" }).success).toBe(true);
+      expect(schema.safeParse({ content: "World" }).success).toBe(false);
+    });
+
+    it("should throw when an included property type cannot be derived", () => {
+      const userMeta = getEntityMetadata(UserEntity);
+
+      expect(() =>
+        FilterQuerySchemaBuilder.fromMetadata(userMeta, {
+          include: ["settings"],
+        })
+      ).toThrow(
+        'Cannot derive a filter field type for property "User.settings"'
+      );
+    });
+
+    it("should skip properties whose union type is not known from reflect-metadata", () => {
+      const schema = FilterQuerySchemaBuilder.fromMetadata(meta)
+        .addField({ field: "publishedAt", type: "date", nullable: true })
+        .build();
+
+      expect(() =>
+        FilterQuerySchemaBuilder.fromMetadata(meta, {
+          include: ["publishedAt"],
+        })
+      ).toThrow(
+        'Cannot derive a filter field type for property "Post.publishedAt"'
+      );
+      expect(
+        FilterQuerySchemaBuilder.fromMetadata(meta)
+          .build()
+          .safeParse({ publishedAt: null }).success
+      ).toBe(false);
+      expect(schema.safeParse({ publishedAt: null }).success).toBe(true);
+    });
+
+    it("should skip unsupported properties when not explicitly included", () => {
+      const userMeta = getEntityMetadata(UserEntity);
+      const schema = FilterQuerySchemaBuilder.fromMetadata(userMeta).build();
+
+      expect(schema.safeParse({ name: "John" }).success).toBe(true);
+      expect(schema.safeParse({ settings: {} }).success).toBe(false);
+    });
+
+    it("should derive bigint properties as number fields and decimal properties as string fields", () => {
+      const schema = FilterQuerySchemaBuilder.fromMetadata(
+        getEntityMetadata(UserEntity)
+      ).build();
+
+      expect(
+        schema.parse({
+          balance: { $gte: 100 },
+          rating: { $in: ["4.50", "5.00"] },
+        })
+      ).toEqual({
+        balance: { $gte: 100 },
+        rating: { $in: ["4.50", "5.00"] },
+      });
+      expect(schema.safeParse({ rating: null }).success).toBe(true);
+      expect(schema.safeParse({ rating: { $gt: "4.50" } }).success).toBe(false);
+    });
+
+    it("should apply filter options and allow adding more fields", () => {
+      const schema = FilterQuerySchemaBuilder.fromMetadata(
+        meta,
+        {},
+        { maxArrayLength: 2 }
+      )
+        .addField({
+          field: "keyword",
+          type: "string",
+          replacement: ({ value }) => ({ title: value }),
+        })
+        .build();
+
+      expect(
+        schema.safeParse({ tags: { $contains: ["a", "b", "c"] } }).success
+      ).toBe(false);
+      expect(schema.parse({ keyword: "Hello", viewCount: 1 })).toEqual({
+        title: "Hello",
+        viewCount: 1,
+      });
+    });
+  });
+
+  describe("toJsonSchema", () => {
+    it("should reference the filter definition from the root", () => {
+      const jsonSchema = createUserBuilder().toJsonSchema();
+
+      expect(jsonSchema.$schema).toBe(
+        "https://json-schema.org/draft/2020-12/schema"
+      );
+      expect(jsonSchema.$ref).toBe("#/$defs/Filter");
+      expect(Object.keys(jsonSchema.$defs ?? {})).toEqual([
+        "Filter_id",
+        "Filter_name",
+        "Filter_age",
+        "Filter_isActive",
+        "Filter_roles",
+        "Filter_createdAt",
+        "Filter",
+      ]);
+    });
+
+    it("should describe the recursive logical operators", () => {
+      const jsonSchema = createUserBuilder({ maxOrBranches: 3 }).toJsonSchema();
+      const filter = jsonSchema.$defs?.Filter;
+
+      expect(filter?.type).toBe("object");
+      expect(filter?.additionalProperties).toBe(false);
+      expect(filter?.properties?.$and).toEqual({
+        type: "array",
+        items: { $ref: "#/$defs/Filter" },
+      });
+      expect(filter?.properties?.$or).toEqual({
+        type: "array",
+        items: { $ref: "#/$defs/Filter" },
+        maxItems: 3,
+      });
+      expect(filter?.properties?.$not).toEqual({ $ref: "#/$defs/Filter" });
+      expect(filter?.properties?.age).toEqual({ $ref: "#/$defs/Filter_age" });
+    });
+
+    it("should state depth and condition limits in the description", () => {
+      const jsonSchema = createUserBuilder({
+        maxDepth: 2,
+        maxConditions: 4,
+      }).toJsonSchema();
+
+      expect(jsonSchema.$defs?.Filter.description).toContain(
+        "at most 2 levels deep"
+      );
+      expect(jsonSchema.$defs?.Filter.description).toContain(
+        "at most 4 field conditions"
+      );
+    });
+
+    it("should list only the operators accepted by each field", () => {
+      const jsonSchema = createUserBuilder().toJsonSchema();
+      const operatorsOf = (field: string) => {
+        const comparison = jsonSchema.$defs?.[`Filter_${field}`].anyOf?.find(
+          (schema) => schema.type === "object"
+        );
+        return Object.keys(comparison?.properties ?? {});
+      };
+
+      expect(operatorsOf("isActive")).toEqual(["$eq", "$ne", "$in", "$nin"]);
+      expect(operatorsOf("age")).toEqual([
+        "$eq",
+        "$ne",
+        "$gt",
+        "$gte",
+        "$lt",
+        "$lte",
+        "$in",
+        "$nin",
+      ]);
+      expect(operatorsOf("roles")).toEqual([
+        "$eq",
+        "$ne",
+        "$in",
+        "$nin",
+        "$contains",
+        "$overlap",
+      ]);
+      expect(operatorsOf("name")).toEqual([
+        "$eq",
+        "$ne",
+        "$in",
+        "$nin",
+        "$fulltext",
+      ]);
+    });
+
+    it("should describe field value types, null and array limits", () => {
+      const jsonSchema = new FilterQuerySchemaBuilder<User>({
+        maxArrayLength: 10,
+      })
+        .addField({ field: "age", type: "number" })
+        .addField({ field: "name", type: "string", nullable: false })
+        .toJsonSchema();
+
+      expect(jsonSchema.$defs?.Filter_age).toEqual({
+        anyOf: [
+          { type: "number" },
+          { type: "null" },
+          {
+            type: "object",
+            properties: {
+              $eq: { anyOf: [{ type: "number" }, { type: "null" }] },
+              $ne: { anyOf: [{ type: "number" }, { type: "null" }] },
+              $gt: { type: "number" },
+              $gte: { type: "number" },
+              $lt: { type: "number" },
+              $lte: { type: "number" },
+              $in: {
+                type: "array",
+                items: { anyOf: [{ type: "number" }, { type: "null" }] },
+                maxItems: 10,
+              },
+              $nin: {
+                type: "array",
+                items: { anyOf: [{ type: "number" }, { type: "null" }] },
+                maxItems: 10,
+              },
+            },
+            additionalProperties: false,
+          },
+        ],
+      });
+      expect(jsonSchema.$defs?.Filter_name.anyOf).toHaveLength(2);
+      expect(jsonSchema.$defs?.Filter_name.anyOf?.[0]).toEqual({
+        type: "string",
+      });
+    });
+
+    it("should describe date values as ISO strings", () => {
+      const jsonSchema = createUserBuilder().toJsonSchema();
+
+      expect(jsonSchema.$defs?.Filter_createdAt.anyOf?.[0]).toEqual({
+        anyOf: [
+          { type: "string", format: "date-time" },
+          { type: "string", format: "date" },
+        ],
+      });
+    });
+
+    it("should support custom names and OpenAPI ref prefixes", () => {
+      const jsonSchema = createUserBuilder().toJsonSchema({
+        name: "UserFilter",
+        refPrefix: "#/components/schemas/",
+      });
+
+      expect(jsonSchema.$ref).toBe("#/components/schemas/UserFilter");
+      expect(jsonSchema.$defs?.UserFilter.properties?.$not).toEqual({
+        $ref: "#/components/schemas/UserFilter",
+      });
+      expect(jsonSchema.$defs?.UserFilter.properties?.name).toEqual({
+        $ref: "#/components/schemas/UserFilter_name",
+      });
+    });
+  });
+
+  describe("Query string schema", () => {
+    const schema = createUserBuilder().buildQueryStringSchema({
+      key: "filter",
+    });
+
+    it("should parse bracket notation query strings", () => {
+      expect(
+        schema.parse(
+          "filter[age][$gte]=18&filter[$or][0][name]=John&filter[$or][1][name]=Jane"
+        )
+      ).toEqual({
+        age: { $gte: 18 },
+        $or: [{ name: "John" }, { name: "Jane" }],
+      });
+    });
+
+    it("should parse dot notation query strings", () => {
+      expect(schema.parse("filter.age.$lt=65&filter.isActive=true")).toEqual({
+        age: { $lt: 65 },
+        isActive: true,
+      });
+    });
+
+    it("should accept URLSearchParams and ignore other parameters", () => {
+      expect(
+        schema.parse(new URLSearchParams("filter[name]=John&page=2&limit=10"))
+      ).toEqual({ name: "John" });
+    });
+
+    it("should accept already parsed objects of strings", () => {
+      expect(
+        schema.parse({ age: { $gte: "18" }, id: { $in: ["1", "2"] } })
+      ).toEqual({
+        age: { $gte: 18 },
+        id: { $in: [1, 2] },
+      });
+    });
+
+    it("should coerce numbers and booleans", () => {
+      expect(
+        schema.parse(
+          "filter[id]=1&filter[isActive][$ne]=false&filter[age][$in][]=18&filter[age][$in][]=21"
+        )
+      ).toEqual({
+        id: 1,
+        isActive: { $ne: false },
+        age: { $in: [18, 21] },
+      });
+    });
+
+    it("should coerce null for nullable fields", () => {
+      expect(
+        schema.parse(
+          "filter[age]=null&filter[name][$ne]=null&filter[id][$in][]=1&filter[id][$in][]=null"
+        )
+      ).toEqual({
+        age: null,
+        name: { $ne: null },
+        id: { $in: [1, null] },
+      });
+    });
+
+    it("should not coerce null for non-nullable fields", () => {
+      const schema = new FilterQuerySchemaBuilder<User>()
+        .addField({ field: "name", type: "string", nullable: false })
+        .addField({ field: "age", type: "number", nullable: false })
+        .buildQueryStringSchema();
+
+      expect(schema.parse("name=null")).toEqual({ name: "null" });
+      expect(schema.safeParse("age=null").success).toBe(false);
+    });
+
+    it("should keep date strings and strings as is", () => {
+      expect(
+        schema.parse("filter[createdAt][$gte]=2024-01-01&filter[name]=123")
+      ).toEqual({
+        createdAt: { $gte: "2024-01-01" },
+        name: "123",
+      });
+    });
+
+    it("should wrap single values for array operators", () => {
+      expect(
+        schema.parse("filter[id][$in]=1&filter[roles][$contains]=admin")
+      ).toEqual({
+        id: { $in: [1] },
+        roles: { $contains: ["admin"] },
+      });
+    });
+
+    it("should reject values that cannot be coerced", () => {
+      expect(schema.safeParse("filter[age]=abc").success).toBe(false);
+      expect(schema.safeParse("filter[age]=").success).toBe(false);
+      expect(schema.safeParse("filter[isActive]=yes").success).toBe(false);
+      expect(schema.safeParse("filter[createdAt]=yesterday").success).toBe(
+        false
+      );
+    });
+
+    it("should reject unknown fields and operators", () => {
+      expect(schema.safeParse("filter[unknown]=1").success).toBe(false);
+      expect(schema.safeParse("filter[name][$like]=%25John%25").success).toBe(
+        false
+      );
+    });
+
+    it("should enforce configured limits", () => {
+      const schema = createUserBuilder({
+        maxOrBranches: 1,
+        maxArrayLength: 2,
+      }).buildQueryStringSchema();
+
+      expect(schema.safeParse("$or[0][name]=A&$or[1][name]=B").success).toBe(
+        false
+      );
+      expect(schema.safeParse("id[$in]=1&id[$in]=2&id[$in]=3").success).toBe(
+        false
+      );
+    });
+
+    it("should apply replacements", () => {
+      interface Post {
+        id: number;
+        author: { age: number };
+      }
+
+      const schema = new FilterQuerySchemaBuilder<Post>()
+        .addField({
+          field: "authorAge",
+          type: "number",
+          replacement: "author.age",
+        })
+        .buildQueryStringSchema({ key: "filter" });
+
+      expect(schema.parse("filter[authorAge][$gte]=18")).toEqual({
+        author: { age: { $gte: 18 } },
+      });
+    });
+
+    it("should not coerce values with build()", () => {
+      const schema = createUserBuilder().build();
+
+      expect(schema.safeParse({ age: "18" }).success).toBe(false);
+      expect(schema.safeParse({ isActive: "true" }).success).toBe(false);
+    });
+  });
+
+  describe("Operator restrictions", () => {
+    interface Account {
+      email: string;
+      status: string;
+      age: number;
+    }
+
+    const schema = new FilterQuerySchemaBuilder<Account>()
+      .addField({
+        field: "email",
+        type: "string",
+        operators: { include: ["$eq"] },
+      })
+      .addField({
+        field: "status",
+        type: "string",
+        operators: { exclude: ["$nin"] },
+      })
+      .addField({
+        field: "age",
+        type: "number",
+        operators: { include: ["$gte", "$lte"] },
+      })
+      .build();
+
+    it("should allow included operators", () => {
+      expect(schema.safeParse({ email: { $eq: "a@b.c" } }).success).toBe(true);
+      expect(schema.safeParse({ age: { $gte: 18, $lte: 65 } }).success).toBe(
+        true
+      );
+    });
+
+    it("should reject operators that are not included", () => {
+      expect(schema.safeParse({ email: { $ne: "a@b.c" } }).success).toBe(false);
+      expect(schema.safeParse({ email: { $in: ["a@b.c"] } }).success).toBe(
+        false
+      );
+      expect(schema.safeParse({ age: { $eq: 18 } }).success).toBe(false);
+    });
+
+    it("should reject excluded operators and allow the others", () => {
+      expect(schema.safeParse({ status: { $nin: ["deleted"] } }).success).toBe(
+        false
+      );
+      expect(schema.safeParse({ status: { $in: ["active"] } }).success).toBe(
+        true
+      );
+      expect(schema.safeParse({ status: "active" }).success).toBe(true);
+    });
+
+    it("should treat direct assignment as $eq", () => {
+      expect(schema.safeParse({ email: "a@b.c" }).success).toBe(true);
+      expect(schema.safeParse({ age: 18 }).success).toBe(false);
+      expect(schema.safeParse({ age: null }).success).toBe(false);
+    });
+
+    it("should name the disallowed operator in the error", () => {
+      const result = schema.safeParse({ status: { $nin: ["deleted"] } });
+
+      expect(result.error?.issues).toEqual([
+        expect.objectContaining({
+          path: ["status", "$nin"],
+          message: 'Operator "$nin" is not allowed for field "status"',
+        }),
+      ]);
+    });
+
+    it("should name $eq in the error for disallowed direct assignment", () => {
+      const result = schema.safeParse({ age: 18 });
+
+      expect(result.error?.issues).toEqual([
+        expect.objectContaining({
+          path: ["age"],
+          message: 'Operator "$eq" is not allowed for field "age"',
+        }),
+      ]);
+    });
+
+    it("should name unsupported operators in the error", () => {
+      const result = schema.safeParse({ status: { $like: "%a%" } });
+
+      expect(result.error?.issues).toEqual([
+        expect.objectContaining({
+          path: ["status", "$like"],
+          message: 'Operator "$like" is not allowed for field "status"',
+        }),
+      ]);
+    });
+
+    it("should apply restrictions in nested queries", () => {
+      expect(
+        schema.safeParse({ $or: [{ status: { $nin: ["a"] } }] }).success
+      ).toBe(false);
+      expect(
+        schema.safeParse({ $not: { email: { $ne: "a@b.c" } } }).success
+      ).toBe(false);
+    });
+
+    it("should ignore included operators that do not apply to the field type", () => {
+      const schema = new FilterQuerySchemaBuilder<Account>()
+        .addField({
+          field: "status",
+          type: "string",
+          operators: { include: ["$eq", "$gt"] },
+        })
+        .build();
+
+      expect(schema.safeParse({ status: { $gt: "a" } }).success).toBe(false);
+    });
+
+    it("should export only the allowed operators as JSON Schema", () => {
+      const jsonSchema = new FilterQuerySchemaBuilder<Account>()
+        .addField({
+          field: "status",
+          type: "string",
+          operators: { exclude: ["$nin"] },
+        })
+        .addField({
+          field: "age",
+          type: "number",
+          operators: { include: ["$gte", "$lte"] },
+        })
+        .toJsonSchema();
+
+      const statusComparison = jsonSchema.$defs?.Filter_status.anyOf?.find(
+        (schema) => schema.type === "object"
+      );
+      expect(Object.keys(statusComparison?.properties ?? {})).toEqual([
+        "$eq",
+        "$ne",
+        "$in",
+      ]);
+      expect(jsonSchema.$defs?.Filter_age).toEqual({
+        type: "object",
+        properties: { $gte: { type: "number" }, $lte: { type: "number" } },
+        additionalProperties: false,
+      });
+    });
+  });
+
+  describe("Enum field type", () => {
+    enum Status {
+      Active = "active",
+      Inactive = "inactive",
+    }
+
+    enum Priority {
+      Low,
+      High,
+    }
+
+    interface Task {
+      status: Status;
+      priority: Priority;
+      tier: string;
+      labels: string[];
+    }
+
+    const schema = new FilterQuerySchemaBuilder<Task>()
+      .addField({ field: "status", type: "enum", values: Status })
+      .addField({ field: "priority", type: "enum", values: Priority })
+      .addField({ field: "tier", type: "enum", values: ["free", "pro"] })
+      .addField({
+        field: "labels",
+        type: "enum",
+        values: ["bug", "feature"],
+        array: true,
+      })
+      .build();
+
+    it("should accept allowed values", () => {
+      expect(schema.safeParse({ status: "active" }).success).toBe(true);
+      expect(schema.safeParse({ status: Status.Inactive }).success).toBe(true);
+      expect(schema.safeParse({ priority: Priority.High }).success).toBe(true);
+      expect(schema.safeParse({ tier: "pro" }).success).toBe(true);
+    });
+
+    it("should reject values that are not allowed", () => {
+      expect(schema.safeParse({ status: "deleted" }).success).toBe(false);
+      expect(schema.safeParse({ tier: "enterprise" }).success).toBe(false);
+      expect(schema.safeParse({ priority: 2 }).success).toBe(false);
+    });
+
+    it("should not accept reverse mappings of numeric enums", () => {
+      expect(schema.safeParse({ priority: "High" }).success).toBe(false);
+    });
+
+    it("should validate operator values against the allowed values", () => {
+      expect(
+        schema.safeParse({ status: { $eq: "active", $ne: "inactive" } }).success
+      ).toBe(true);
+      expect(
+        schema.safeParse({ status: { $in: ["active", "inactive"] } }).success
+      ).toBe(true);
+      expect(schema.safeParse({ tier: { $nin: ["free", null] } }).success).toBe(
+        true
+      );
+      expect(schema.safeParse({ status: { $ne: "deleted" } }).success).toBe(
+        false
+      );
+      expect(
+        schema.safeParse({ status: { $in: ["active", "deleted"] } }).success
+      ).toBe(false);
+      expect(schema.safeParse({ tier: { $nin: ["enterprise"] } }).success).toBe(
+        false
+      );
+    });
+
+    it("should not support comparison operators", () => {
+      expect(
+        schema.safeParse({ priority: { $gt: Priority.Low } }).success
+      ).toBe(false);
+    });
+
+    it("should support array operators for array enum fields", () => {
+      expect(schema.safeParse({ labels: { $contains: ["bug"] } }).success).toBe(
+        true
+      );
+      expect(
+        schema.safeParse({ labels: { $overlap: ["bug", "chore"] } }).success
+      ).toBe(false);
+    });
+
+    it("should pass enum values to callback replacements", () => {
+      const calls: unknown[] = [];
+      const schema = new FilterQuerySchemaBuilder<Task>()
+        .addField({
+          field: "tier",
+          type: "enum",
+          values: ["free", "pro"],
+          replacement: ({ value }) => {
+            // value is typed as "free" | "pro" | ("free" | "pro")[] | null
+            const tier: "free" | "pro" | ("free" | "pro")[] | null = value;
+            calls.push(tier);
+            return { tier: tier === "pro" ? "paid" : "free" };
+          },
+        })
+        .build();
+
+      expect(schema.parse({ tier: "pro" })).toEqual({ tier: "paid" });
+      expect(calls).toEqual(["pro"]);
+    });
+
+    it("should coerce numeric enum values from query strings", () => {
+      const schema = new FilterQuerySchemaBuilder<Task>()
+        .addField({ field: "priority", type: "enum", values: Priority })
+        .addField({ field: "tier", type: "enum", values: ["1", "2"] })
+        .buildQueryStringSchema();
+
+      expect(
+        schema.parse("priority[$in][]=0&priority[$in][]=1&tier=1")
+      ).toEqual({
+        priority: { $in: [0, 1] },
+        tier: "1",
+      });
+      expect(schema.safeParse("priority=High").success).toBe(false);
+    });
+
+    it("should export allowed values as JSON Schema enum", () => {
+      const jsonSchema = new FilterQuerySchemaBuilder<Task>()
+        .addField({
+          field: "status",
+          type: "enum",
+          values: Status,
+          nullable: false,
+        })
+        .toJsonSchema();
+
+      expect(jsonSchema.$defs?.Filter_status.anyOf?.[0]).toEqual({
+        enum: ["active", "inactive"],
+      });
+    });
+
+    it("should derive enum fields from metadata", () => {
+      const schema = FilterQuerySchemaBuilder.fromMetadata(
+        getEntityMetadata(Post),
+        { include: ["status"] }
+      ).build();
+
+      expect(schema.safeParse({ status: PostStatus.Published }).success).toBe(
+        true
+      );
+      expect(
+        schema.safeParse({ status: { $in: ["draft", "archived"] } }).success
+      ).toBe(true);
+      expect(schema.safeParse({ status: "deleted" }).success).toBe(false);
+    });
+  });
+
+  describe("Pattern operators", () => {
+    interface Article {
+      title: string;
+      slug: string;
+      content: string;
+    }
+
+    it("should not allow pattern operators by default", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({ field: "title", type: "string" })
+        .build();
+
+      expect(schema.safeParse({ title: { $startsWith: "a" } }).success).toBe(
+        false
+      );
+      expect(schema.safeParse({ title: { $like: "a%" } }).success).toBe(false);
+    });
+
+    it("should compile $startsWith into an escaped $ilike", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({ field: "title", type: "string", patterns: true })
+        .build();
+
+      expect(schema.parse({ title: { $startsWith: "Hello" } })).toEqual({
+        title: { $ilike: "Hello%" },
+      });
+      expect(schema.parse({ title: { $startsWith: "50%_off\\" } })).toEqual({
+        title: { $ilike: "50\\%\\_off\\\\%" },
+      });
+    });
+
+    it("should compile into $like when case sensitive", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({
+          field: "title",
+          type: "string",
+          patterns: { caseSensitive: true, leadingWildcard: true },
+        })
+        .build();
+
+      expect(schema.parse({ title: { $startsWith: "a" } })).toEqual({
+        title: { $like: "a%" },
+      });
+      expect(schema.parse({ title: { $endsWith: "z" } })).toEqual({
+        title: { $like: "%z" },
+      });
+      expect(schema.parse({ title: { $includes: "m" } })).toEqual({
+        title: { $like: "%m%" },
+      });
+    });
+
+    it("should only allow $endsWith and $includes with leading wildcards", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({ field: "title", type: "string", patterns: true })
+        .addField({
+          field: "content",
+          type: "string",
+          patterns: { leadingWildcard: true },
+        })
+        .build();
+
+      expect(schema.safeParse({ title: { $endsWith: "a" } }).success).toBe(
+        false
+      );
+      expect(schema.safeParse({ title: { $includes: "a" } }).success).toBe(
+        false
+      );
+      expect(schema.parse({ content: { $includes: "100%" } })).toEqual({
+        content: { $ilike: "%100\\%%" },
+      });
+    });
+
+    it("should only allow raw $like and $ilike with like: true", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({ field: "title", type: "string", patterns: true })
+        .addField({ field: "slug", type: "string", patterns: { like: true } })
+        .build();
+
+      expect(schema.safeParse({ title: { $like: "a%" } }).success).toBe(false);
+      expect(schema.parse({ slug: { $like: "a%b_" } })).toEqual({
+        slug: { $like: "a%b_" },
+      });
+      expect(schema.parse({ slug: { $ilike: "a%" } })).toEqual({
+        slug: { $ilike: "a%" },
+      });
+    });
+
+    it("should reject leading wildcards in raw patterns unless allowed", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({ field: "slug", type: "string", patterns: { like: true } })
+        .addField({
+          field: "content",
+          type: "string",
+          patterns: { like: true, leadingWildcard: true },
+        })
+        .build();
+
+      const result = schema.safeParse({ slug: { $like: "%a" } });
+      expect(result.error?.issues).toEqual([
+        expect.objectContaining({
+          path: ["slug", "$like"],
+          message: 'Leading wildcards are not allowed for field "slug"',
+        }),
+      ]);
+      expect(schema.safeParse({ slug: { $ilike: "_a" } }).success).toBe(false);
+      expect(schema.parse({ content: { $like: "%a%" } })).toEqual({
+        content: { $like: "%a%" },
+      });
+    });
+
+    it("should allow only one pattern operator per condition", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({
+          field: "title",
+          type: "string",
+          patterns: { like: true, leadingWildcard: true },
+        })
+        .build();
+
+      expect(
+        schema.safeParse({ title: { $startsWith: "a", $endsWith: "z" } })
+          .success
+      ).toBe(false);
+      expect(
+        schema.safeParse({ title: { $startsWith: "a", $ilike: "b%" } }).success
+      ).toBe(false);
+      expect(
+        schema.parse({
+          $and: [
+            { title: { $startsWith: "a" } },
+            { title: { $endsWith: "z" } },
+          ],
+        })
+      ).toEqual({
+        $and: [{ title: { $ilike: "a%" } }, { title: { $ilike: "%z" } }],
+      });
+    });
+
+    it("should keep other operators next to a pattern operator", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({ field: "title", type: "string", patterns: true })
+        .build();
+
+      expect(schema.parse({ title: { $startsWith: "a", $ne: "abc" } })).toEqual(
+        { title: { $ilike: "a%", $ne: "abc" } }
+      );
+      expect(schema.parse({ title: "abc" })).toEqual({ title: "abc" });
+    });
+
+    it("should not allow pattern operators for non-string fields", () => {
+      interface Product {
+        price: number;
+      }
+
+      const schema = new FilterQuerySchemaBuilder<Product>()
+        // @ts-expect-error patterns is only available for string fields
+        .addField({ field: "price", type: "number", patterns: true })
+        .build();
+
+      expect(schema.safeParse({ price: { $startsWith: "1" } }).success).toBe(
+        false
+      );
+    });
+
+    it("should pass compiled patterns to callback replacements", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({
+          field: "keyword",
+          type: "string",
+          patterns: { leadingWildcard: true },
+          replacement: ({ operator, value }) => ({
+            $or: [
+              { title: { [operator]: value } },
+              { content: { [operator]: value } },
+            ],
+          }),
+        })
+        .build();
+
+      expect(schema.parse({ keyword: { $includes: "a_b" } })).toEqual({
+        $or: [
+          { title: { $ilike: "%a\\_b%" } },
+          { content: { $ilike: "%a\\_b%" } },
+        ],
+      });
+    });
+
+    it("should support pattern operators in query strings and nested queries", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({ field: "title", type: "string", patterns: true })
+        .buildQueryStringSchema({ key: "filter" });
+
+      expect(schema.parse("filter[$or][0][title][$startsWith]=50%25")).toEqual({
+        $or: [{ title: { $ilike: "50\\%%" } }],
+      });
+    });
+
+    it("should export pattern operators as JSON Schema", () => {
+      const jsonSchema = new FilterQuerySchemaBuilder<Article>()
+        .addField({
+          field: "title",
+          type: "string",
+          patterns: { like: true, leadingWildcard: true },
+        })
+        .toJsonSchema();
+      const comparison = jsonSchema.$defs?.Filter_title.anyOf?.find(
+        (schema) => schema.type === "object"
+      );
+
+      expect(Object.keys(comparison?.properties ?? {})).toEqual([
+        "$eq",
+        "$ne",
+        "$in",
+        "$nin",
+        "$like",
+        "$ilike",
+        "$startsWith",
+        "$endsWith",
+        "$includes",
+      ]);
+    });
+  });
+
+  describe("Collection relations", () => {
+    interface Comment {
+      id: number;
+      body: string;
+      isApproved: boolean;
+      likes: number;
+      stats: { likes: number };
+      replies: Comment[];
+    }
+
+    interface Article {
+      id: number;
+      title: string;
+      comments: Comment[];
+    }
+
+    function createCommentBuilder() {
+      return new FilterQuerySchemaBuilder<Comment>()
+        .addField({ field: "isApproved", type: "boolean" })
+        .addField({ field: "likes", type: "number" });
+    }
+
+    function createArticleBuilder(options?: Partial<FilterOptions>) {
+      return new FilterQuerySchemaBuilder<Article>(options)
+        .addField({ field: "title", type: "string" })
+        .addCollection("comments", createCommentBuilder());
+    }
+
+    it("should validate $some, $every and $none conditions", () => {
+      const schema = createArticleBuilder().build();
+
+      expect(
+        schema.parse({
+          comments: { $some: { isApproved: true, likes: { $gte: 10 } } },
+        })
+      ).toEqual({
+        comments: { $some: { isApproved: true, likes: { $gte: 10 } } },
+      });
+      expect(
+        schema.safeParse({ comments: { $every: { isApproved: true } } }).success
+      ).toBe(true);
+      expect(
+        schema.safeParse({
+          comments: { $none: { likes: { $lt: 0 } } },
+          title: "Hello",
+        }).success
+      ).toBe(true);
+      expect(
+        schema.safeParse({
+          $or: [
+            { comments: { $some: { $not: { isApproved: false } } } },
+            { title: "Hello" },
+          ],
+        }).success
+      ).toBe(true);
+    });
+
+    it("should reject unknown fields and operators in collection conditions", () => {
+      const schema = createArticleBuilder().build();
+
+      expect(
+        schema.safeParse({ comments: { $some: { body: "spam" } } }).success
+      ).toBe(false);
+      expect(
+        schema.safeParse({ comments: { $some: { likes: { $like: "1%" } } } })
+          .success
+      ).toBe(false);
+      expect(
+        schema.safeParse({ comments: { $any: { isApproved: true } } }).success
+      ).toBe(false);
+      expect(schema.safeParse({ comments: true }).success).toBe(false);
+    });
+
+    it("should require a collection operator", () => {
+      const result = createArticleBuilder().build().safeParse({ comments: {} });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe(
+        'Collection field "comments" requires $some, $every or $none'
+      );
+    });
+
+    it("should count collection conditions against maxDepth", () => {
+      const schema = createArticleBuilder({ maxDepth: 2 }).build();
+
+      expect(
+        schema.safeParse({
+          $and: [{ comments: { $some: { isApproved: true } } }],
+        }).success
+      ).toBe(true);
+      expect(
+        schema.safeParse({
+          $and: [{ comments: { $some: { $not: { isApproved: true } } } }],
+        }).success
+      ).toBe(false);
+      expect(
+        schema.safeParse({
+          $and: [{ $and: [{ comments: { $some: { isApproved: true } } }] }],
+        }).success
+      ).toBe(false);
+    });
+
+    it("should count collection conditions against maxConditions", () => {
+      const schema = createArticleBuilder({ maxConditions: 1 }).build();
+
+      expect(
+        schema.safeParse({
+          comments: { $some: { isApproved: true } },
+          title: "Hello",
+        }).success
+      ).toBe(false);
+      expect(
+        schema.safeParse({
+          comments: { $some: { isApproved: true, likes: 1 } },
+        }).success
+      ).toBe(false);
+      expect(
+        schema.safeParse({
+          comments: { $some: { isApproved: true }, $none: { likes: 0 } },
+        }).success
+      ).toBe(true);
+    });
+
+    it("should apply the replacements of the nested builder", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addCollection(
+          "comments",
+          new FilterQuerySchemaBuilder<Comment>()
+            .addField({
+              field: "likes",
+              type: "number",
+              replacement: "stats.likes",
+            })
+            .addField({
+              field: "isApproved",
+              type: "boolean",
+              replacement: ({ value }) =>
+                ({ status: value ? "approved" : "pending" }) as never,
+            })
+        )
+        .build();
+
+      expect(
+        schema.parse({
+          comments: { $some: { likes: { $gt: 5 }, isApproved: true } },
+        })
+      ).toEqual({
+        comments: {
+          $some: { stats: { likes: { $gt: 5 } }, status: "approved" },
+        },
+      });
+    });
+
+    it("should support collections nested in collections and self references", () => {
+      const commentBuilder = createCommentBuilder();
+      commentBuilder.addCollection("replies", commentBuilder);
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addCollection("comments", commentBuilder)
+        .build();
+
+      expect(
+        schema.safeParse({
+          comments: { $some: { replies: { $none: { isApproved: false } } } },
+        }).success
+      ).toBe(true);
+      expect(
+        schema.safeParse({
+          comments: { $some: { replies: { $some: { title: "Hello" } } } },
+        }).success
+      ).toBe(false);
+    });
+
+    it("should coerce collection conditions in query strings", () => {
+      const schema = createArticleBuilder().buildQueryStringSchema();
+
+      expect(
+        schema.parse(
+          "comments[$some][likes][$gte]=10&comments[$some][isApproved]=true"
+        )
+      ).toEqual({
+        comments: { $some: { likes: { $gte: 10 }, isApproved: true } },
+      });
+    });
+
+    it("should export collection conditions as JSON Schema", () => {
+      const commentBuilder = createCommentBuilder();
+      commentBuilder.addCollection("replies", commentBuilder);
+      const jsonSchema = new FilterQuerySchemaBuilder<Article>()
+        .addField({ field: "title", type: "string" })
+        .addCollection("comments", commentBuilder)
+        .toJsonSchema();
+
+      expect(Object.keys(jsonSchema.$defs ?? {})).toEqual([
+        "Filter_title",
+        "Filter_comments_isApproved",
+        "Filter_comments_likes",
+        "Filter_comments",
+        "Filter",
+      ]);
+      expect(jsonSchema.$defs?.Filter.properties?.comments).toEqual({
+        type: "object",
+        properties: {
+          $some: { $ref: "#/$defs/Filter_comments" },
+          $every: { $ref: "#/$defs/Filter_comments" },
+          $none: { $ref: "#/$defs/Filter_comments" },
+        },
+        additionalProperties: false,
+      });
+      expect(jsonSchema.$defs?.Filter_comments.properties?.replies).toEqual(
+        jsonSchema.$defs?.Filter.properties?.comments
+      );
+    });
+  });
+
+  describe("Relation sub-builders", () => {
+    interface Author {
+      id: number;
+      name: string;
+      age: number;
+      profile: { nickname: string };
+    }
+
+    interface Article {
+      id: number;
+      title: string;
+      author: Author;
+      reviewer: Author;
+    }
+
+    function createAuthorBuilder() {
+      return new FilterQuerySchemaBuilder<Author>()
+        .addField({ field: "name", type: "string" })
+        .addField({ field: "age", type: "number" })
+        .addField({
+          field: "nickname",
+          type: "string",
+          replacement: "profile.nickname",
+        })
+        .addField({
+          field: "keyword",
+          type: "string",
+          replacement: ({ operator, value }) =>
+            ({
+              $or: [
+                { name: { [operator]: value } },
+                { profile: { nickname: { [operator]: value } } },
+              ],
+            }) as never,
+        });
+    }
+
+    it("should validate nested relation filters", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({ field: "title", type: "string" })
+        .addRelation("author", createAuthorBuilder())
+        .build();
+
+      expect(schema.parse({ author: { name: "John" } })).toEqual({
+        author: { name: "John" },
+      });
+      expect(
+        schema.safeParse({ author: { age: { $gte: 18 } }, title: "Hello" })
+          .success
+      ).toBe(true);
+      expect(
+        schema.safeParse({ author: { $or: [{ name: "John" }, { age: 30 }] } })
+          .success
+      ).toBe(true);
+      expect(schema.safeParse({ author: { title: "Hello" } }).success).toBe(
+        false
+      );
+      expect(schema.safeParse({ author: "John" }).success).toBe(false);
+    });
+
+    it("should apply the sub-builder's replacements relative to the mount path", () => {
+      const authorBuilder = createAuthorBuilder();
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addRelation("author", authorBuilder)
+        .addRelation("reviewer", authorBuilder)
+        .build();
+
+      expect(
+        schema.parse({
+          author: { nickname: "jd" },
+          reviewer: { keyword: "jane" },
+        })
+      ).toEqual({
+        author: { profile: { nickname: "jd" } },
+        reviewer: {
+          $or: [
+            { name: { $eq: "jane" } },
+            { profile: { nickname: { $eq: "jane" } } },
+          ],
+        },
+      });
+      expect(
+        schema.parse({
+          $not: { author: { $and: [{ nickname: { $ne: "x" } }] } },
+        })
+      ).toEqual({
+        $not: { author: { $and: [{ profile: { nickname: { $ne: "x" } } }] } },
+      });
+    });
+
+    it("should count relation filters against maxDepth and maxConditions", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>({
+        maxDepth: 1,
+        maxConditions: 1,
+      })
+        .addRelation("author", createAuthorBuilder())
+        .build();
+
+      expect(schema.safeParse({ author: { name: "John" } }).success).toBe(true);
+      expect(
+        schema.safeParse({ author: { $not: { name: "John" } } }).success
+      ).toBe(false);
+      expect(
+        schema.safeParse({ author: { name: "John", age: 30 } }).success
+      ).toBe(false);
+    });
+
+    it("should coerce relation filters in query strings", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addRelation("author", createAuthorBuilder())
+        .buildQueryStringSchema();
+
+      expect(schema.parse("author[age][$gte]=18&author.nickname=jd")).toEqual({
+        author: { age: { $gte: 18 }, profile: { nickname: "jd" } },
+      });
+    });
+
+    it("should export relation filters as JSON Schema", () => {
+      const authorBuilder = createAuthorBuilder();
+      const jsonSchema = new FilterQuerySchemaBuilder<Article>()
+        .addRelation("author", authorBuilder)
+        .addRelation("reviewer", authorBuilder)
+        .toJsonSchema();
+
+      expect(jsonSchema.$defs?.Filter.properties?.author).toEqual({
+        $ref: "#/$defs/Filter_author",
+      });
+      expect(jsonSchema.$defs?.Filter.properties?.reviewer).toEqual({
+        $ref: "#/$defs/Filter_author",
+      });
+      expect(
+        Object.keys(jsonSchema.$defs?.Filter_author.properties ?? {})
+      ).toEqual(["$and", "$or", "$not", "name", "age", "nickname", "keyword"]);
+    });
+  });
+
+  describe("Query complexity budget", () => {
+    it("should limit $and branches", () => {
+      const schema = createUserBuilder({ maxAndBranches: 2 }).build();
+
+      expect(schema.safeParse({ $and: [{ age: 1 }, { age: 2 }] }).success).toBe(
+        true
+      );
+      const result = schema.safeParse({
+        $and: [{ age: 1 }, { age: 2 }, { age: 3 }],
+      });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe(
+        "$and cannot have more than 2 branches"
+      );
+      expect(
+        createUserBuilder({ maxAndBranches: 2 }).toJsonSchema().$defs?.Filter
+          .properties?.$and
+      ).toEqual({
+        type: "array",
+        items: { $ref: "#/$defs/Filter" },
+        maxItems: 2,
+      });
+    });
+
+    it("should not limit $and branches and total conditions by default", () => {
+      const schema = createUserBuilder().build();
+      const conditions = Array.from({ length: 200 }, (_, i) => ({ age: i }));
+
+      expect(schema.safeParse({ $and: conditions }).success).toBe(true);
+      expect(
+        schema.safeParse({
+          $and: [
+            { $or: conditions.slice(0, 5) },
+            { $or: conditions.slice(5, 10) },
+            ...conditions,
+          ],
+        }).success
+      ).toBe(true);
+    });
+
+    it("should limit the total number of conditions across the tree", () => {
+      const schema = createUserBuilder({ maxTotalConditions: 3 }).build();
+
+      expect(
+        schema.safeParse({ name: "John", $or: [{ age: 1 }, { age: 2 }] })
+          .success
+      ).toBe(true);
+      const result = schema.safeParse({
+        name: "John",
+        $or: [{ age: 1 }, { $not: { age: 2, isActive: true } }],
+      });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe(
+        "Filter cannot have more than 3 conditions in total, got 4"
+      );
+    });
+
+    it("should count conditions of relations towards the total", () => {
+      interface Comment {
+        likes: number;
+      }
+      interface Article {
+        author: User;
+        comments: Comment[];
+      }
+      const schema = new FilterQuerySchemaBuilder<Article>({
+        maxTotalConditions: 2,
+      })
+        .addRelation("author", createUserBuilder())
+        .addCollection(
+          "comments",
+          new FilterQuerySchemaBuilder<Comment>().addField({
+            field: "likes",
+            type: "number",
+          })
+        )
+        .build();
+
+      expect(
+        schema.safeParse({
+          author: { age: 1 },
+          comments: { $some: { likes: 1 } },
+        }).success
+      ).toBe(true);
+      expect(
+        schema.safeParse({
+          author: { age: 1 },
+          comments: { $some: { likes: 1 }, $none: { likes: 0 } },
+        }).success
+      ).toBe(false);
+    });
+
+    it("should reject filters exceeding the cost budget", () => {
+      const schema = createUserBuilder({ maxCost: 12 }).build();
+
+      expect(
+        schema.safeParse({ name: { $fulltext: "john" }, age: { $in: [1, 2] } })
+          .success
+      ).toBe(true);
+      const result = schema.safeParse({
+        name: { $fulltext: "john" },
+        age: { $in: [1, 2, 3] },
+      });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe(
+        "Filter cost 13 exceeds the maximum cost of 12"
+      );
+    });
+
+    it("should apply custom operator and field costs", () => {
+      const schema = new FilterQuerySchemaBuilder<User>({
+        maxCost: 9,
+        operatorCosts: { $ne: 3 },
+      })
+        .addField({ field: "name", type: "string", cost: 2 })
+        .addField({ field: "age", type: "number" })
+        .build();
+
+      expect(
+        schema.safeParse({ name: { $ne: "John" }, age: { $gte: 1, $lte: 3 } })
+          .success
+      ).toBe(true);
+      expect(
+        schema.safeParse({ name: { $ne: "John" }, age: { $ne: 2, $lte: 3 } })
+          .success
+      ).toBe(false);
+      expect(
+        schema.safeParse({ name: { $in: ["a", "b", "c", "d", "e", "f"] } })
+          .success
+      ).toBe(false);
+    });
+
+    it("should merge custom operator costs with the default costs", () => {
+      const schema = createUserBuilder({
+        maxCost: 11,
+        operatorCosts: { $ne: 3 },
+      }).build();
+
+      expect(
+        schema.safeParse({ name: { $fulltext: "john" }, age: 1 }).success
+      ).toBe(true);
+      expect(
+        schema.safeParse({ name: { $fulltext: "john" }, age: { $ne: 1 } })
+          .success
+      ).toBe(false);
+      expect(
+        createUserBuilder({ operatorCosts: { $ne: 3 } }).toClientDefinition()
+          .limits.operatorCosts
+      ).toEqual({ $fulltext: 10, $ne: 3 });
+    });
+
+    it("should not limit the cost by default", () => {
+      const schema = createUserBuilder().build();
+
+      expect(
+        schema.safeParse({
+          age: { $in: Array.from({ length: 100 }, (_, i) => i) },
+        }).success
+      ).toBe(true);
+    });
+  });
+
+  describe("Scopes", () => {
+    interface Tenant {
+      id: number;
+    }
+
+    interface Article {
+      id: number;
+      title: string;
+      tenant: Tenant;
+      deletedAt: Date | null;
+      author: User;
+    }
+
+    interface RequestContext {
+      tenantId: number;
+    }
+
+    function createArticleBuilder() {
+      return new FilterQuerySchemaBuilder<Article, RequestContext>()
+        .addField({ field: "title", type: "string" })
+        .withScope({ deletedAt: null })
+        .withScope(({ tenantId }) => ({ tenant: tenantId }));
+    }
+
+    it("should combine scopes with the parsed filter", () => {
+      const schema = createArticleBuilder().build({ tenantId: 42 });
+
+      expect(schema.parse({ title: "Hello" })).toEqual({
+        $and: [{ deletedAt: null }, { tenant: 42 }, { title: "Hello" }],
+      });
+      expect(schema.parse({})).toEqual({
+        $and: [{ deletedAt: null }, { tenant: 42 }, {}],
+      });
+    });
+
+    it("should keep root $or branches inside the scoped $and", () => {
+      const schema = createArticleBuilder().build({ tenantId: 42 });
+
+      expect(schema.parse({ $or: [{ title: "a" }, { title: "b" }] })).toEqual({
+        $and: [
+          { deletedAt: null },
+          { tenant: 42 },
+          { $or: [{ title: "a" }, { title: "b" }] },
+        ],
+      });
+    });
+
+    it("should not allow clients to filter or override scope fields", () => {
+      const schema = createArticleBuilder().build({ tenantId: 42 });
+
+      expect(schema.safeParse({ tenant: 1 }).success).toBe(false);
+      expect(
+        schema.safeParse({ $or: [{ deletedAt: { $ne: null } }] }).success
+      ).toBe(false);
+    });
+
+    it("should resolve scope callbacks with the context of each build", () => {
+      const builder = createArticleBuilder();
+
+      expect(builder.build({ tenantId: 1 }).parse({})).toEqual({
+        $and: [{ deletedAt: null }, { tenant: 1 }, {}],
+      });
+      expect(builder.build({ tenantId: 2 }).parse({})).toEqual({
+        $and: [{ deletedAt: null }, { tenant: 2 }, {}],
+      });
+    });
+
+    it("should apply scopes after replacements", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({
+          field: "authorName",
+          type: "string",
+          replacement: "author.name",
+        })
+        .withScope({ deletedAt: null })
+        .build();
+
+      expect(schema.parse({ authorName: "John" })).toEqual({
+        $and: [{ deletedAt: null }, { author: { name: "John" } }],
+      });
+    });
+
+    it("should apply scopes of mounted builders inside the relation", () => {
+      const authorBuilder = new FilterQuerySchemaBuilder<User, RequestContext>()
+        .addField({ field: "name", type: "string" })
+        .withScope({ isActive: true });
+      const schema = createArticleBuilder()
+        .addRelation("author", authorBuilder)
+        .build({ tenantId: 42 });
+
+      expect(schema.parse({ author: { name: "John" } })).toEqual({
+        $and: [
+          { deletedAt: null },
+          { tenant: 42 },
+          { author: { $and: [{ isActive: true }, { name: "John" }] } },
+        ],
+      });
+    });
+
+    it("should apply scopes to query string schemas", () => {
+      const schema = createArticleBuilder().buildQueryStringSchema(
+        { key: "filter" },
+        { tenantId: 42 }
+      );
+
+      expect(schema.parse("filter[title]=Hello")).toEqual({
+        $and: [{ deletedAt: null }, { tenant: 42 }, { title: "Hello" }],
+      });
+    });
+  });
+
+  describe("Field permissions", () => {
+    interface Account {
+      id: number;
+      name: string;
+      email: string;
+      balance: number;
+    }
+
+    interface RequestContext {
+      roles: string[];
+      isOwner?: boolean;
+    }
+
+    function createAccountBuilder(options?: Partial<FilterOptions>) {
+      return new FilterQuerySchemaBuilder<Account, RequestContext>(options)
+        .addField({ field: "name", type: "string" })
+        .addField({
+          field: "email",
+          type: "string",
+          access: ["admin", "support"],
+        })
+        .addField({
+          field: "balance",
+          type: "number",
+          access: (ctx) => ctx.roles.includes("admin") || ctx.isOwner === true,
+        });
+    }
+
+    it("should allow fields the caller can access", () => {
+      const schema = createAccountBuilder().build({
+        roles: ["support"],
+        isOwner: true,
+      });
+
+      expect(
+        schema.parse({
+          name: "John",
+          email: "john@example.com",
+          balance: { $gt: 0 },
+        })
+      ).toEqual({
+        name: "John",
+        email: "john@example.com",
+        balance: { $gt: 0 },
+      });
+    });
+
+    it("should reject fields the caller cannot access", () => {
+      const schema = createAccountBuilder().build({ roles: ["user"] });
+
+      expect(schema.safeParse({ name: "John" }).success).toBe(true);
+      const result = schema.safeParse({ email: "john@example.com" });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe(
+        'Field "email" is not accessible'
+      );
+      expect(result.error?.issues[0].path).toEqual(["email"]);
+    });
+
+    it("should reject inaccessible fields inside logical operators", () => {
+      const schema = createAccountBuilder().build({ roles: ["user"] });
+
+      expect(
+        schema.safeParse({ $or: [{ name: "John" }, { balance: { $gt: 0 } }] })
+          .success
+      ).toBe(false);
+      expect(
+        schema.safeParse({ $and: [{ $not: { email: "a@b.c" } }] }).success
+      ).toBe(false);
+    });
+
+    it("should treat role-restricted fields as inaccessible without a context", () => {
+      const schema = new FilterQuerySchemaBuilder<Account, RequestContext>()
+        .addField({ field: "name", type: "string" })
+        .addField({ field: "email", type: "string", access: ["admin"] })
+        .build();
+
+      expect(schema.safeParse({ email: "a@b.c" }).success).toBe(false);
+    });
+
+    it("should strip inaccessible fields when configured", () => {
+      const schema = createAccountBuilder({ forbiddenFields: "strip" }).build({
+        roles: ["user"],
+      });
+
+      expect(
+        schema.parse({
+          name: "John",
+          email: "a@b.c",
+          $or: [{ balance: 1 }, { name: "Jane" }],
+          $not: { email: "x", name: "Joe" },
+        })
+      ).toEqual({
+        name: "John",
+        $or: [{ name: "Jane" }],
+        $not: { name: "Joe" },
+      });
+    });
+
+    it("should drop logical operators and relations left empty by stripping", () => {
+      interface Invoice {
+        id: number;
+        account: Account;
+        payers: Account[];
+      }
+      const schema = new FilterQuerySchemaBuilder<Invoice, RequestContext>({
+        forbiddenFields: "strip",
+      })
+        .addField({ field: "id", type: "number" })
+        .addRelation("account", createAccountBuilder())
+        .addCollection("payers", createAccountBuilder())
+        .build({ roles: ["user"] });
+
+      expect(
+        schema.parse({
+          $or: [
+            { account: { email: "a@b.c" } },
+            { $and: [{ payers: { $some: { balance: 1 } } }, { id: 1 }] },
+          ],
+        })
+      ).toEqual({
+        $or: [{ $and: [{ id: 1 }] }],
+      });
+      expect(
+        schema.parse({
+          id: 1,
+          payers: { $some: { name: "John" }, $every: { email: "a@b.c" } },
+          $or: [],
+        })
+      ).toEqual({
+        id: 1,
+        payers: { $some: { name: "John" } },
+        $or: [],
+      });
+    });
+
+    it("should reject filters that stripping would leave matching everything", () => {
+      interface Invoice {
+        id: number;
+        account: Account;
+        payers: Account[];
+      }
+      const builder = new FilterQuerySchemaBuilder<Invoice, RequestContext>({
+        forbiddenFields: "strip",
+      })
+        .addField({ field: "id", type: "number" })
+        .addRelation("account", createAccountBuilder())
+        .addCollection("payers", createAccountBuilder());
+      const schema = builder.build({ roles: ["user"] });
+      const issues = (input: unknown) => {
+        const result = schema.safeParse(input);
+        return result.success
+          ? []
+          : builder
+              .formatError(result.error)
+              .map(({ code, path }) => ({ code, path }));
+      };
+
+      expect(issues({ account: { email: "a@b.c" } })).toEqual([
+        { code: "inaccessible_conditions", path: "" },
+      ]);
+      expect(issues({ $or: [{ account: { email: "a@b.c" } }], id: 1 })).toEqual(
+        [{ code: "inaccessible_conditions", path: "$or" }]
+      );
+      expect(issues({ id: 1, $not: { account: { email: "a@b.c" } } })).toEqual([
+        { code: "inaccessible_conditions", path: "$not" },
+      ]);
+      expect(
+        issues({
+          id: 1,
+          $not: { $or: [{ id: 2 }, { account: { email: "a@b.c" } }] },
+        })
+      ).toEqual([{ code: "inaccessible_conditions", path: "$not.$or[1]" }]);
+      expect(
+        issues({
+          id: 1,
+          payers: { $some: { name: "John" }, $none: { email: "a@b.c" } },
+        })
+      ).toEqual([{ code: "inaccessible_conditions", path: "payers.$none" }]);
+      expect(issues({})).toEqual([]);
+      expect(issues({ $not: { id: 1, account: { email: "a@b.c" } } })).toEqual(
+        []
+      );
+
+      const result = schema.safeParse({
+        $or: [{ account: { email: "a@b.c" } }],
+        id: 1,
+      });
+      expect(result.error?.issues[0].message).toBe(
+        'Conditions on inaccessible fields cannot be removed from "$or"'
+      );
+    });
+
+    it("should not run callback replacements of inaccessible fields", () => {
+      let calls = 0;
+      const builder = new FilterQuerySchemaBuilder<Account, RequestContext>({
+        forbiddenFields: "strip",
+      })
+        .addField({ field: "name", type: "string" })
+        .addField({
+          field: "keyword",
+          type: "string",
+          access: ["admin"],
+          replacement: () => {
+            calls++;
+            return { name: "replaced" };
+          },
+        });
+
+      expect(
+        builder
+          .build({ roles: ["user"] })
+          .parse({ keyword: "john", name: "Jane" })
+      ).toEqual({ name: "Jane" });
+      expect(calls).toBe(0);
+      expect(
+        builder.build({ roles: ["admin"] }).parse({ keyword: "john" })
+      ).toEqual({ name: "replaced" });
+    });
+
+    it("should check the fields of mounted builders with the same context", () => {
+      interface Invoice {
+        id: number;
+        account: Account;
+      }
+      const schema = new FilterQuerySchemaBuilder<Invoice, RequestContext>()
+        .addRelation("account", createAccountBuilder())
+        .build({ roles: ["user"] });
+
+      expect(schema.safeParse({ account: { name: "John" } }).success).toBe(
+        true
+      );
+      expect(schema.safeParse({ account: { email: "a@b.c" } }).success).toBe(
+        false
+      );
+    });
+  });
+
+  describe("Date coercion", () => {
+    it("should not coerce dates by default", () => {
+      const schema = createUserBuilder().build();
+
+      expect(schema.parse({ createdAt: { $gte: "2024-01-01" } })).toEqual({
+        createdAt: { $gte: "2024-01-01" },
+      });
+    });
+
+    it("should coerce date values into Date instances", () => {
+      const schema = createUserBuilder({ dates: {} }).build();
+      const date = new Date("2024-06-01T12:00:00Z");
+
+      expect(schema.parse({ createdAt: "2024-01-01T10:00:00+02:00" })).toEqual({
+        createdAt: new Date("2024-01-01T08:00:00.000Z"),
+      });
+      expect(
+        schema.parse({
+          createdAt: { $ne: date, $in: ["2024-01-01", "2024-01-02T00:00:00Z"] },
+        })
+      ).toEqual({
+        createdAt: {
+          $ne: date,
+          $in: [
+            new Date("2024-01-01T00:00:00.000Z"),
+            new Date("2024-01-02T00:00:00.000Z"),
+          ],
+        },
+      });
+      expect(schema.parse({ createdAt: null })).toEqual({ createdAt: null });
+    });
+
+    it("should interpret date-only values in the configured time zone", () => {
+      const schema = createUserBuilder({
+        dates: { timeZone: "Asia/Shanghai" },
+      }).build();
+
+      expect(
+        schema.parse({ createdAt: { $gte: "2024-01-01", $lte: "2024-01-31" } })
+      ).toEqual({
+        createdAt: {
+          $gte: new Date("2023-12-31T16:00:00.000Z"),
+          $lte: new Date("2024-01-31T15:59:59.999Z"),
+        },
+      });
+      expect(schema.parse({ createdAt: { $gt: "2024-01-31T08:00" } })).toEqual({
+        createdAt: { $gt: new Date("2024-01-31T00:00:00.000Z") },
+      });
+    });
+
+    it("should treat date-only upper bounds as the end of the day", () => {
+      const schema = createUserBuilder({ dates: {} }).build();
+
+      expect(
+        schema.parse({ createdAt: { $gt: "2024-01-31", $lt: "2024-02-29" } })
+      ).toEqual({
+        createdAt: {
+          $gt: new Date("2024-01-31T23:59:59.999Z"),
+          $lt: new Date("2024-02-29T00:00:00.000Z"),
+        },
+      });
+    });
+
+    it("should use the start of the day for all operators without endOfDay", () => {
+      const schema = createUserBuilder({ dates: { endOfDay: false } }).build();
+
+      expect(schema.parse({ createdAt: { $lte: "2024-01-31" } })).toEqual({
+        createdAt: { $lte: new Date("2024-01-31T00:00:00.000Z") },
+      });
+    });
+
+    it("should coerce dates in nested queries and query strings", () => {
+      const schema = createUserBuilder({ dates: {} }).buildQueryStringSchema();
+
+      expect(
+        schema.parse(
+          "$or[0][createdAt][$lte]=2024-01-31&$or[1][createdAt]=null"
+        )
+      ).toEqual({
+        $or: [
+          { createdAt: { $lte: new Date("2024-01-31T23:59:59.999Z") } },
+          { createdAt: null },
+        ],
+      });
+    });
+
+    it("should still reject invalid date values", () => {
+      const schema = createUserBuilder({ dates: {} }).build();
+
+      expect(schema.safeParse({ createdAt: "2024-13-01" }).success).toBe(false);
+      expect(
+        schema.safeParse({ createdAt: { $gte: "yesterday" } }).success
+      ).toBe(false);
+    });
+
+    it("should throw for unknown time zones", () => {
+      expect(() =>
+        createUserBuilder({ dates: { timeZone: "Mars/Olympus_Mons" } })
+      ).toThrow('Unknown time zone "Mars/Olympus_Mons"');
+    });
+  });
+
+  describe("Relative dates", () => {
+    const now = new Date("2024-03-15T10:30:00.000Z");
+
+    function createEventBuilder(options?: Partial<FilterOptions>) {
+      return new FilterQuerySchemaBuilder<User>({ now: () => now, ...options })
+        .addField({ field: "createdAt", type: "date", relative: true })
+        .addField({ field: "age", type: "number" });
+    }
+
+    it("should resolve relative expressions against the clock", () => {
+      const schema = createEventBuilder().build();
+
+      expect(schema.parse({ createdAt: { $gte: "now-7d" } })).toEqual({
+        createdAt: { $gte: new Date("2024-03-08T10:30:00.000Z") },
+      });
+      expect(schema.parse({ createdAt: "startOf:month" })).toEqual({
+        createdAt: new Date("2024-03-01T00:00:00.000Z"),
+      });
+      expect(
+        schema.parse({ createdAt: { $in: ["now/d", "now-1d/d"] } })
+      ).toEqual({
+        createdAt: {
+          $in: [
+            new Date("2024-03-15T00:00:00.000Z"),
+            new Date("2024-03-14T00:00:00.000Z"),
+          ],
+        },
+      });
+    });
+
+    it("should round up upper bounds", () => {
+      const schema = createEventBuilder().build();
+
+      expect(
+        schema.parse({ createdAt: { $gte: "now-1M/M", $lte: "now-1M/M" } })
+      ).toEqual({
+        createdAt: {
+          $gte: new Date("2024-02-01T00:00:00.000Z"),
+          $lte: new Date("2024-02-29T23:59:59.999Z"),
+        },
+      });
+      expect(
+        createEventBuilder({ dates: { endOfDay: false } })
+          .build()
+          .parse({ createdAt: { $lte: "now/d" } })
+      ).toEqual({
+        createdAt: { $lte: new Date("2024-03-15T00:00:00.000Z") },
+      });
+    });
+
+    it("should call the clock on every parse", () => {
+      let time = now.getTime();
+      const schema = createEventBuilder({ now: () => new Date(time) }).build();
+
+      expect(schema.parse({ createdAt: "now" })).toEqual({
+        createdAt: new Date("2024-03-15T10:30:00.000Z"),
+      });
+      time += 60_000;
+      expect(schema.parse({ createdAt: "now" })).toEqual({
+        createdAt: new Date("2024-03-15T10:31:00.000Z"),
+      });
+    });
+
+    it("should round in the configured time zone", () => {
+      const schema = createEventBuilder({
+        dates: { timeZone: "Asia/Tokyo" },
+      }).build();
+
+      expect(
+        schema.parse({ createdAt: { $gte: "now/d", $lt: "2024-03-16" } })
+      ).toEqual({
+        createdAt: {
+          $gte: new Date("2024-03-14T15:00:00.000Z"),
+          $lt: new Date("2024-03-15T15:00:00.000Z"),
+        },
+      });
+    });
+
+    it("should keep absolute values unless dates are coerced", () => {
+      const schema = createEventBuilder().build();
+
+      expect(
+        schema.parse({ createdAt: { $gte: "2024-01-01", $lt: "now" } })
+      ).toEqual({ createdAt: { $gte: "2024-01-01", $lt: now } });
+    });
+
+    it("should reject malformed expressions", () => {
+      const schema = createEventBuilder().build();
+
+      const result = schema.safeParse({ createdAt: { $gte: "now-7x" } });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe(
+        'Expected a date or relative date expression for operator "$gte" on field "createdAt"'
+      );
+      expect(schema.safeParse({ createdAt: "yesterday" }).success).toBe(false);
+    });
+
+    it("should reject expressions outside of the supported date range", () => {
+      const schema = createEventBuilder().build();
+
+      for (const createdAt of [
+        "now+300000y",
+        "now+273000y+999999d",
+        { $lte: "now-400000y/d" },
+        "now+99999999999999999999h",
+      ]) {
+        const result = schema.safeParse({ createdAt });
+        expect(result.success).toBe(false);
+        expect(result.error?.issues[0].message).toBe(
+          'Expected a date or relative date expression for field "createdAt"'
+        );
+      }
+    });
+
+    it("should reject relative expressions for fields without relative", () => {
+      const schema = createUserBuilder().build();
+
+      expect(schema.safeParse({ createdAt: { $gte: "now-7d" } }).success).toBe(
+        false
+      );
+    });
+
+    it("should resolve relative expressions in query strings", () => {
+      const schema = createEventBuilder().buildQueryStringSchema();
+
+      expect(
+        schema.parse("createdAt[$gte]=now-7d&createdAt[$lt]=now%2B1d")
+      ).toEqual({
+        createdAt: {
+          $gte: new Date("2024-03-08T10:30:00.000Z"),
+          $lt: new Date("2024-03-16T10:30:00.000Z"),
+        },
+      });
+    });
+
+    it("should export the expression pattern as JSON Schema", () => {
+      const jsonSchema = createEventBuilder().toJsonSchema();
+      const eq = jsonSchema.$defs?.Filter_createdAt.anyOf?.[0];
+
+      expect(eq?.anyOf).toContainEqual({
+        type: "string",
+        pattern: RELATIVE_DATE_PATTERN.source,
+      });
+    });
+  });
+
+  describe("Filter tree", () => {
+    interface Comment {
+      id: number;
+      likes: number;
+    }
+
+    interface Article {
+      id: number;
+      title: string;
+      author: { name: string; age: number };
+      comments: Comment[];
+    }
+
+    function createArticleBuilder() {
+      return new FilterQuerySchemaBuilder<Article>()
+        .addField({
+          field: "title",
+          type: "string",
+          operators: { include: ["$eq", "$ne", "$includes"] },
+          patterns: { leadingWildcard: true },
+        })
+        .addField({
+          field: "authorName",
+          type: "string",
+          replacement: "author.name",
+        })
+        .addCollection(
+          "comments",
+          new FilterQuerySchemaBuilder<Comment>().addField({
+            field: "likes",
+            type: "number",
+          })
+        );
+    }
+
+    it("should build the filter tree of validated queries", () => {
+      const schema = createArticleBuilder().buildAst();
+
+      expect(
+        schema.parse({
+          $or: [
+            { title: { $includes: "orm" } },
+            { comments: { $some: { likes: { $gte: 10 } } } },
+          ],
+          authorName: "John",
+        })
+      ).toEqual({
+        type: "and",
+        conditions: [
+          {
+            type: "or",
+            conditions: [
+              {
+                type: "comparison",
+                field: "title",
+                operator: "$ilike",
+                value: "%orm%",
+              },
+              {
+                type: "collection",
+                field: "comments",
+                operator: "$some",
+                condition: {
+                  type: "comparison",
+                  field: "likes",
+                  operator: "$gte",
+                  value: 10,
+                },
+              },
+            ],
+          },
+          {
+            type: "comparison",
+            field: "author.name",
+            operator: "$eq",
+            value: "John",
+          },
+        ],
+      });
+      expect(schema.safeParse({ title: { $gt: "a" } }).success).toBe(false);
+    });
+
+    it("should include scopes in the filter tree", () => {
+      const schema = createArticleBuilder()
+        .withScope(() => ({ title: { $ne: "Draft" } }))
+        .buildAst();
+
+      expect(schema.parse({ title: "Hello" })).toEqual({
+        type: "and",
+        conditions: [
+          {
+            type: "comparison",
+            field: "title",
+            operator: "$ne",
+            value: "Draft",
+          },
+          {
+            type: "comparison",
+            field: "title",
+            operator: "$eq",
+            value: "Hello",
+          },
+        ],
+      });
+    });
+
+    it("should compile the filter tree with buildWith", () => {
+      const builder = createArticleBuilder();
+      const input = {
+        authorName: "John",
+        comments: { $none: { likes: { $lt: 0 } } },
+      };
+
+      expect(builder.buildWith(compileMikroOrmFilter).parse(input)).toEqual({
+        author: { name: "John" },
+        comments: { $none: { likes: { $lt: 0 } } },
+      });
+      expect(builder.buildWith(compileMongoFilter).parse(input)).toEqual({
+        $and: [
+          { "author.name": { $eq: "John" } },
+          { comments: { $not: { $elemMatch: { likes: { $lt: 0 } } } } },
+        ],
+      });
+
+      const predicate = builder.buildWith(compileFilterPredicate).parse(input);
+      expect(
+        predicate({ author: { name: "John" }, comments: [{ likes: 1 }] })
+      ).toBe(true);
+      expect(
+        predicate({ author: { name: "John" }, comments: [{ likes: -1 }] })
+      ).toBe(false);
+      expect(predicate({ author: { name: "Jane" }, comments: [] })).toBe(false);
+    });
+
+    it("should reject invalid queries before compiling", () => {
+      const result = createArticleBuilder()
+        .buildWith(compileMongoFilter)
+        .safeParse({ unknown: 1 });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("Visitors", () => {
+    interface Author {
+      id: number;
+      email: string;
+    }
+
+    interface Comment {
+      likes: number;
+      author: Author;
+    }
+
+    interface Article {
+      id: number;
+      title: string;
+      email: string;
+      author: Author;
+      comments: Comment[];
+    }
+
+    function createAuthorBuilder() {
+      return new FilterQuerySchemaBuilder<Author>()
+        .addField({ field: "id", type: "number" })
+        .addField({ field: "email", type: "string" });
+    }
+
+    function createArticleBuilder() {
+      return new FilterQuerySchemaBuilder<Article>()
+        .addField({ field: "id", type: "number" })
+        .addField({ field: "title", type: "string" })
+        .addField({ field: "email", type: "string" })
+        .addRelation("author", createAuthorBuilder())
+        .addCollection(
+          "comments",
+          new FilterQuerySchemaBuilder<Comment>()
+            .addField({ field: "likes", type: "number" })
+            .addRelation("author", createAuthorBuilder())
+        );
+    }
+
+    it("should visit every condition and logical node with its path and depth", () => {
+      const visited: string[] = [];
+      const schema = createArticleBuilder()
+        .use((node, { path, depth }) => {
+          visited.push(
+            `${node.type === "condition" ? node.operator : node.type} ${path} ${depth}`
+          );
+        })
+        .build();
+
+      const input = {
+        id: { $gte: 1, $lt: 10 },
+        $or: [{ title: "Hello" }, { $not: { email: "a@b.c" } }],
+        author: { email: "x@y.z" },
+        comments: { $some: { author: { id: 1 } } },
+      };
+      expect(schema.parse(input)).toEqual(input);
+      expect(visited).toEqual([
+        "$eq $or[0].title 1",
+        "$eq $or[1].$not.email 2",
+        "not $or[1].$not 1",
+        "or $or 0",
+        "$gte id 0",
+        "$lt id 0",
+        "$eq author.email 1",
+        "$eq comments.$some.author.id 2",
+      ]);
+    });
+
+    it("should rewrite conditions before replacements", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({
+          field: "email",
+          type: "string",
+          replacement: "author.email",
+        })
+        .use((node) => {
+          if (
+            node.type === "condition" &&
+            node.field === "email" &&
+            typeof node.value === "string"
+          ) {
+            return { ...node, value: node.value.toLowerCase() };
+          }
+        })
+        .build();
+
+      expect(schema.parse({ email: "John@Example.com" })).toEqual({
+        author: { email: "john@example.com" },
+      });
+      expect(
+        schema.parse({
+          $or: [{ email: { $in: ["A@B.C"] } }, { email: { $ne: "X@Y.Z" } }],
+        })
+      ).toEqual({
+        $or: [
+          { author: { email: { $in: ["A@B.C"] } } },
+          { author: { email: { $ne: "x@y.z" } } },
+        ],
+      });
+    });
+
+    it("should rewrite operators and fields", () => {
+      const legacyIds: Record<number, number> = { 1: 101, 2: 102 };
+      const schema = createArticleBuilder()
+        .use((node) => {
+          if (
+            node.type === "condition" &&
+            node.field === "id" &&
+            node.operator === "$eq"
+          ) {
+            return {
+              ...node,
+              operator: "$in",
+              value: [node.value, legacyIds[node.value as number]],
+            };
+          }
+          if (node.type === "condition" && node.field === "title") {
+            return { ...node, field: "email" };
+          }
+        })
+        .build();
+
+      expect(schema.parse({ id: 1 })).toEqual({ id: { $in: [1, 101] } });
+      expect(schema.parse({ title: "Hello" })).toEqual({ email: "Hello" });
+      expect(schema.parse({ title: "Hello", email: "x" })).toEqual({
+        email: "Hello",
+        $and: [{ email: "x" }],
+      });
+      expect(schema.parse({ title: "Hello", email: { $ne: "x" } })).toEqual({
+        email: { $eq: "Hello", $ne: "x" },
+      });
+    });
+
+    it("should drop conditions and empty filter objects", () => {
+      const schema = createArticleBuilder()
+        .use((node) =>
+          node.type === "condition" && node.field === "email" ? null : undefined
+        )
+        .build();
+
+      expect(schema.parse({ title: "Hello", email: "x" })).toEqual({
+        title: "Hello",
+      });
+      expect(
+        schema.parse({ $or: [{ email: "x" }, { title: "Hello" }] })
+      ).toEqual({ $or: [{ title: "Hello" }] });
+      expect(
+        schema.parse({
+          $or: [{ email: "x" }],
+          $not: { email: "y" },
+          author: { email: "z" },
+        })
+      ).toEqual({});
+      expect(
+        schema.parse({
+          comments: { $some: { author: { email: "x" } }, $none: { likes: 0 } },
+        })
+      ).toEqual({
+        comments: { $none: { likes: 0 } },
+      });
+      expect(schema.parse({ $and: [] })).toEqual({ $and: [] });
+    });
+
+    it("should rewrite and drop logical nodes", () => {
+      const schema = createArticleBuilder()
+        .use((node) => {
+          if (node.type === "not") {
+            return null;
+          }
+          if (node.type === "or" && node.conditions.length === 1) {
+            return { type: "and", conditions: node.conditions };
+          }
+        })
+        .build();
+
+      expect(schema.parse({ title: "Hello", $not: { id: 1 } })).toEqual({
+        title: "Hello",
+      });
+      expect(schema.parse({ $or: [{ id: 1 }] })).toEqual({ $and: [{ id: 1 }] });
+      expect(schema.parse({ $or: [{ id: 1 }, { id: 2 }] })).toEqual({
+        $or: [{ id: 1 }, { id: 2 }],
+      });
+    });
+
+    it("should run visitors in order", () => {
+      const schema = createArticleBuilder()
+        .use((node) =>
+          node.type === "condition"
+            ? { ...node, value: `${String(node.value)}-a` }
+            : undefined
+        )
+        .use((node) =>
+          node.type === "condition"
+            ? { ...node, value: `${String(node.value)}-b` }
+            : undefined
+        )
+        .build();
+
+      expect(schema.parse({ title: "x" })).toEqual({ title: "x-a-b" });
+    });
+
+    it("should run visitors of nested builders first", () => {
+      const order: string[] = [];
+      const authorBuilder = createAuthorBuilder().use((node, { path }) => {
+        order.push(`author ${path}`);
+      });
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({ field: "title", type: "string" })
+        .addRelation("author", authorBuilder)
+        .use((node, { path }) => {
+          order.push(`article ${path}`);
+        })
+        .build();
+
+      schema.parse({ title: "Hello", author: { id: 1 } });
+      expect(order).toEqual([
+        "article title",
+        "author author.id",
+        "article author.id",
+      ]);
+      expect(authorBuilder.build().parse({ id: 1 })).toEqual({ id: 1 });
+    });
+
+    it("should pass the context and not visit scopes", () => {
+      const visited: unknown[] = [];
+      const schema = new FilterQuerySchemaBuilder<Article, { userId: number }>()
+        .addField({ field: "title", type: "string" })
+        .withScope(({ userId }) => ({ author: { id: userId } }))
+        .use((node, { context }) => {
+          visited.push(context);
+        })
+        .build({ userId: 7 });
+
+      expect(schema.parse({ title: "Hello" })).toEqual({
+        $and: [{ author: { id: 7 } }, { title: "Hello" }],
+      });
+      expect(visited).toEqual([{ userId: 7 }]);
+    });
+
+    it("should not revalidate rewritten nodes", () => {
+      const schema = createArticleBuilder()
+        .use((node) =>
+          node.type === "condition" ? { ...node, value: 42 } : undefined
+        )
+        .build();
+
+      expect(schema.parse({ title: "Hello" })).toEqual({ title: 42 });
+      expect(schema.safeParse({ title: 1 }).success).toBe(false);
+    });
+  });
+
+  describe("Replacement merging", () => {
+    interface Article {
+      id: number;
+      title: string;
+      content: string;
+      createdAt: Date;
+      author: { name: string; age: number };
+    }
+
+    function createArticleBuilder(options?: Partial<FilterOptions>) {
+      return new FilterQuerySchemaBuilder<Article>(options)
+        .addField({ field: "id", type: "number" })
+        .addField({
+          field: "keyword",
+          type: "string",
+          replacement: ({ operator, value }) => ({
+            $or: [
+              { title: { [operator]: value } },
+              { content: { [operator]: value } },
+            ],
+          }),
+        })
+        .addField({
+          field: "search",
+          type: "string",
+          replacement: ({ value }) => ({
+            $or: [{ title: value }, { author: { name: value } }],
+          }),
+        })
+        .addField({
+          field: "authorName",
+          type: "string",
+          replacement: "author.name",
+        })
+        .addField({
+          field: "authorAge",
+          type: "number",
+          replacement: "author.age",
+        });
+    }
+
+    it("should combine the results of multiple operators with $and", () => {
+      const schema = createArticleBuilder().build();
+
+      expect(schema.parse({ keyword: { $ne: "a", $nin: ["b", "c"] } })).toEqual(
+        {
+          $and: [
+            { $or: [{ title: { $ne: "a" } }, { content: { $ne: "a" } }] },
+            {
+              $or: [
+                { title: { $nin: ["b", "c"] } },
+                { content: { $nin: ["b", "c"] } },
+              ],
+            },
+          ],
+        }
+      );
+    });
+
+    it("should combine the results of multiple callback fields with $and", () => {
+      const schema = createArticleBuilder().build();
+
+      expect(schema.parse({ keyword: "orm", search: "John" })).toEqual({
+        $and: [
+          { $or: [{ title: { $eq: "orm" } }, { content: { $eq: "orm" } }] },
+          { $or: [{ title: "John" }, { author: { name: "John" } }] },
+        ],
+      });
+    });
+
+    it("should append results to an existing $and of the input", () => {
+      const schema = createArticleBuilder().build();
+
+      expect(
+        schema.parse({ keyword: { $ne: "a", $in: ["b"] }, $and: [{ id: 1 }] })
+      ).toEqual({
+        $and: [
+          { id: 1 },
+          { $or: [{ title: { $ne: "a" } }, { content: { $ne: "a" } }] },
+          { $or: [{ title: { $in: ["b"] } }, { content: { $in: ["b"] } }] },
+        ],
+      });
+    });
+
+    it("should deep merge string replacements into the same relation", () => {
+      const schema = createArticleBuilder().build();
+
+      expect(
+        schema.parse({ authorName: "John", authorAge: { $gte: 18 } })
+      ).toEqual({ author: { name: "John", age: { $gte: 18 } } });
+    });
+
+    it("should wrap conflicting keys in $and with the and strategy", () => {
+      const schema = createArticleBuilder({ mergeStrategy: "and" }).build();
+
+      expect(
+        schema.parse({ authorName: "John", authorAge: { $gte: 18 } })
+      ).toEqual({
+        $and: [{ author: { name: "John" } }, { author: { age: { $gte: 18 } } }],
+      });
+      expect(schema.parse({ keyword: { $ne: "a", $nin: ["b", "c"] } })).toEqual(
+        {
+          $and: [
+            { $or: [{ title: { $ne: "a" } }, { content: { $ne: "a" } }] },
+            {
+              $or: [
+                { title: { $nin: ["b", "c"] } },
+                { content: { $nin: ["b", "c"] } },
+              ],
+            },
+          ],
+        }
+      );
+    });
+
+    it("should not merge $not conditions", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({ field: "title", type: "string" })
+        .addField({
+          field: "excludeTitle",
+          type: "string",
+          replacement: ({ value }) => ({ $not: { title: value } }),
+        })
+        .addField({
+          field: "excludeContent",
+          type: "string",
+          replacement: ({ value }) => ({ $not: { content: value } }),
+        })
+        .build();
+
+      expect(schema.parse({ excludeTitle: "a", excludeContent: "b" })).toEqual({
+        $and: [{ $not: { title: "a" } }, { $not: { content: "b" } }],
+      });
+    });
+
+    it("should combine callback results with conditions on the same field", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({ field: "title", type: "string" })
+        .addField({
+          field: "titlePrefix",
+          type: "string",
+          replacement: ({ value }) => ({
+            title: { $like: `${String(value)}%` },
+          }),
+        })
+        .addField({
+          field: "exactTitle",
+          type: "string",
+          replacement: ({ value }) => ({ title: value }),
+        })
+        .build();
+
+      expect(schema.parse({ title: { $ne: "a" }, titlePrefix: "b" })).toEqual({
+        $and: [{ title: { $ne: "a" } }, { title: { $like: "b%" } }],
+      });
+      expect(schema.parse({ title: "a", exactTitle: "b" })).toEqual({
+        $and: [{ title: "a" }, { title: "b" }],
+      });
+    });
+
+    it("should pass direct dates and arrays to callbacks as $eq", () => {
+      const calls: unknown[] = [];
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({
+          field: "created",
+          type: "date",
+          replacement: ({ operator, value }) => {
+            calls.push([operator, value]);
+            return { createdAt: value };
+          },
+        })
+        .build();
+      const date = new Date("2024-01-01T00:00:00.000Z");
+
+      expect(schema.parse({ created: date })).toEqual({ createdAt: date });
+      expect(calls).toEqual([["$eq", date]]);
+    });
+  });
+
+  describe("Async replacements", () => {
+    interface Author {
+      id: number;
+      slug: string;
+      name: string;
+    }
+
+    interface Article {
+      id: number;
+      title: string;
+      author: Author;
+      tags: number[];
+    }
+
+    const authorIds: Record<string, number> = { john: 1, jane: 2 };
+    const delay = <T>(value: T, ms = 0) =>
+      new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
+
+    it("should apply async replacement callbacks with parseAsync", async () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({ field: "title", type: "string" })
+        .addField({
+          field: "authorSlug",
+          type: "string",
+          replacement: async ({ value }) => ({
+            author: { id: await delay(authorIds[value as string]) },
+          }),
+        })
+        .buildAsync();
+
+      await expect(
+        schema.parseAsync({ authorSlug: "john", title: "Hello" })
+      ).resolves.toEqual({ title: "Hello", author: { id: 1 } });
+      await expect(
+        schema.parseAsync({
+          $or: [{ authorSlug: "john" }, { authorSlug: "jane" }],
+        })
+      ).resolves.toEqual({
+        $or: [{ author: { id: 1 } }, { author: { id: 2 } }],
+      });
+    });
+
+    it("should merge async results in input order", async () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({
+          field: "slow",
+          type: "string",
+          replacement: async ({ value }) => ({
+            $or: [{ title: await delay(value, 20) }],
+          }),
+        })
+        .addField({
+          field: "fast",
+          type: "string",
+          replacement: async ({ value }) => ({
+            $or: [{ title: await delay(value) }],
+          }),
+        })
+        .buildAsync();
+
+      await expect(
+        schema.parseAsync({ slow: "a", fast: "b" })
+      ).resolves.toEqual({
+        $and: [{ $or: [{ title: "a" }] }, { $or: [{ title: "b" }] }],
+      });
+    });
+
+    it("should keep async results of nested builders merged with sibling replacements", async () => {
+      const authorBuilder = new FilterQuerySchemaBuilder<Author>().addField({
+        field: "slug",
+        type: "string",
+        replacement: async ({ value }) => ({
+          id: await delay(authorIds[value as string]),
+        }),
+      });
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({
+          field: "authorName",
+          type: "string",
+          replacement: "author.name",
+        })
+        .addRelation("author", authorBuilder)
+        .buildAsync();
+
+      await expect(
+        schema.parseAsync({ authorName: "John", author: { slug: "jane" } })
+      ).resolves.toEqual({
+        author: { name: "John", id: 2 },
+      });
+      await expect(
+        schema.parseAsync({
+          $or: [{ author: { slug: "john" } }, { authorName: "Jane" }],
+          author: { slug: "jane" },
+        })
+      ).resolves.toEqual({
+        $or: [{ author: { id: 1 } }, { author: { name: "Jane" } }],
+        author: { id: 2 },
+      });
+    });
+
+    it("should still validate before running async callbacks", async () => {
+      let calls = 0;
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({
+          field: "authorSlug",
+          type: "string",
+          replacement: async ({ value }) => {
+            calls++;
+            return { author: { slug: value } };
+          },
+        })
+        .buildAsync();
+
+      const result = await schema.safeParseAsync({ authorSlug: 1 });
+      expect(result.success).toBe(false);
+      expect(calls).toBe(0);
+    });
+
+    it("should throw a clear error when async callbacks are used with build()", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({
+          field: "authorSlug",
+          type: "string",
+          replacement: async ({ value }) => ({ author: { slug: value } }),
+        })
+        .build();
+
+      expect(() => schema.parse({ authorSlug: "john" })).toThrow(
+        'Field "authorSlug" has an async replacement, use buildAsync() and parseAsync()'
+      );
+    });
+
+    it("should require parseAsync for schemas built with buildAsync()", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({
+          field: "authorSlug",
+          type: "string",
+          replacement: async ({ value }) => ({ author: { slug: value } }),
+        })
+        .buildAsync();
+
+      expect(() => schema.parse({ authorSlug: "john" })).toThrow("parseAsync");
+    });
+
+    it("should resolve values once per field across the whole filter", async () => {
+      const calls: string[][] = [];
+      const createAuthorBuilder = () =>
+        new FilterQuerySchemaBuilder<Author>().addField({
+          field: "slug",
+          type: "string",
+          resolve: async (slugs) => {
+            calls.push(slugs);
+            return slugs.map((slug) => `author:${slug}`);
+          },
+        });
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({
+          field: "authorSlug",
+          type: "string",
+          replacement: "author.id",
+          resolve: async (slugs) => {
+            calls.push(slugs);
+            return delay(slugs.map((slug) => authorIds[slug] ?? 0));
+          },
+        })
+        .addRelation("author", createAuthorBuilder())
+        .buildAsync();
+
+      await expect(
+        schema.parseAsync({
+          authorSlug: { $in: ["john", "jane"], $ne: "unknown" },
+          $or: [
+            { authorSlug: "john" },
+            { authorSlug: null },
+            { author: { slug: "john" } },
+          ],
+        })
+      ).resolves.toEqual({
+        $or: [
+          { author: { id: 1 } },
+          { author: { id: null } },
+          { author: { slug: "author:john" } },
+        ],
+        author: { id: { $in: [1, 2], $ne: 0 } },
+      });
+      expect(calls).toEqual([["john", "unknown", "jane"], ["john"]]);
+    });
+
+    it("should pass the context to resolvers and allow sync resolvers with build()", () => {
+      const schema = new FilterQuerySchemaBuilder<Article, { prefix: string }>()
+        .addField({
+          field: "title",
+          type: "string",
+          resolve: (titles, context) =>
+            titles.map((title) => `${context.prefix}${title}`),
+        })
+        .build({ prefix: "en:" });
+
+      expect(schema.parse({ title: { $in: ["a", "b"], $ne: "c" } })).toEqual({
+        title: { $in: ["en:a", "en:b"], $ne: "en:c" },
+      });
+    });
+
+    it("should not resolve pattern and fulltext values", () => {
+      let resolved: string[] = [];
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({
+          field: "title",
+          type: "string",
+          fulltext: true,
+          patterns: true,
+          resolve: (titles) => {
+            resolved = titles;
+            return titles;
+          },
+        })
+        .build();
+
+      schema.parse({ title: { $startsWith: "a", $fulltext: "b", $eq: "c" } });
+      expect(resolved).toEqual(["c"]);
+    });
+
+    it("should throw a clear error when async resolvers are used with build()", () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({
+          field: "title",
+          type: "string",
+          resolve: async (titles) => titles,
+        })
+        .build();
+
+      expect(() => schema.parse({ title: "a" })).toThrow(
+        'Field "title" resolves values asynchronously, use buildAsync() and parseAsync()'
+      );
+    });
+
+    it("should reject resolvers returning the wrong number of values", async () => {
+      const schema = new FilterQuerySchemaBuilder<Article>()
+        .addField({ field: "title", type: "string", resolve: async () => [] })
+        .buildAsync();
+
+      await expect(schema.parseAsync({ title: "a" })).rejects.toThrow(
+        'Resolver of field "title" returned 0 values for 1 values'
+      );
+    });
+  });
+
+  describe("Input type inference", () => {
+    interface Comment {
+      likes: number;
+    }
+
+    interface Article {
+      title: string;
+      status: string;
+      tags: string[];
+      publishedAt: Date | null;
+      comments: Comment[];
+      author: User;
+    }
+
+    const schema = new FilterQuerySchemaBuilder<Article>()
+      .addField({
+        field: "title",
+        type: "string",
+        fulltext: true,
+        patterns: { leadingWildcard: true },
+      })
+      .addField({
+        field: "status",
+        type: "enum",
+        values: ["draft", "published"],
+        nullable: false,
+      })
+      .addField({
+        field: "tags",
+        type: "string",
+        array: true,
+        operators: { exclude: ["$nin"] },
+      })
+      .addField({ field: "publishedAt", type: "date" })
+      .addField({
+        field: "authorName",
+        type: "string",
+        replacement: "author.name",
+      })
+      .addCollection(
+        "comments",
+        new FilterQuerySchemaBuilder<Comment>().addField({
+          field: "likes",
+          type: "number",
+        })
+      )
+      .addRelation(
+        "author",
+        new FilterQuerySchemaBuilder<User>().addField({
+          field: "age",
+          type: "number",
+        })
+      )
+      .build();
+
+    type Input = z.input<typeof schema>;
+
+    it("should type the added fields and their operators", () => {
+      const input: Input = {
+        title: { $fulltext: "orm", $includes: "mikro" },
+        status: { $in: ["draft", "published"] },
+        tags: { $contains: ["orm"], $overlap: ["ts"] },
+        publishedAt: { $gte: "2024-01-01", $lt: new Date("2025-01-01") },
+        authorName: "John",
+      };
+
+      expect(schema.safeParse(input).success).toBe(true);
+    });
+
+    it("should type logical operators, relations and collections", () => {
+      const input: Input = {
+        $or: [{ title: "Hello" }, { $not: { publishedAt: null } }],
+        comments: { $some: { likes: { $gte: 10 } } },
+        author: { age: { $lt: 30 } },
+      };
+
+      expect(schema.safeParse(input).success).toBe(true);
+    });
+
+    it("should reject inputs the schema does not accept at compile time", () => {
+      const inputs: Input[] = [
+        // @ts-expect-error unknown field
+        { content: "Hello" },
+        // @ts-expect-error $gt is only available for number and date fields
+        { title: { $gt: "a" } },
+        // @ts-expect-error the value is not one of the enum values
+        { status: "archived" },
+        // @ts-expect-error the field is not nullable
+        { status: null },
+        // @ts-expect-error $nin is excluded
+        { tags: { $nin: ["orm"] } },
+        // @ts-expect-error $like requires `patterns: { like: true }`
+        { title: { $like: "%orm" } },
+        // @ts-expect-error the nested field is not added
+        { comments: { $some: { author: "John" } } },
+      ];
+
+      expect(inputs.every((input) => !schema.safeParse(input).success)).toBe(
+        true
+      );
+    });
+
+    it("should accept any field for builders created from metadata", () => {
+      const schema = FilterQuerySchemaBuilder.fromMetadata(
+        getEntityMetadata(Post)
+      ).build();
+      const input: z.input<typeof schema> = {
+        title: "Hello",
+        viewCount: { $gte: 10 },
+      };
+
+      expect(schema.safeParse(input).success).toBe(true);
+    });
+  });
+
+  describe("GraphQL", () => {
+    interface Tag {
+      id: number;
+      name: string;
+    }
+
+    interface Article {
+      id: number;
+      title: string;
+      views: number;
+      status: string;
+      tags: Tag[];
+      parent: Article;
+      authorId: number;
+    }
+
+    function createArticleBuilder() {
+      const tagBuilder = new FilterQuerySchemaBuilder<Tag>().addField({
+        field: "name",
+        type: "string",
+      });
+      const builder = new FilterQuerySchemaBuilder<Article>({ maxDepth: 3 })
+        .addField({ field: "title", type: "string" })
+        .addField({ field: "views", type: "number" })
+        .addField({
+          field: "status",
+          type: "enum",
+          values: ["draft", "published"],
+        })
+        .addField({ field: "author", type: "number", replacement: "authorId" })
+        .addCollection("tags", tagBuilder);
+      return builder.addRelation("parent", builder);
+    }
+
+    it("should export the filter and comparison input types", () => {
+      expect(
+        createArticleBuilder().toGraphQLSdl({
+          name: "ArticleFilter",
+          numberType: "Int",
+        })
+      ).toBe(
+        [
+          '"""',
+          "Filter query. Logical operators can be nested at most 3 levels deep, with at most 5 or branches, " +
+            "and each object can have at most 20 field conditions.",
+          '"""',
+          "input ArticleFilter {",
+          "  and: [ArticleFilter!]",
+          "  or: [ArticleFilter!]",
+          "  not: ArticleFilter",
+          "  title: StringComparison",
+          "  views: IntComparison",
+          "  status: ArticleFilter_statusComparison",
+          "  author: IntComparison",
+          "  tags: ArticleFilter_tagsCollection",
+          "  parent: ArticleFilter",
+          "}",
+          "",
+          "input StringComparison {",
+          "  eq: String",
+          "  ne: String",
+          "  in: [String]",
+          "  nin: [String]",
+          "}",
+          "",
+          "input IntComparison {",
+          "  eq: Int",
+          "  ne: Int",
+          "  gt: Int",
+          "  gte: Int",
+          "  lt: Int",
+          "  lte: Int",
+          "  in: [Int]",
+          "  nin: [Int]",
+          "}",
+          "",
+          "enum ArticleFilter_statusValue {",
+          "  draft",
+          "  published",
+          "}",
+          "",
+          "input ArticleFilter_statusComparison {",
+          "  eq: ArticleFilter_statusValue",
+          "  ne: ArticleFilter_statusValue",
+          "  in: [ArticleFilter_statusValue]",
+          "  nin: [ArticleFilter_statusValue]",
+          "}",
+          "",
+          '"""',
+          "Filter query. Logical operators can be nested at most 5 levels deep, with at most 5 or branches, " +
+            "and each object can have at most 20 field conditions.",
+          '"""',
+          "input ArticleFilter_tags {",
+          "  and: [ArticleFilter_tags!]",
+          "  or: [ArticleFilter_tags!]",
+          "  not: ArticleFilter_tags",
+          "  name: StringComparison",
+          "}",
+          "",
+          "input ArticleFilter_tagsCollection {",
+          "  some: ArticleFilter_tags",
+          "  every: ArticleFilter_tags",
+          "  none: ArticleFilter_tags",
+          "}",
+          "",
+        ].join("\n")
+      );
+    });
+
+    it("should only list the allowed operators", () => {
+      const sdl = new FilterQuerySchemaBuilder<User>()
+        .addField({
+          field: "name",
+          type: "string",
+          fulltext: true,
+          operators: { include: ["$eq", "$fulltext"] },
+        })
+        .addField({ field: "roles", type: "string", array: true })
+        .addField({ field: "createdAt", type: "date" })
+        .toGraphQLSdl();
+
+      expect(sdl).toContain(
+        "input Filter_nameComparison {\n  eq: String\n  fulltext: String\n}"
+      );
+      expect(sdl).toContain("  contains: [String!]\n  overlap: [String!]\n}");
+      expect(sdl).toContain("  createdAt: DateTimeComparison");
+      expect(sdl).toContain("  gte: DateTime\n");
+      expect(sdl).toContain("  roles: Filter_rolesComparison");
+    });
+
+    it("should fall back to scalars for enum values that are not GraphQL names", () => {
+      const sdl = new FilterQuerySchemaBuilder<Article>()
+        .addField({
+          field: "status",
+          type: "enum",
+          values: ["in-review", "done"],
+        })
+        .addField({ field: "views", type: "enum", values: [1, 2, 3] })
+        .toGraphQLSdl({ numberType: "Int" });
+
+      expect(sdl).not.toContain("enum ");
+      expect(sdl).toContain("input Filter_statusComparison {\n  eq: String\n");
+      expect(sdl).toContain("input Filter_viewsComparison {\n  eq: Int\n");
+    });
+
+    it("should reject field names that are not valid in GraphQL", () => {
+      expect(() =>
+        new FilterQuerySchemaBuilder<User>()
+          .addField({ field: "created-at", type: "date" })
+          .toGraphQLSdl()
+      ).toThrow('Field "created-at" is not a valid GraphQL name');
+      expect(() =>
+        new FilterQuerySchemaBuilder<User>()
+          .addField({ field: "not", type: "boolean" })
+          .toGraphQLSdl()
+      ).toThrow(
+        'Field "not" conflicts with the logical operator of the GraphQL filter'
+      );
+    });
+
+    it("should map GraphQL arguments to the input format", () => {
+      const builder = createArticleBuilder();
+
+      expect(
+        builder.fromGraphQLInput({
+          or: [{ title: { eq: "Hello" } }, { views: { gte: 10, lt: null } }],
+          not: { status: { in: ["draft"] } },
+          tags: { some: { name: { eq: "news" } }, none: undefined },
+          parent: { author: { eq: null } },
+          views: null,
+          title: undefined,
+        })
+      ).toEqual({
+        $or: [{ title: { $eq: "Hello" } }, { views: { $gte: 10, $lt: null } }],
+        $not: { status: { $in: ["draft"] } },
+        tags: { $some: { name: { $eq: "news" } } },
+        parent: { author: { $eq: null } },
+        views: { $eq: null },
+      });
+      expect(builder.fromGraphQLInput(null)).toBeNull();
+    });
+
+    it("should map explicit nulls to null conditions and ignore omitted arguments", () => {
+      const builder = createArticleBuilder();
+      const schema = builder.build();
+
+      expect(
+        schema.parse(
+          builder.fromGraphQLInput({ title: null, views: undefined })
+        )
+      ).toEqual({ title: { $eq: null } });
+      expect(
+        schema.parse(builder.fromGraphQLInput({ parent: { title: null } }))
+      ).toEqual({ parent: { title: { $eq: null } } });
+      expect(
+        schema.parse(builder.fromGraphQLInput({ views: { eq: undefined } }))
+      ).toEqual({ views: {} });
+      expect(
+        builder.fromGraphQLInput({
+          and: null,
+          tags: { some: null },
+          parent: null,
+        })
+      ).toEqual({
+        $and: null,
+        tags: { $some: null },
+        parent: null,
+      });
+      expect(
+        schema.safeParse(builder.fromGraphQLInput({ and: null })).success
+      ).toBe(false);
+      expect(
+        schema.safeParse(builder.fromGraphQLInput({ tags: { some: null } }))
+          .success
+      ).toBe(false);
+    });
+
+    it("should validate mapped arguments with the schema", () => {
+      const builder = createArticleBuilder();
+      const schema = builder.build();
+
+      expect(
+        schema.parse(
+          builder.fromGraphQLInput({
+            author: { eq: 1 },
+            parent: { views: { gt: 5 } },
+          })
+        )
+      ).toEqual({
+        authorId: { $eq: 1 },
+        parent: { views: { $gt: 5 } },
+      });
+      expect(
+        schema.safeParse(builder.fromGraphQLInput({ title: { gt: "a" } }))
+          .success
+      ).toBe(false);
+    });
+  });
+
+  describe("Error formatting", () => {
+    interface Tag {
+      id: number;
+      name: string;
+    }
+
+    interface Account {
+      id: number;
+      name: string;
+      age: number;
+      salary: number;
+      isActive: boolean;
+      status: string;
+      tags: Tag[];
+    }
+
+    function createAccountBuilder() {
+      const tagBuilder = new FilterQuerySchemaBuilder<Tag>().addField({
+        field: "name",
+        type: "string",
+        patterns: { like: true },
+      });
+      return new FilterQuerySchemaBuilder<Account>({
+        maxDepth: 2,
+        maxOrBranches: 2,
+        maxArrayLength: 2,
+      })
+        .addField({ field: "name", type: "string" })
+        .addField({ field: "age", type: "number" })
+        .addField({ field: "salary", type: "number", access: ["admin"] })
+        .addField({
+          field: "isActive",
+          type: "boolean",
+          operators: { exclude: ["$eq"] },
+        })
+        .addField({
+          field: "status",
+          type: "enum",
+          values: ["active", "banned"],
+        })
+        .addCollection("tags", tagBuilder);
+    }
+
+    function formatError(input: unknown, context?: unknown) {
+      const builder = createAccountBuilder();
+      const result = builder.build(context).safeParse(input);
+      expect(result.success).toBe(false);
+      return builder.formatError(result.error!, context);
+    }
+
+    it("should suggest close field names for unknown fields", () => {
+      expect(formatError({ nmae: "John", title: "x" })).toEqual([
+        {
+          code: "unknown_field",
+          message: 'Unknown field "nmae", did you mean "name"?',
+          path: "nmae",
+          field: "nmae",
+          suggestion: "name",
+        },
+        {
+          code: "unknown_field",
+          message: 'Unknown field "title"',
+          path: "title",
+          field: "title",
+        },
+      ]);
+    });
+
+    it("should only suggest accessible fields", () => {
+      expect(formatError({ salry: 1 })[0].suggestion).toBeUndefined();
+      expect(
+        formatError({ salry: 1 }, { roles: ["admin"] })[0].suggestion
+      ).toBe("salary");
+      expect(formatError({ salary: 1 })).toEqual([
+        {
+          code: "field_not_accessible",
+          message: 'Field "salary" is not accessible',
+          path: "salary",
+          field: "salary",
+        },
+      ]);
+    });
+
+    it("should report operators that are not allowed for the field", () => {
+      expect(
+        formatError({ $or: [{ age: 1 }, { isActive: { $gt: true } }] })
+      ).toEqual([
+        {
+          code: "operator_not_allowed",
+          message: 'Operator "$gt" is not allowed for field "isActive"',
+          path: "$or[1].isActive.$gt",
+          field: "isActive",
+          operator: "$gt",
+        },
+      ]);
+      expect(formatError({ isActive: true })[0]).toMatchObject({
+        code: "operator_not_allowed",
+        path: "isActive",
+        operator: "$eq",
+      });
+    });
+
+    it("should suggest close operators for unknown operators", () => {
+      expect(formatError({ age: { $gtt: 1 } })[0]).toEqual({
+        code: "unknown_operator",
+        message: 'Unknown operator "$gtt" on field "age", did you mean "$gt"?',
+        path: "age.$gtt",
+        field: "age",
+        operator: "$gtt",
+        suggestion: "$gt",
+      });
+      expect(formatError({ $xor: [] })[0]).toMatchObject({
+        code: "unknown_operator",
+        suggestion: "$or",
+      });
+      expect(formatError({ tags: { $smoe: {} } })[0]).toMatchObject({
+        code: "unknown_operator",
+        path: "tags.$smoe",
+        field: "tags",
+        suggestion: "$some",
+      });
+    });
+
+    it("should report invalid values of the branch the input was meant for", () => {
+      expect(formatError({ age: "old" })).toEqual([
+        {
+          code: "invalid_value",
+          message: 'Expected a number for field "age"',
+          path: "age",
+          field: "age",
+          expected: "number",
+        },
+      ]);
+      expect(formatError({ $or: [{ age: { $gte: "18" } }] })[0]).toMatchObject({
+        code: "invalid_value",
+        message: 'Expected a number for operator "$gte" on field "age"',
+        path: "$or[0].age.$gte",
+      });
+      expect(formatError({ status: { $in: ["deleted"] } })[0]).toMatchObject({
+        code: "invalid_value",
+        message:
+          'Expected one of "active", "banned" for operator "$in" on field "status"',
+        path: "status.$in[0]",
+        expected: "enum",
+      });
+      expect(formatError({ age: { $in: 18 } })[0]).toMatchObject({
+        code: "invalid_value",
+        message: 'Expected an array for operator "$in" on field "age"',
+        expected: "array",
+      });
+    });
+
+    it("should report violated limits", () => {
+      expect(formatError({ $or: [{}, {}, {}] })).toEqual([
+        {
+          code: "too_many_branches",
+          message: "$or cannot have more than 2 branches",
+          path: "$or",
+          operator: "$or",
+          limit: 2,
+        },
+      ]);
+      expect(
+        formatError({ $not: { $not: { $not: { age: 1 } } } })[0]
+      ).toMatchObject({
+        code: "max_depth_exceeded",
+        path: "$not.$not.$not",
+        limit: 2,
+      });
+      expect(formatError({ age: { $in: [1, 2, 3] } })[0]).toMatchObject({
+        code: "too_many_values",
+        path: "age.$in",
+        limit: 2,
+      });
+    });
+
+    it("should report nested relation and pattern issues", () => {
+      expect(formatError({ tags: {} })[0]).toMatchObject({
+        code: "collection_operator_required",
+        field: "tags",
+      });
+      expect(
+        formatError({ tags: { $some: { name: { $like: "%news" } } } })[0]
+      ).toMatchObject({
+        code: "leading_wildcard",
+        path: "tags.$some.name.$like",
+        field: "name",
+        operator: "$like",
+      });
+      expect(
+        formatError({ tags: { $some: { nmae: "news" } } })[0]
+      ).toMatchObject({
+        code: "unknown_field",
+        path: "tags.$some.nmae",
+        suggestion: "name",
+      });
+    });
+
+    it("should report filters with the wrong shape", () => {
+      expect(formatError("name=John")).toEqual([
+        {
+          code: "invalid_filter",
+          message: "Expected a filter object",
+          path: "",
+          expected: "object",
+        },
+      ]);
+      expect(formatError({ $or: { age: 1 } })[0]).toMatchObject({
+        code: "invalid_filter",
+        message: 'Expected an array of filters for "$or"',
+      });
+    });
+
+    it("should report builder-wide limits at the root", () => {
+      const builder = new FilterQuerySchemaBuilder<User>({
+        maxTotalConditions: 2,
+        maxCost: 1,
+      }).addField({
+        field: "age",
+        type: "number",
+      });
+      const result = builder
+        .build()
+        .safeParse({ $or: [{ age: 1 }, { age: 2 }, { age: 3 }] });
+
+      expect(
+        builder
+          .formatError(result.error!)
+          .map(({ code, path, limit }) => ({ code, path, limit }))
+      ).toEqual([
+        { code: "too_many_total_conditions", path: "", limit: 2 },
+        { code: "cost_exceeded", path: "", limit: 1 },
+      ]);
+    });
+  });
+
+  describe("Localized messages", () => {
+    const zhMessages: Partial<FilterMessageCatalog> = {
+      operator_not_allowed: '字段 "{field}" 不支持运算符 "{operator}"',
+      too_many_branches: "{operator} 的分支不能超过 {limit} 个",
+      too_many_conditions: "筛选条件不能超过 {limit} 个",
+      too_many_total_conditions:
+        "筛选条件总数不能超过 {limit} 个，当前为 {count} 个",
+      unknown_field: ({ field, suggestion }) =>
+        suggestion
+          ? `未知字段 "${field}"，您是否想输入 "${suggestion}"？`
+          : `未知字段 "${field}"`,
+    };
+    const jaMessages: Partial<FilterMessageCatalog> = {
+      operator_not_allowed:
+        'フィールド "{field}" では演算子 "{operator}" を使用できません',
+    };
+
+    function createBuilder(options?: Partial<FilterOptions>) {
+      return new FilterQuerySchemaBuilder<User>({
+        maxOrBranches: 2,
+        maxConditions: 2,
+        ...options,
+      })
+        .addField({ field: "name", type: "string" })
+        .addField({ field: "age", type: "number" })
+        .addField({ field: "isActive", type: "boolean" });
+    }
+
+    it("should use the catalog for the issues of built schemas", () => {
+      const schema = createBuilder({
+        messages: zhMessages,
+        maxTotalConditions: 3,
+      }).build();
+
+      expect(
+        schema.safeParse({ isActive: { $gt: true } }).error?.issues[0].message
+      ).toBe('字段 "isActive" 不支持运算符 "$gt"');
+      expect(
+        schema.safeParse({ $or: [{}, {}, {}] }).error?.issues[0].message
+      ).toBe("$or 的分支不能超过 2 个");
+      expect(
+        schema.safeParse({ name: "a", age: 1, isActive: true }).error?.issues[0]
+          .message
+      ).toBe("筛选条件不能超过 2 个");
+      expect(
+        schema.safeParse({
+          $or: [
+            { name: "a", age: 1 },
+            { name: "b", age: 2 },
+          ],
+        }).error?.issues[0].message
+      ).toBe("筛选条件总数不能超过 3 个，当前为 4 个");
+    });
+
+    it("should use the catalog for formatted errors and keep the codes", () => {
+      const builder = createBuilder({ messages: zhMessages });
+      const result = builder
+        .build()
+        .safeParse({ nmae: "John", isActive: { $gt: true } });
+
+      expect(builder.formatError(result.error!)).toEqual([
+        {
+          code: "operator_not_allowed",
+          message: '字段 "isActive" 不支持运算符 "$gt"',
+          path: "isActive.$gt",
+          field: "isActive",
+          operator: "$gt",
+        },
+        {
+          code: "unknown_field",
+          message: '未知字段 "nmae"，您是否想输入 "name"？',
+          path: "nmae",
+          field: "nmae",
+          suggestion: "name",
+        },
+      ]);
+    });
+
+    it("should select the catalog for the request context", () => {
+      const catalogs: Record<string, Partial<FilterMessageCatalog>> = {
+        zh: zhMessages,
+        ja: jaMessages,
+      };
+      const builder = createBuilder({
+        messages: (context) => catalogs[(context as { locale: string }).locale],
+      });
+      const input = { isActive: { $gt: true } };
+
+      expect(
+        builder.build({ locale: "zh" }).safeParse(input).error?.issues[0]
+          .message
+      ).toBe('字段 "isActive" 不支持运算符 "$gt"');
+      expect(
+        builder.build({ locale: "ja" }).safeParse(input).error?.issues[0]
+          .message
+      ).toBe('フィールド "isActive" では演算子 "$gt" を使用できません');
+
+      const result = builder.build({ locale: "en" }).safeParse(input);
+      expect(result.error?.issues[0].message).toBe(
+        'Operator "$gt" is not allowed for field "isActive"'
+      );
+      expect(
+        builder.formatError(result.error!, { locale: "ja" })[0].message
+      ).toBe('フィールド "isActive" では演算子 "$gt" を使用できません');
+    });
+
+    it("should use the catalog for issues reported by Zod", () => {
+      const builder = createBuilder({
+        messages: {
+          ...zhMessages,
+          invalid_filter: '"{operator}" 必须是筛选条件数组',
+        },
+      });
+      const result = builder.build().safeParse({ nmae: "John", $or: "x" });
+
+      expect(result.error?.issues.map((issue) => issue.message)).toEqual([
+        '"$or" 必须是筛选条件数组',
+        '未知字段 "nmae"，您是否想输入 "name"？',
+      ]);
+      expect(
+        builder.formatError(result.error!).map((issue) => issue.message)
+      ).toEqual([
+        '"$or" 必须是筛选条件数组',
+        '未知字段 "nmae"，您是否想输入 "name"？',
+      ]);
+    });
+
+    it.each([
+      ["unknown_field", { nmae: "John" }],
+      ["unknown_operator", { $xor: [] }],
+      ["unknown_operator", { roles: { $any: {} } }],
+      ["operator_not_allowed", { isActive: { $gt: true } }],
+      ["invalid_value", { age: "18" }],
+      ["invalid_value", { age: { $in: 18 } }],
+      ["leading_wildcard", { name: { $like: "%a" } }],
+      ["multiple_patterns", { name: { $like: "a%", $startsWith: "b" } }],
+      ["collection_operator_required", { roles: {} }],
+      ["max_depth_exceeded", { $or: [{ $or: [] }] }],
+      ["too_many_conditions", { name: "a", age: 1, isActive: true }],
+      [
+        "too_many_total_conditions",
+        { $or: [{ name: "a", age: 1 }, { name: "b" }] },
+      ],
+      ["too_many_branches", { $or: [{}, {}, {}] }],
+      ["too_many_values", { age: { $in: [1, 2, 3] } }],
+      [
+        "cost_exceeded",
+        { $and: [{ name: "a" }, { name: "b" }, { name: "c" }] },
+      ],
+      ["invalid_filter", { $or: "x" }],
+      ["invalid_filter", "x"],
+    ] as const)(
+      "should use the %s message of the catalog in built schemas",
+      (code, input) => {
+        const messages = Object.fromEntries(
+          Object.keys(DEFAULT_FILTER_MESSAGES).map((key) => [key, `${key}!`])
+        ) as FilterMessageCatalog;
+        const schema = new FilterQuerySchemaBuilder<User>({
+          messages,
+          maxDepth: 1,
+          maxConditions: 2,
+          maxOrBranches: 2,
+          maxArrayLength: 2,
+          maxTotalConditions: 2,
+          maxCost: 2,
+        })
+          .addField({ field: "name", type: "string", patterns: { like: true } })
+          .addField({ field: "age", type: "number" })
+          .addField({ field: "isActive", type: "boolean" })
+          .addCollection(
+            "roles",
+            new FilterQuerySchemaBuilder<{ name: string }>().addField({
+              field: "name",
+              type: "string",
+            })
+          )
+          .build();
+
+        expect(
+          schema.safeParse(input).error?.issues.map((issue) => issue.message)
+        ).toContain(`${code}!`);
+      }
+    );
+
+    it("should fall back to English for codes without a message", () => {
+      const schema = createBuilder({ messages: jaMessages }).build();
+
+      expect(
+        schema.safeParse({ $or: [{}, {}, {}] }).error?.issues[0].message
+      ).toBe("$or cannot have more than 2 branches");
     });
   });
 });
@@ -0,0 +1,266 @@
+import { FilterQuerySchemaBuilder } from "../src/filter-query-schema-builder.js";
+import type { OrderByOptions } from "../src/interfaces/order-by-options.interface.js";
+import { OrderBySchemaBuilder } from "../src/order-by-schema-builder.js";
+import { DEFAULT_FILTER_MESSAGES } from "../src/utils/index.js";
+
+interface Post {
+  id: number;
+  title: string;
+  content: string;
+  createdAt: Date;
+  publishedAt: Date | null;
+  author: { name: string; age: number };
+}
+
+describe("OrderBySchemaBuilder", () => {
+  function createPostBuilder(options?: Partial<OrderByOptions>) {
+    return new OrderBySchemaBuilder<Post>(options)
+      .addField({ field: "id" })
+      .addField({ field: "title" })
+      .addField({ field: "createdAt" })
+      .addField({ field: "publishedAt", nulls: "last" })
+      .addField({ field: "authorName", replacement: "author.name" });
+  }
+
+  describe("Input formats", () => {
+    const schema = createPostBuilder().build();
+
+    it("should parse lists of sort keys", () => {
+      expect(schema.parse(["-createdAt", "title"])).toEqual([
+        { createdAt: "desc" },
+        { title: "asc" },
+      ]);
+      expect(schema.parse(["+id"])).toEqual([{ id: "asc" }]);
+      expect(schema.parse([])).toEqual([]);
+    });
+
+    it("should parse comma-separated sort keys", () => {
+      expect(schema.parse("-createdAt,title")).toEqual([
+        { createdAt: "desc" },
+        { title: "asc" },
+      ]);
+      expect(schema.parse(" -id , title ,")).toEqual([
+        { id: "desc" },
+        { title: "asc" },
+      ]);
+      expect(schema.parse("")).toEqual([]);
+    });
+
+    it("should parse objects of directions", () => {
+      expect(schema.parse({ createdAt: "desc", title: "ASC" })).toEqual([
+        { createdAt: "desc" },
+        { title: "asc" },
+      ]);
+    });
+
+    it("should keep the input order as sort priority", () => {
+      expect(
+        schema.parse(["title", "-id", "createdAt"]).flatMap(Object.keys)
+      ).toEqual(["title", "id", "createdAt"]);
+      expect(
+        schema.parse({ id: "asc", title: "desc" }).flatMap(Object.keys)
+      ).toEqual(["id", "title"]);
+    });
+
+    it("should reject other input types", () => {
+      expect(schema.safeParse(1).success).toBe(false);
+      expect(schema.safeParse([1]).success).toBe(false);
+      expect(schema.safeParse({ title: 1 }).success).toBe(false);
+      expect(schema.safeParse(null).success).toBe(false);
+    });
+  });
+
+  describe("Validation", () => {
+    const schema = createPostBuilder().build();
+
+    it("should reject unknown fields", () => {
+      const result = schema.safeParse(["title", "-content"]);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe(
+        'Field "content" is not sortable'
+      );
+      expect(result.error?.issues[0].path).toEqual([1]);
+      expect(schema.safeParse({ author: "asc" }).success).toBe(false);
+      expect(schema.safeParse("-").success).toBe(false);
+    });
+
+    it("should reject invalid directions", () => {
+      const result = schema.safeParse({ title: "up" });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe(
+        'Invalid sort direction "up", expected "asc" or "desc"'
+      );
+      expect(result.error?.issues[0].path).toEqual(["title"]);
+    });
+
+    it("should reject fields sorted more than once", () => {
+      const result = schema.safeParse(["title", "-title"]);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe(
+        'Field "title" is sorted more than once'
+      );
+    });
+
+    it("should limit the number of sort keys", () => {
+      expect(schema.safeParse(["id", "title", "createdAt"]).success).toBe(true);
+
+      const result = schema.safeParse([
+        "id",
+        "title",
+        "createdAt",
+        "publishedAt",
+      ]);
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe(
+        "Cannot sort by more than 3 fields, got 4"
+      );
+      expect(
+        createPostBuilder({ maxSortKeys: 1 }).build().safeParse("id,title")
+          .success
+      ).toBe(false);
+    });
+  });
+
+  describe("Output", () => {
+    it("should sort replacement fields by their path", () => {
+      const schema = createPostBuilder().build();
+
+      expect(schema.parse(["-authorName", "id"])).toEqual([
+        { author: { name: "desc" } },
+        { id: "asc" },
+      ]);
+    });
+
+    it("should keep the priority of replacement fields sharing a path prefix", () => {
+      const schema = createPostBuilder()
+        .addField({ field: "authorAge", replacement: "author.age" })
+        .build();
+
+      expect(schema.parse(["authorName", "-createdAt", "authorAge"])).toEqual([
+        { author: { name: "asc" } },
+        { createdAt: "desc" },
+        { author: { age: "asc" } },
+      ]);
+    });
+
+    it("should append the nulls placement", () => {
+      expect(
+        createPostBuilder().build().parse(["-publishedAt", "title"])
+      ).toEqual([{ publishedAt: "desc nulls last" }, { title: "asc" }]);
+      expect(
+        createPostBuilder({ nulls: "first" })
+          .build()
+          .parse(["-publishedAt", "title"])
+      ).toEqual([
+        { publishedAt: "desc nulls last" },
+        { title: "asc nulls first" },
+      ]);
+    });
+  });
+
+  describe("fromFilterBuilder", () => {
+    function createFilterBuilder() {
+      return new FilterQuerySchemaBuilder<Post, { roles: string[] }>()
+        .addField({ field: "title", type: "string" })
+        .addField({ field: "content", type: "string", sortable: false })
+        .addField({
+          field: "publishedAt",
+          type: "date",
+          sortable: { nulls: "first" },
+        })
+        .addField({
+          field: "authorName",
+          type: "string",
+          replacement: "author.name",
+        })
+        .addField({
+          field: "keyword",
+          type: "string",
+          replacement: ({ value }) => ({
+            $or: [{ title: value }, { content: value }],
+          }),
+        });
+    }
+
+    it("should share fields and replacement paths", () => {
+      const schema = OrderBySchemaBuilder.fromFilterBuilder(
+        createFilterBuilder()
+      ).build();
+
+      expect(schema.parse("-title,authorName,publishedAt")).toEqual([
+        { title: "desc" },
+        { author: { name: "asc" } },
+        { publishedAt: "asc nulls first" },
+      ]);
+    });
+
+    it("should skip unsortable and callback replacement fields", () => {
+      const schema = OrderBySchemaBuilder.fromFilterBuilder(
+        createFilterBuilder()
+      ).build();
+
+      expect(schema.safeParse("content").success).toBe(false);
+      expect(schema.safeParse("keyword").success).toBe(false);
+    });
+
+    it("should apply the given options", () => {
+      const schema = OrderBySchemaBuilder.fromFilterBuilder(
+        createFilterBuilder(),
+        { maxSortKeys: 1, nulls: "last" }
+      ).build();
+
+      expect(schema.parse("-title")).toEqual([{ title: "desc nulls last" }]);
+      expect(schema.safeParse("title,authorName").success).toBe(false);
+    });
+  });
+
+  describe("Messages", () => {
+    const messages = Object.fromEntries(
+      Object.keys(DEFAULT_FILTER_MESSAGES).map((code) => [
+        code,
+        `${code}: {field}{direction}`,
+      ])
+    );
+
+    it.each([
+      ["invalid_sort", 5, "invalid_sort: "],
+      ["invalid_sort", { title: 1 }, "invalid_sort: "],
+      ["field_not_sortable", "content", "field_not_sortable: content"],
+      ["duplicate_sort_field", "title,-title", "duplicate_sort_field: title"],
+      ["invalid_sort_direction", { title: "up" }, "invalid_sort_direction: up"],
+      [
+        "too_many_sort_keys",
+        "id,title,createdAt,publishedAt",
+        "too_many_sort_keys: ",
+      ],
+    ])("should use the %s message of the catalog", (code, input, message) => {
+      const result = createPostBuilder({ messages }).build().safeParse(input);
+
+      expect(result.error?.issues[0].message).toBe(message);
+      if (code !== "invalid_sort") {
+        expect(result.error?.issues[0]).toMatchObject({ params: { code } });
+      }
+    });
+
+    it("should select the catalog for the request context", () => {
+      const builder = createPostBuilder({
+        messages: (context) =>
+          (context as { locale: string }).locale === "zh"
+            ? { field_not_sortable: "字段 {field} 不可排序" }
+            : {},
+      });
+
+      expect(
+        builder.build({ locale: "zh" }).safeParse("content").error?.issues[0]
+          .message
+      ).toBe("字段 content 不可排序");
+      expect(
+        builder.build({ locale: "en" }).safeParse("content").error?.issues[0]
+          .message
+      ).toBe('Field "content" is not sortable');
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { compileFilterPredicate } from "../../src/utils/compile-filter-predicate.js";
+import { parseFilterNode } from "../../src/utils/parse-filter-node.js";
+
+describe("compileFilterPredicate", () => {
+  const matches = (filter: object, entity: object) =>
+    compileFilterPredicate(parseFilterNode(filter))(entity);
+
+  it("should match comparisons", () => {
+    expect(matches({ name: "John" }, { name: "John" })).toBe(true);
+    expect(matches({ name: "John" }, { name: "Jane" })).toBe(false);
+    expect(matches({ age: { $gte: 18, $lt: 65 } }, { age: 30 })).toBe(true);
+    expect(matches({ age: { $gte: 18, $lt: 65 } }, { age: 70 })).toBe(false);
+  });
+
+  it("should match logical operators", () => {
+    const filter = { $or: [{ name: "John" }, { $not: { age: { $lt: 18 } } }] };
+    expect(matches(filter, { name: "Jane", age: 20 })).toBe(true);
+    expect(matches(filter, { name: "Jane", age: 10 })).toBe(false);
+    expect(matches({}, { name: "Jane" })).toBe(true);
+  });
+
+  it("should follow nested field paths", () => {
+    expect(
+      matches({ author: { name: "John" } }, { author: { name: "John" } })
+    ).toBe(true);
+    expect(matches({ author: { name: "John" } }, { author: null })).toBe(false);
+  });
+
+  it("should match collection operators", () => {
+    const post = { comments: [{ likes: 5 }, { likes: 20 }] };
+    expect(
+      matches({ comments: { $some: { likes: { $gte: 10 } } } }, post)
+    ).toBe(true);
+    expect(
+      matches({ comments: { $every: { likes: { $gte: 10 } } } }, post)
+    ).toBe(false);
+    expect(
+      matches({ comments: { $none: { likes: { $gte: 50 } } } }, post)
+    ).toBe(true);
+  });
+
+  it("should throw for unknown operators", () => {
+    expect(() => matches({ name: { $regex: "a" } }, { name: "a" })).toThrow(
+      'Operator "$regex" cannot be evaluated'
+    );
+  });
+});
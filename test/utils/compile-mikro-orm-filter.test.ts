@@ -0,0 +1,93 @@
+import { compileMikroOrmFilter } from "../../src/utils/compile-mikro-orm-filter.js";
+import { parseFilterNode } from "../../src/utils/parse-filter-node.js";
+
+describe("compileMikroOrmFilter", () => {
+  const roundTrip = (filter: object) =>
+    compileMikroOrmFilter(parseFilterNode(filter));
+
+  it("should compile $eq comparisons into direct values", () => {
+    expect(
+      compileMikroOrmFilter({
+        type: "comparison",
+        field: "name",
+        operator: "$eq",
+        value: "John",
+      })
+    ).toEqual({ name: "John" });
+    expect(
+      compileMikroOrmFilter({
+        type: "comparison",
+        field: "age",
+        operator: "$gt",
+        value: 1,
+      })
+    ).toEqual({ age: { $gt: 1 } });
+  });
+
+  it("should compile field paths into nested objects", () => {
+    expect(
+      compileMikroOrmFilter({
+        type: "comparison",
+        field: "author.name",
+        operator: "$ne",
+        value: "John",
+      })
+    ).toEqual({
+      author: { name: { $ne: "John" } },
+    });
+  });
+
+  it("should round trip filter queries", () => {
+    const filters = [
+      { name: "John", age: { $gte: 18, $lt: 65 } },
+      { author: { name: "John", age: 30 }, title: { $in: ["a", "b"] } },
+      { $or: [{ name: "John" }, { $not: { age: null } }] },
+      {
+        comments: { $some: { isApproved: true }, $none: { likes: { $lt: 0 } } },
+      },
+      { createdAt: { $gte: new Date("2024-01-01") } },
+    ];
+
+    for (const filter of filters) {
+      expect(roundTrip(filter)).toEqual(filter);
+    }
+  });
+
+  it("should merge and conditions on distinct fields", () => {
+    expect(
+      roundTrip({
+        $and: [{ name: "John" }, { age: { $gte: 18 } }, { age: { $lt: 65 } }],
+      })
+    ).toEqual({
+      name: "John",
+      age: { $gte: 18, $lt: 65 },
+    });
+  });
+
+  it("should keep conflicting and conditions in $and", () => {
+    expect(
+      roundTrip({ $and: [{ age: { $gte: 18 } }, { age: { $gte: 21 } }] })
+    ).toEqual({ $and: [{ age: { $gte: 18 } }, { age: { $gte: 21 } }] });
+    expect(roundTrip({ $or: [{ a: 1 }], $and: [{ $or: [{ b: 1 }] }] })).toEqual(
+      { $and: [{ $or: [{ a: 1 }] }, { $or: [{ b: 1 }] }] }
+    );
+  });
+
+  it("should not modify conditions when merging fails", () => {
+    expect(
+      roundTrip({
+        $and: [
+          { author: { name: "John" } },
+          { author: { age: 30 } },
+          { author: { name: "Jane" } },
+        ],
+      })
+    ).toEqual({
+      $and: [
+        { author: { name: "John" } },
+        { author: { age: 30 } },
+        { author: { name: "Jane" } },
+      ],
+    });
+  });
+});
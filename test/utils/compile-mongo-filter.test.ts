@@ -0,0 +1,67 @@
+import { compileMongoFilter } from "../../src/utils/compile-mongo-filter.js";
+import { parseFilterNode } from "../../src/utils/parse-filter-node.js";
+
+describe("compileMongoFilter", () => {
+  const compile = (filter: object) =>
+    compileMongoFilter(parseFilterNode(filter));
+
+  it("should compile comparisons with dot notation paths", () => {
+    expect(compile({ author: { name: "John" } })).toEqual({
+      "author.name": { $eq: "John" },
+    });
+    expect(compile({ age: { $gte: 18 } })).toEqual({ age: { $gte: 18 } });
+  });
+
+  it("should compile logical operators", () => {
+    expect(compile({})).toEqual({});
+    expect(compile({ name: "John", age: { $in: [1, 2] } })).toEqual({
+      $and: [{ name: { $eq: "John" } }, { age: { $in: [1, 2] } }],
+    });
+    expect(compile({ $or: [{ name: "John" }, { name: "Jane" }] })).toEqual({
+      $or: [{ name: { $eq: "John" } }, { name: { $eq: "Jane" } }],
+    });
+    expect(compile({ $not: { name: "John" } })).toEqual({
+      $nor: [{ name: { $eq: "John" } }],
+    });
+  });
+
+  it("should translate array operators", () => {
+    expect(compile({ tags: { $contains: ["a", "b"] } })).toEqual({
+      tags: { $all: ["a", "b"] },
+    });
+    expect(compile({ tags: { $overlap: ["a", "b"] } })).toEqual({
+      tags: { $in: ["a", "b"] },
+    });
+  });
+
+  it("should translate pattern operators into regular expressions", () => {
+    expect(compile({ title: { $ilike: "50\\%%" } })).toEqual({
+      title: { $regex: "^50%[\\s\\S]*$", $options: "i" },
+    });
+    expect(compile({ title: { $like: "a_c" } })).toEqual({
+      title: { $regex: "^a[\\s\\S]c$", $options: "" },
+    });
+    expect(compile({ title: { $includes: "a.b" } })).toEqual({
+      title: { $regex: "^[\\s\\S]*a\\.b[\\s\\S]*$", $options: "i" },
+    });
+  });
+
+  it("should translate $fulltext into a text search", () => {
+    expect(compile({ content: { $fulltext: "orm filter" } })).toEqual({
+      $text: { $search: "orm filter" },
+    });
+  });
+
+  it("should translate collection operators into $elemMatch", () => {
+    const condition = { likes: { $gte: 10 } };
+    expect(compile({ comments: { $some: { likes: { $gte: 10 } } } })).toEqual({
+      comments: { $elemMatch: condition },
+    });
+    expect(compile({ comments: { $none: { likes: { $gte: 10 } } } })).toEqual({
+      comments: { $not: { $elemMatch: condition } },
+    });
+    expect(compile({ comments: { $every: { likes: { $gte: 10 } } } })).toEqual({
+      comments: { $not: { $elemMatch: { $nor: [condition] } } },
+    });
+  });
+});
@@ -0,0 +1,311 @@
+import { FilterQuerySchemaBuilder } from "../../src/filter-query-schema-builder.js";
+import { createFilterPredicate } from "../../src/utils/create-filter-predicate.js";
+
+interface Author {
+  name: string;
+  age: number;
+}
+
+interface Post {
+  id: number;
+  title: string;
+  views: number | null;
+  tags: string[];
+  publishedAt: Date | null;
+  author: Author | null;
+  comments: { likes: number }[];
+}
+
+describe("createFilterPredicate", () => {
+  function createPost(post: Partial<Post> = {}): Post {
+    return {
+      id: 1,
+      title: "Hello World",
+      views: 10,
+      tags: ["orm", "typescript"],
+      publishedAt: new Date("2024-03-15T10:00:00.000Z"),
+      author: { name: "John", age: 30 },
+      comments: [],
+      ...post,
+    };
+  }
+
+  const matches = (filter: object, post: Post = createPost()) =>
+    createFilterPredicate<Post>(filter)(post);
+
+  describe("$eq and $ne", () => {
+    it("should compare direct values and $eq", () => {
+      expect(matches({ id: 1 })).toBe(true);
+      expect(matches({ id: 2 })).toBe(false);
+      expect(matches({ title: { $eq: "Hello World" } })).toBe(true);
+      expect(matches({ title: { $eq: "hello world" } })).toBe(false);
+    });
+
+    it("should treat a list of values for a scalar field as $in", () => {
+      expect(matches({ id: [1, 2] })).toBe(true);
+      expect(matches({ id: { $eq: [2, 3] } })).toBe(false);
+    });
+
+    it("should compare array fields item by item", () => {
+      expect(matches({ tags: ["orm", "typescript"] })).toBe(true);
+      expect(matches({ tags: ["typescript", "orm"] })).toBe(false);
+      expect(matches({ tags: ["orm"] })).toBe(false);
+    });
+
+    it("should not match missing values with $ne", () => {
+      expect(matches({ views: { $ne: 5 } })).toBe(true);
+      expect(matches({ views: { $ne: 10 } })).toBe(false);
+      expect(matches({ views: { $ne: 5 } }, createPost({ views: null }))).toBe(
+        false
+      );
+    });
+  });
+
+  describe("null handling", () => {
+    it("should check for missing values with null", () => {
+      expect(matches({ views: null }, createPost({ views: null }))).toBe(true);
+      expect(matches({ views: null })).toBe(false);
+      expect(
+        matches({ views: { $eq: null } }, createPost({ views: null }))
+      ).toBe(true);
+      expect(matches({ views: { $ne: null } })).toBe(true);
+      expect(
+        matches({ views: { $ne: null } }, createPost({ views: null }))
+      ).toBe(false);
+    });
+
+    it("should treat undefined properties as null", () => {
+      const post = createPost();
+      delete (post as Partial<Post>).views;
+
+      expect(matches({ views: null }, post)).toBe(true);
+      expect(matches({ views: { $gt: 0 } }, post)).toBe(false);
+    });
+
+    it("should not match missing values with comparisons", () => {
+      const post = createPost({ views: null });
+
+      expect(matches({ views: { $gt: 0 } }, post)).toBe(false);
+      expect(matches({ views: { $lte: 0 } }, post)).toBe(false);
+      expect(matches({ views: { $in: [10] } }, post)).toBe(false);
+      expect(matches({ views: { $nin: [10] } }, post)).toBe(false);
+    });
+
+    it("should not match missing values when negated", () => {
+      const post = createPost({ views: null });
+
+      expect(matches({ $not: { views: { $gt: 0 } } }, post)).toBe(false);
+      expect(matches({ $not: { views: 10 } }, post)).toBe(false);
+      expect(matches({ $not: { views: null } }, post)).toBe(false);
+    });
+
+    it("should not match $in lists with null unless the value is listed", () => {
+      expect(matches({ views: { $in: [10, null] } })).toBe(true);
+      expect(
+        matches({ views: { $in: [5, null] } }, createPost({ views: null }))
+      ).toBe(false);
+      expect(matches({ views: { $nin: [5, null] } })).toBe(false);
+    });
+
+    it("should treat missing relations as null", () => {
+      const post = createPost({ author: null });
+
+      expect(matches({ author: { name: "John" } }, post)).toBe(false);
+      expect(matches({ author: { name: { $ne: "John" } } }, post)).toBe(false);
+      expect(matches({ author: { name: null } }, post)).toBe(true);
+    });
+  });
+
+  describe("comparison operators", () => {
+    it("should compare numbers and strings", () => {
+      expect(matches({ views: { $gt: 5, $lt: 20 } })).toBe(true);
+      expect(matches({ views: { $gte: 10, $lte: 10 } })).toBe(true);
+      expect(matches({ views: { $gt: 10 } })).toBe(false);
+      expect(matches({ title: { $gt: "A", $lt: "I" } })).toBe(true);
+    });
+
+    it("should compare dates by their timestamp", () => {
+      expect(
+        matches({ publishedAt: new Date("2024-03-15T10:00:00.000Z") })
+      ).toBe(true);
+      expect(
+        matches({
+          publishedAt: {
+            $gte: new Date("2024-03-01"),
+            $lt: new Date("2024-04-01"),
+          },
+        })
+      ).toBe(true);
+      expect(
+        matches({ publishedAt: { $lt: new Date("2024-03-15T10:00:00.000Z") } })
+      ).toBe(false);
+    });
+
+    it("should compare dates with date strings", () => {
+      expect(matches({ publishedAt: "2024-03-15T10:00:00.000Z" })).toBe(true);
+      expect(matches({ publishedAt: { $gt: "2024-03-15T09:00:00Z" } })).toBe(
+        true
+      );
+      expect(
+        matches({
+          publishedAt: { $in: ["2024-01-01", "2024-03-15T10:00:00.000Z"] },
+        })
+      ).toBe(true);
+    });
+  });
+
+  describe("array operators", () => {
+    it("should match $in and $nin", () => {
+      expect(matches({ id: { $in: [1, 2] } })).toBe(true);
+      expect(matches({ id: { $in: [] } })).toBe(false);
+      expect(matches({ id: { $nin: [2, 3] } })).toBe(true);
+      expect(matches({ id: { $nin: [1] } })).toBe(false);
+    });
+
+    it("should match $contains when every value is contained", () => {
+      expect(matches({ tags: { $contains: ["orm"] } })).toBe(true);
+      expect(matches({ tags: { $contains: ["typescript", "orm"] } })).toBe(
+        true
+      );
+      expect(matches({ tags: { $contains: ["orm", "sql"] } })).toBe(false);
+      expect(matches({ tags: { $contains: [] } })).toBe(true);
+    });
+
+    it("should match $overlap when any value is contained", () => {
+      expect(matches({ tags: { $overlap: ["sql", "orm"] } })).toBe(true);
+      expect(matches({ tags: { $overlap: ["sql"] } })).toBe(false);
+      expect(matches({ tags: { $overlap: [] } })).toBe(false);
+    });
+  });
+
+  describe("pattern operators", () => {
+    it("should match $like case sensitively and $ilike case insensitively", () => {
+      expect(matches({ title: { $like: "Hello%" } })).toBe(true);
+      expect(matches({ title: { $like: "hello%" } })).toBe(false);
+      expect(matches({ title: { $ilike: "hello%" } })).toBe(true);
+      expect(matches({ title: { $ilike: "%W_RLD" } })).toBe(true);
+    });
+  });
+
+  describe("logical operators", () => {
+    it("should match $and, $or and $not", () => {
+      expect(matches({ $and: [{ id: 1 }, { views: { $gt: 5 } }] })).toBe(true);
+      expect(matches({ $and: [{ id: 1 }, { views: { $gt: 50 } }] })).toBe(
+        false
+      );
+      expect(matches({ $or: [{ id: 2 }, { views: { $gt: 5 } }] })).toBe(true);
+      expect(matches({ $or: [{ id: 2 }, { views: { $gt: 50 } }] })).toBe(false);
+      expect(matches({ $not: { id: 2 } })).toBe(true);
+      expect(matches({ views: { $not: { $gt: 5 } } })).toBe(false);
+    });
+
+    it("should match $or when another branch matches a missing value", () => {
+      expect(
+        matches(
+          { $or: [{ views: { $gt: 0 } }, { id: 1 }] },
+          createPost({ views: null })
+        )
+      ).toBe(true);
+    });
+
+    it("should match empty filters and empty $and but not empty $or", () => {
+      expect(matches({})).toBe(true);
+      expect(matches({ $and: [] })).toBe(true);
+      expect(matches({ $or: [] })).toBe(false);
+    });
+  });
+
+  describe("relations", () => {
+    it("should follow nested objects", () => {
+      expect(matches({ author: { name: "John", age: { $gte: 18 } } })).toBe(
+        true
+      );
+      expect(matches({ author: { name: "Jane" } })).toBe(false);
+    });
+
+    it("should unwrap references", () => {
+      const author = { name: "John", age: 30 };
+      const post = {
+        ...createPost(),
+        author: { unwrap: () => author },
+      } as unknown as Post;
+
+      expect(matches({ author: { name: "John" } }, post)).toBe(true);
+    });
+
+    it("should match paths through collections when any item matches", () => {
+      const post = createPost({ comments: [{ likes: 1 }, { likes: 20 }] });
+
+      expect(matches({ comments: { likes: { $gte: 10 } } }, post)).toBe(true);
+      expect(matches({ comments: { likes: { $gte: 50 } } }, post)).toBe(false);
+      expect(
+        matches({ comments: { $every: { likes: { $gte: 1 } } } }, post)
+      ).toBe(true);
+    });
+
+    it("should read items of iterable collections", () => {
+      const post = {
+        ...createPost(),
+        comments: new Set([{ likes: 20 }]),
+      } as unknown as Post;
+
+      expect(matches({ comments: { $some: { likes: 20 } } }, post)).toBe(true);
+    });
+  });
+
+  it("should honor string replacements of a built schema", () => {
+    const schema = new FilterQuerySchemaBuilder<Post>()
+      .addField({ field: "title", type: "string" })
+      .addField({
+        field: "authorName",
+        type: "string",
+        replacement: "author.name",
+      })
+      .addField({
+        field: "authorAge",
+        type: "number",
+        replacement: "author.age",
+      })
+      .build();
+
+    const isMatch = createFilterPredicate<Post>(
+      schema.parse({
+        authorName: "John",
+        $or: [{ authorAge: { $lt: 18 } }, { title: "Hello World" }],
+      })
+    );
+
+    expect(isMatch(createPost())).toBe(true);
+    expect(isMatch(createPost({ author: { name: "Jane", age: 30 } }))).toBe(
+      false
+    );
+    expect(
+      isMatch(createPost({ title: "Other", author: { name: "John", age: 10 } }))
+    ).toBe(true);
+  });
+
+  it("should filter lists of entities", () => {
+    const posts = [
+      createPost({ id: 1, views: 5 }),
+      createPost({ id: 2, views: 50 }),
+      createPost({ id: 3, views: null }),
+    ];
+
+    expect(
+      posts
+        .filter(createFilterPredicate<Post>({ views: { $gte: 10 } }))
+        .map((post) => post.id)
+    ).toEqual([2]);
+    expect(
+      posts
+        .filter(createFilterPredicate<Post>({ views: { $ne: 5 } }))
+        .map((post) => post.id)
+    ).toEqual([2]);
+  });
+
+  it("should throw for operators that cannot be evaluated", () => {
+    expect(() => matches({ title: { $re: "^Hello" } })).toThrow(
+      'Operator "$re" cannot be evaluated'
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import { decodeCursor } from "../../src/utils/decode-cursor.js";
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+describe("decodeCursor", () => {
+  it("should decode the values of a cursor", () => {
+    expect(decodeCursor(encode(["2024-01-01T00:00:00.000Z", 5]))).toEqual([
+      "2024-01-01T00:00:00.000Z",
+      5,
+    ]);
+  });
+
+  it("should decode relation values", () => {
+    expect(decodeCursor(encode([{ name: "John" }, 1]))).toEqual([
+      { name: "John" },
+      1,
+    ]);
+  });
+
+  it("should decode non-ASCII characters", () => {
+    expect(decodeCursor(encode(["Zoë", "日本"]))).toEqual(["Zoë", "日本"]);
+  });
+
+  it("should decode url-safe characters", () => {
+    const cursor = encode(["???>>>"]);
+
+    expect(cursor).toMatch(/[-_]/);
+    expect(decodeCursor(cursor)).toEqual(["???>>>"]);
+  });
+
+  it("should return undefined for invalid cursors", () => {
+    expect(decodeCursor("")).toBeUndefined();
+    expect(decodeCursor("not a cursor")).toBeUndefined();
+    expect(decodeCursor("a")).toBeUndefined();
+    expect(decodeCursor(encode("abc").slice(0, -1))).toBeUndefined();
+  });
+
+  it("should return undefined for cursors that are not arrays", () => {
+    expect(decodeCursor(encode({ id: 1 }))).toBeUndefined();
+    expect(decodeCursor(encode(1))).toBeUndefined();
+  });
+});
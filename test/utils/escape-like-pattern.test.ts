@@ -0,0 +1,23 @@
+import { escapeLikePattern } from "../../src/utils/escape-like-pattern.js";
+
+describe("escapeLikePattern", () => {
+  it("should escape percent signs", () => {
+    expect(escapeLikePattern("50%")).toBe("50\\%");
+  });
+
+  it("should escape underscores", () => {
+    expect(escapeLikePattern("a_b")).toBe("a\\_b");
+  });
+
+  it("should escape backslashes", () => {
+    expect(escapeLikePattern("a\\b")).toBe("a\\\\b");
+  });
+
+  it("should escape every occurrence", () => {
+    expect(escapeLikePattern("%_%_")).toBe("\\%\\_\\%\\_");
+  });
+
+  it("should leave other characters untouched", () => {
+    expect(escapeLikePattern("John Doe's *post*")).toBe("John Doe's *post*");
+  });
+});
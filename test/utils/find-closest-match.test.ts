@@ -0,0 +1,31 @@
+import { findClosestMatch } from "../../src/utils/find-closest-match.js";
+
+describe("findClosestMatch", () => {
+  it("should suggest candidates with swapped characters", () => {
+    expect(findClosestMatch("nmae", ["age", "name"])).toBe("name");
+  });
+
+  it("should suggest candidates with missing, extra or wrong characters", () => {
+    expect(findClosestMatch("createdA", ["createdAt", "updatedAt"])).toBe(
+      "createdAt"
+    );
+    expect(findClosestMatch("agee", ["age", "name"])).toBe("age");
+    expect(findClosestMatch("$gtt", ["$gt", "$gte", "$lt"])).toBe("$gt");
+  });
+
+  it("should ignore case", () => {
+    expect(findClosestMatch("Name", ["name"])).toBe("name");
+    expect(findClosestMatch("isactive", ["isActive"])).toBe("isActive");
+  });
+
+  it("should prefer the closest candidate and the first on ties", () => {
+    expect(findClosestMatch("$lte", ["$lt", "$gte", "$lte"])).toBe("$lte");
+    expect(findClosestMatch("$ot", ["$or", "$not"])).toBe("$or");
+  });
+
+  it("should not suggest distant candidates", () => {
+    expect(findClosestMatch("title", ["name", "age"])).toBeUndefined();
+    expect(findClosestMatch("ab", ["xy"])).toBeUndefined();
+    expect(findClosestMatch("name", [])).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  DEFAULT_FILTER_MESSAGES,
+  formatFilterMessage,
+} from "../../src/utils/format-filter-message.js";
+
+describe("formatFilterMessage", () => {
+  it("should format the default English messages", () => {
+    expect(
+      formatFilterMessage("too_many_branches", { operator: "$or", limit: 5 })
+    ).toBe("$or cannot have more than 5 branches");
+    expect(
+      formatFilterMessage("unknown_field", {
+        field: "nmae",
+        suggestion: "name",
+      })
+    ).toBe('Unknown field "nmae", did you mean "name"?');
+    expect(
+      formatFilterMessage("invalid_value", {
+        field: "status",
+        type: "enum",
+        values: ["draft", 1],
+      })
+    ).toBe('Expected one of "draft", 1 for field "status"');
+  });
+
+  it("should interpolate template messages", () => {
+    expect(
+      formatFilterMessage(
+        "too_many_values",
+        { field: "tags", operator: "$in", limit: 2 },
+        { too_many_values: "字段 {field} 的 {operator} 最多 {limit} 个值" }
+      )
+    ).toBe("字段 tags 的 $in 最多 2 个值");
+  });
+
+  it("should format enum values and missing parameters", () => {
+    expect(
+      formatFilterMessage(
+        "invalid_value",
+        { field: "status", values: ["draft", "published"] },
+        { invalid_value: "{field} は {values} のいずれかです{suggestion}" }
+      )
+    ).toBe('status は "draft", "published" のいずれかです');
+  });
+
+  it("should call function messages with the parameters", () => {
+    const messages = {
+      unknown_field: ({
+        field,
+        suggestion,
+      }: {
+        field?: string;
+        suggestion?: string;
+      }) =>
+        suggestion
+          ? `未知字段 "${field}"，您是否想输入 "${suggestion}"？`
+          : `未知字段 "${field}"`,
+    };
+
+    expect(
+      formatFilterMessage(
+        "unknown_field",
+        { field: "nmae", suggestion: "name" },
+        messages
+      )
+    ).toBe('未知字段 "nmae"，您是否想输入 "name"？');
+    expect(
+      formatFilterMessage("unknown_field", { field: "title" }, messages)
+    ).toBe('未知字段 "title"');
+  });
+
+  it("should fall back to the default messages", () => {
+    expect(
+      formatFilterMessage(
+        "cost_exceeded",
+        { cost: 12, limit: 10 },
+        { too_many_branches: "分支过多" }
+      )
+    ).toBe("Filter cost 12 exceeds the maximum cost of 10");
+  });
+
+  it("should have a default message for every code", () => {
+    for (const message of Object.values(DEFAULT_FILTER_MESSAGES)) {
+      expect(["string", "function"]).toContain(typeof message);
+    }
+    expect(Object.keys(DEFAULT_FILTER_MESSAGES)).toHaveLength(28);
+  });
+});
@@ -0,0 +1,71 @@
+import { fromDateParts } from "../../src/utils/from-date-parts.js";
+
+describe("fromDateParts", () => {
+  const midnight = { hours: 0, minutes: 0, seconds: 0, milliseconds: 0 };
+
+  it("should convert wall-clock times in UTC", () => {
+    expect(
+      fromDateParts({ year: 2024, month: 1, day: 31, ...midnight }, "UTC")
+    ).toEqual(new Date("2024-01-31T00:00:00.000Z"));
+  });
+
+  it("should convert wall-clock times in other time zones", () => {
+    expect(
+      fromDateParts(
+        { year: 2024, month: 1, day: 1, ...midnight },
+        "Asia/Shanghai"
+      )
+    ).toEqual(new Date("2023-12-31T16:00:00.000Z"));
+    expect(
+      fromDateParts(
+        { year: 2024, month: 7, day: 1, ...midnight, hours: 12 },
+        "America/New_York"
+      )
+    ).toEqual(new Date("2024-07-01T16:00:00.000Z"));
+  });
+
+  it("should roll over out of range parts", () => {
+    expect(
+      fromDateParts(
+        { year: 2024, month: 2, day: 1, ...midnight, milliseconds: -1 },
+        "UTC"
+      )
+    ).toEqual(new Date("2024-01-31T23:59:59.999Z"));
+    expect(
+      fromDateParts({ year: 2024, month: 13, day: 1, ...midnight }, "UTC")
+    ).toEqual(new Date("2025-01-01T00:00:00.000Z"));
+  });
+
+  it("should return an invalid date for out of range parts", () => {
+    expect(
+      fromDateParts(
+        { year: 300000, month: 1, day: 1, ...midnight },
+        "UTC"
+      ).getTime()
+    ).toBeNaN();
+    expect(
+      fromDateParts(
+        { year: 275760, month: 9, day: 13, ...midnight },
+        "Europe/Berlin"
+      ).getTime()
+    ).toBeNaN();
+  });
+
+  it("should shift wall-clock times skipped by daylight saving time", () => {
+    expect(
+      fromDateParts(
+        { year: 2024, month: 3, day: 31, ...midnight, hours: 2, minutes: 30 },
+        "Europe/Berlin"
+      )
+    ).toEqual(new Date("2024-03-31T01:30:00.000Z"));
+  });
+
+  it("should resolve repeated wall-clock times to the earlier instant", () => {
+    expect(
+      fromDateParts(
+        { year: 2024, month: 10, day: 27, ...midnight, hours: 2, minutes: 30 },
+        "Europe/Berlin"
+      )
+    ).toEqual(new Date("2024-10-27T00:30:00.000Z"));
+  });
+});
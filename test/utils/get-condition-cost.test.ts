@@ -0,0 +1,27 @@
+import { getConditionCost } from "../../src/utils/get-condition-cost.js";
+
+describe("getConditionCost", () => {
+  it("should count a direct value as $eq", () => {
+    expect(getConditionCost("John", {})).toBe(1);
+    expect(getConditionCost(null, {})).toBe(1);
+    expect(getConditionCost(new Date(), {})).toBe(1);
+    expect(getConditionCost("John", { $eq: 3 })).toBe(3);
+  });
+
+  it("should sum the cost of each operator", () => {
+    expect(getConditionCost({ $gte: 1, $lte: 5 }, {})).toBe(2);
+    expect(
+      getConditionCost({ $ne: "a", $fulltext: "b" }, { $fulltext: 10 })
+    ).toBe(11);
+  });
+
+  it("should scale array values by their length", () => {
+    expect(getConditionCost({ $in: [1, 2, 3] }, {})).toBe(3);
+    expect(getConditionCost({ $in: [1, 2, 3] }, { $in: 2 })).toBe(6);
+    expect(getConditionCost(["a", "b"], {})).toBe(2);
+  });
+
+  it("should count empty arrays as a single value", () => {
+    expect(getConditionCost({ $nin: [] }, {})).toBe(1);
+  });
+});
@@ -0,0 +1,34 @@
+import { getDateParts } from "../../src/utils/get-date-parts.js";
+
+describe("getDateParts", () => {
+  it("should return the date parts in UTC", () => {
+    expect(getDateParts(new Date("2024-02-29T13:45:30.123Z"), "UTC")).toEqual({
+      year: 2024,
+      month: 2,
+      day: 29,
+      hours: 13,
+      minutes: 45,
+      seconds: 30,
+      milliseconds: 123,
+    });
+  });
+
+  it("should return the wall-clock time of the time zone", () => {
+    expect(
+      getDateParts(new Date("2023-12-31T16:00:00Z"), "Asia/Shanghai")
+    ).toMatchObject({ year: 2024, month: 1, day: 1, hours: 0 });
+    expect(
+      getDateParts(new Date("2024-07-01T00:30:00Z"), "America/New_York")
+    ).toMatchObject({ month: 6, day: 30, hours: 20, minutes: 30 });
+  });
+
+  it("should use hours from 0 to 23", () => {
+    expect(getDateParts(new Date("2024-01-01T00:00:00Z"), "UTC").hours).toBe(0);
+  });
+
+  it("should throw for unknown time zones", () => {
+    expect(() => getDateParts(new Date(), "Mars/Olympus_Mons")).toThrow(
+      RangeError
+    );
+  });
+});
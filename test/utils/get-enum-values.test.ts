@@ -0,0 +1,36 @@
+import { getEnumValues } from "../../src/utils/get-enum-values.js";
+
+describe("getEnumValues", () => {
+  enum Status {
+    Active = "active",
+    Inactive = "inactive",
+  }
+
+  enum Priority {
+    Low,
+    High,
+  }
+
+  enum Mixed {
+    No = 0,
+    Yes = "yes",
+  }
+
+  it("should return lists as a copy", () => {
+    const values = ["a", "b"];
+    expect(getEnumValues(values)).toEqual(["a", "b"]);
+    expect(getEnumValues(values)).not.toBe(values);
+  });
+
+  it("should return the values of string enums", () => {
+    expect(getEnumValues(Status)).toEqual(["active", "inactive"]);
+  });
+
+  it("should skip reverse mappings of numeric enums", () => {
+    expect(getEnumValues(Priority)).toEqual([0, 1]);
+  });
+
+  it("should support heterogeneous enums", () => {
+    expect(getEnumValues(Mixed)).toEqual([0, "yes"]);
+  });
+});
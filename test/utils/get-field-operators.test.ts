@@ -0,0 +1,72 @@
+import { getFieldOperators } from "../../src/utils/get-field-operators.js";
+
+describe("getFieldOperators", () => {
+  it("should return equality and array operators for string and boolean fields", () => {
+    expect(getFieldOperators("string")).toEqual(["$eq", "$ne", "$in", "$nin"]);
+    expect(getFieldOperators("boolean")).toEqual(["$eq", "$ne", "$in", "$nin"]);
+  });
+
+  it("should return comparison operators for number and date fields", () => {
+    expect(getFieldOperators("number")).toEqual([
+      "$eq",
+      "$ne",
+      "$gt",
+      "$gte",
+      "$lt",
+      "$lte",
+      "$in",
+      "$nin",
+    ]);
+    expect(getFieldOperators("date")).toEqual([
+      "$eq",
+      "$ne",
+      "$gt",
+      "$gte",
+      "$lt",
+      "$lte",
+      "$in",
+      "$nin",
+    ]);
+  });
+
+  it("should return array field operators when array is set", () => {
+    expect(getFieldOperators("string", { array: true })).toEqual([
+      "$eq",
+      "$ne",
+      "$in",
+      "$nin",
+      "$contains",
+      "$overlap",
+    ]);
+  });
+
+  it("should return $fulltext only for string fields with fulltext", () => {
+    expect(getFieldOperators("string", { fulltext: true })).toContain(
+      "$fulltext"
+    );
+    expect(getFieldOperators("number", { fulltext: true })).not.toContain(
+      "$fulltext"
+    );
+    expect(getFieldOperators("string")).not.toContain("$fulltext");
+  });
+
+  it("should keep only included operators", () => {
+    expect(
+      getFieldOperators("number", { operators: { include: ["$eq", "$gte"] } })
+    ).toEqual(["$eq", "$gte"]);
+  });
+
+  it("should remove excluded operators", () => {
+    expect(
+      getFieldOperators("string", { operators: { exclude: ["$nin"] } })
+    ).toEqual(["$eq", "$ne", "$in"]);
+  });
+
+  it("should not return included operators that do not apply to the type", () => {
+    expect(
+      getFieldOperators("boolean", {
+        operators: { include: ["$eq", "$gt", "$contains"] },
+      })
+    ).toEqual(["$eq"]);
+  });
+});
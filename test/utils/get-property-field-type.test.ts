@@ -0,0 +1,144 @@
+import type { EntityProperty } from "@mikro-orm/core";
+
+import { getPropertyFieldType } from "../../src/utils/get-property-field-type.js";
+import { getEntityMetadata, Post, User } from "../entities/index.js";
+
+describe("getPropertyFieldType", () => {
+  const post = getEntityMetadata(Post);
+  const user = getEntityMetadata(User);
+
+  it("should resolve scalar types", () => {
+    expect(getPropertyFieldType(post.properties.title)).toEqual({
+      type: "string",
+      array: false,
+    });
+    expect(getPropertyFieldType(post.properties.viewCount)).toEqual({
+      type: "number",
+      array: false,
+    });
+    expect(getPropertyFieldType(post.properties.isPublished)).toEqual({
+      type: "boolean",
+      array: false,
+    });
+    expect(getPropertyFieldType(post.properties.createdAt)).toEqual({
+      type: "date",
+      array: false,
+    });
+  });
+
+  it("should resolve column type aliases", () => {
+    expect(getPropertyFieldType(post.properties.content)).toEqual({
+      type: "string",
+      array: false,
+    });
+    expect(
+      getPropertyFieldType({
+        name: "publishedAt",
+        kind: "scalar",
+        type: "datetime",
+      } as unknown as EntityProperty)
+    ).toEqual({ type: "date", array: false });
+  });
+
+  it("should resolve array properties", () => {
+    expect(getPropertyFieldType(post.properties.tags)).toEqual({
+      type: "string",
+      array: true,
+    });
+    expect(
+      getPropertyFieldType({
+        name: "scores",
+        kind: "scalar",
+        type: "number[]",
+        runtimeType: "number[]",
+      } as unknown as EntityProperty)
+    ).toEqual({ type: "number", array: true });
+  });
+
+  it("should resolve bigint and decimal types", () => {
+    expect(getPropertyFieldType(user.properties.balance)).toEqual({
+      type: "number",
+      array: false,
+    });
+    expect(getPropertyFieldType(user.properties.rating)).toEqual({
+      type: "string",
+      array: false,
+    });
+    expect(
+      getPropertyFieldType({
+        name: "price",
+        kind: "scalar",
+        type: "numeric",
+        runtimeType: "string",
+      } as unknown as EntityProperty)
+    ).toEqual({ type: "string", array: false });
+  });
+
+  it("should return undefined for unsupported types", () => {
+    expect(getPropertyFieldType(user.properties.settings)).toBeUndefined();
+    expect(getPropertyFieldType(post.properties.publishedAt)).toBeUndefined();
+    expect(
+      getPropertyFieldType({
+        name: "data",
+        kind: "scalar",
+        type: "any",
+      } as unknown as EntityProperty)
+    ).toBeUndefined();
+  });
+
+  it("should resolve to-one relations to the target primary key type", () => {
+    const prop = {
+      name: "author",
+      kind: "m:1",
+      type: "User",
+      targetMeta: user,
+    } as unknown as EntityProperty;
+
+    expect(getPropertyFieldType(prop)).toEqual({
+      type: "number",
+      array: false,
+    });
+  });
+
+  it("should return undefined for collections and embeddables", () => {
+    expect(
+      getPropertyFieldType({
+        name: "comments",
+        kind: "1:m",
+        type: "Comment",
+      } as unknown as EntityProperty)
+    ).toBeUndefined();
+    expect(
+      getPropertyFieldType({
+        name: "tags",
+        kind: "m:n",
+        type: "Tag",
+      } as unknown as EntityProperty)
+    ).toBeUndefined();
+    expect(
+      getPropertyFieldType({
+        name: "address",
+        kind: "embedded",
+        type: "Address",
+      } as unknown as EntityProperty)
+    ).toBeUndefined();
+  });
+
+  it("should resolve enum properties with their items", () => {
+    expect(getPropertyFieldType(post.properties.status)).toEqual({
+      type: "enum",
+      array: false,
+      values: ["draft", "published", "archived"],
+    });
+    expect(
+      getPropertyFieldType({
+        name: "levels",
+        kind: "scalar",
+        enum: true,
+        array: true,
+        items: [1, 2],
+        type: "number[]",
+      } as unknown as EntityProperty)
+    ).toEqual({ type: "enum", array: true, values: [1, 2] });
+  });
+});
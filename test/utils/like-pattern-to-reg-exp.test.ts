@@ -0,0 +1,30 @@
+import { likePatternToRegExp } from "../../src/utils/like-pattern-to-reg-exp.js";
+
+describe("likePatternToRegExp", () => {
+  it("should convert wildcards", () => {
+    expect(likePatternToRegExp("a%").test("abc")).toBe(true);
+    expect(likePatternToRegExp("a_c").test("abc")).toBe(true);
+    expect(likePatternToRegExp("a_c").test("abbc")).toBe(false);
+    expect(likePatternToRegExp("%b%").test("a\nb\nc")).toBe(true);
+  });
+
+  it("should anchor the expression", () => {
+    expect(likePatternToRegExp("b").test("abc")).toBe(false);
+  });
+
+  it("should match escaped wildcards literally", () => {
+    expect(likePatternToRegExp("50\\%").test("50%")).toBe(true);
+    expect(likePatternToRegExp("50\\%").test("500")).toBe(false);
+    expect(likePatternToRegExp("a\\\\b").test("a\\b")).toBe(true);
+  });
+
+  it("should escape regular expression characters", () => {
+    expect(likePatternToRegExp("a.b*(c)").test("a.b*(c)")).toBe(true);
+    expect(likePatternToRegExp("a.b").test("axb")).toBe(false);
+  });
+
+  it("should ignore case when requested", () => {
+    expect(likePatternToRegExp("abc").test("ABC")).toBe(false);
+    expect(likePatternToRegExp("abc", true).test("ABC")).toBe(true);
+  });
+});
@@ -0,0 +1,123 @@
+import { mergeFilterQuery } from "../../src/utils/merge-filter-query.js";
+
+describe("mergeFilterQuery", () => {
+  it("should add conditions on new keys", () => {
+    const filter: Record<string, unknown> = { name: "John" };
+    mergeFilterQuery(filter, { age: 30, $or: [{ a: 1 }] }, "deep");
+
+    expect(filter).toEqual({ name: "John", age: 30, $or: [{ a: 1 }] });
+  });
+
+  it("should concatenate $and arrays", () => {
+    const filter: Record<string, unknown> = { $and: [{ a: 1 }] };
+    mergeFilterQuery(filter, { $and: [{ b: 1 }] }, "and");
+
+    expect(filter).toEqual({ $and: [{ a: 1 }, { b: 1 }] });
+  });
+
+  describe("deep strategy", () => {
+    it("should merge nested objects", () => {
+      const filter: Record<string, unknown> = {
+        author: { name: "John", publisher: { id: 1 } },
+      };
+      mergeFilterQuery(
+        filter,
+        { author: { age: 30, publisher: { country: "DE" } } },
+        "deep"
+      );
+
+      expect(filter).toEqual({
+        author: { name: "John", age: 30, publisher: { id: 1, country: "DE" } },
+      });
+    });
+
+    it("should combine conflicting conditions with $and", () => {
+      const filter: Record<string, unknown> = {
+        $or: [{ a: 1 }],
+        age: { $gte: 18 },
+        name: "John",
+      };
+      mergeFilterQuery(
+        filter,
+        { $or: [{ b: 1 }], age: { $lt: 65 }, name: { $ne: "Jane" } },
+        "deep"
+      );
+
+      expect(filter).toEqual({
+        $and: [
+          { $or: [{ a: 1 }] },
+          { $or: [{ b: 1 }] },
+          { age: { $gte: 18 } },
+          { age: { $lt: 65 } },
+          { name: "John" },
+          { name: { $ne: "Jane" } },
+        ],
+      });
+    });
+
+    it("should not merge $not conditions", () => {
+      const filter: Record<string, unknown> = {
+        $not: { title: "a" },
+        author: { $not: { name: "John" } },
+      };
+      mergeFilterQuery(
+        filter,
+        { $not: { status: "draft" }, author: { $not: { age: 30 } } },
+        "deep"
+      );
+
+      expect(filter).toEqual({
+        $and: [
+          { $not: { title: "a" } },
+          { $not: { status: "draft" } },
+          { author: { $not: { name: "John" } } },
+          { author: { $not: { age: 30 } } },
+        ],
+      });
+    });
+
+    it("should move the whole conditions to $and when a nested key conflicts", () => {
+      const filter: Record<string, unknown> = { author: { name: "John" } };
+      mergeFilterQuery(filter, { author: { age: 30, name: "Jane" } }, "deep");
+
+      expect(filter).toEqual({
+        $and: [
+          { author: { name: "John" } },
+          { author: { age: 30, name: "Jane" } },
+        ],
+      });
+    });
+
+    it("should not modify the merged objects", () => {
+      const author = { name: "John" };
+      const filter: Record<string, unknown> = { author };
+      mergeFilterQuery(filter, { author: { age: 30 } }, "deep");
+
+      expect(author).toEqual({ name: "John" });
+    });
+  });
+
+  describe("and strategy", () => {
+    it("should combine every condition on an existing key with $and", () => {
+      const filter: Record<string, unknown> = {
+        author: { name: "John" },
+        age: { $gte: 18 },
+      };
+      mergeFilterQuery(
+        filter,
+        { author: { age: 30 }, age: { $lt: 65 }, id: 1 },
+        "and"
+      );
+
+      expect(filter).toEqual({
+        id: 1,
+        $and: [
+          { author: { name: "John" } },
+          { author: { age: 30 } },
+          { age: { $gte: 18 } },
+          { age: { $lt: 65 } },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { parseDateValue } from "../../src/utils/parse-date-value.js";
+
+describe("parseDateValue", () => {
+  it("should return Date instances unchanged", () => {
+    const date = new Date("2024-01-01T00:00:00Z");
+    expect(parseDateValue(date, "Asia/Tokyo")).toBe(date);
+  });
+
+  it("should keep the instant of datetimes with an offset", () => {
+    expect(parseDateValue("2024-01-01T10:00:00Z", "Asia/Tokyo")).toEqual(
+      new Date("2024-01-01T10:00:00.000Z")
+    );
+    expect(parseDateValue("2024-01-01T10:00:00+02:00", "Asia/Tokyo")).toEqual(
+      new Date("2024-01-01T08:00:00.000Z")
+    );
+  });
+
+  it("should interpret datetimes without an offset in the time zone", () => {
+    expect(parseDateValue("2024-01-01T10:00", "Asia/Tokyo")).toEqual(
+      new Date("2024-01-01T01:00:00.000Z")
+    );
+    expect(parseDateValue("2024-01-01T10:00:00.1234", "UTC")).toEqual(
+      new Date("2024-01-01T10:00:00.123Z")
+    );
+  });
+
+  it("should interpret date-only values as the start of the day", () => {
+    expect(parseDateValue("2024-01-31", "UTC")).toEqual(
+      new Date("2024-01-31T00:00:00.000Z")
+    );
+    expect(parseDateValue("2024-01-31", "Europe/Berlin")).toEqual(
+      new Date("2024-01-30T23:00:00.000Z")
+    );
+  });
+
+  it("should interpret date-only values as the end of the day", () => {
+    expect(parseDateValue("2024-01-31", "UTC", true)).toEqual(
+      new Date("2024-01-31T23:59:59.999Z")
+    );
+    expect(parseDateValue("2024-12-31", "Asia/Shanghai", true)).toEqual(
+      new Date("2024-12-31T15:59:59.999Z")
+    );
+  });
+
+  it("should ignore the end of the day for datetimes", () => {
+    expect(parseDateValue("2024-01-31T12:00", "UTC", true)).toEqual(
+      new Date("2024-01-31T12:00:00.000Z")
+    );
+  });
+});
@@ -0,0 +1,165 @@
+import { parseFilterNode } from "../../src/utils/parse-filter-node.js";
+
+describe("parseFilterNode", () => {
+  it("should parse direct values as $eq comparisons", () => {
+    expect(parseFilterNode({ name: "John" })).toEqual({
+      type: "comparison",
+      field: "name",
+      operator: "$eq",
+      value: "John",
+    });
+    expect(parseFilterNode({ deletedAt: null })).toEqual({
+      type: "comparison",
+      field: "deletedAt",
+      operator: "$eq",
+      value: null,
+    });
+    expect(parseFilterNode({ roles: ["a", "b"] })).toEqual({
+      type: "comparison",
+      field: "roles",
+      operator: "$eq",
+      value: ["a", "b"],
+    });
+  });
+
+  it("should parse operators into comparisons", () => {
+    expect(parseFilterNode({ age: { $gte: 18, $lt: 65 } })).toEqual({
+      type: "and",
+      conditions: [
+        { type: "comparison", field: "age", operator: "$gte", value: 18 },
+        { type: "comparison", field: "age", operator: "$lt", value: 65 },
+      ],
+    });
+  });
+
+  it("should parse an empty filter as an empty and node", () => {
+    expect(parseFilterNode({})).toEqual({ type: "and", conditions: [] });
+  });
+
+  it("should parse logical operators", () => {
+    expect(
+      parseFilterNode({
+        $or: [{ name: "John" }, { $not: { age: 18 } }],
+        $and: [],
+      })
+    ).toEqual({
+      type: "and",
+      conditions: [
+        {
+          type: "or",
+          conditions: [
+            {
+              type: "comparison",
+              field: "name",
+              operator: "$eq",
+              value: "John",
+            },
+            {
+              type: "not",
+              condition: {
+                type: "comparison",
+                field: "age",
+                operator: "$eq",
+                value: 18,
+              },
+            },
+          ],
+        },
+        { type: "and", conditions: [] },
+      ],
+    });
+  });
+
+  it("should flatten nested objects into field paths", () => {
+    expect(
+      parseFilterNode({ author: { profile: { name: { $ne: "John" } } } })
+    ).toEqual({
+      type: "comparison",
+      field: "author.profile.name",
+      operator: "$ne",
+      value: "John",
+    });
+  });
+
+  it("should keep logical operators of related entities", () => {
+    expect(
+      parseFilterNode({ author: { $or: [{ name: "John" }, { age: 18 }] } })
+    ).toEqual({
+      type: "or",
+      conditions: [
+        {
+          type: "comparison",
+          field: "author.name",
+          operator: "$eq",
+          value: "John",
+        },
+        { type: "comparison", field: "author.age", operator: "$eq", value: 18 },
+      ],
+    });
+  });
+
+  it("should parse $not on operators", () => {
+    expect(parseFilterNode({ age: { $not: { $gt: 5 } } })).toEqual({
+      type: "not",
+      condition: {
+        type: "comparison",
+        field: "age",
+        operator: "$gt",
+        value: 5,
+      },
+    });
+  });
+
+  it("should parse collection operators with paths relative to the items", () => {
+    expect(
+      parseFilterNode({
+        comments: {
+          $some: { isApproved: true },
+          $none: { author: { name: "Spam" } },
+        },
+      })
+    ).toEqual({
+      type: "and",
+      conditions: [
+        {
+          type: "collection",
+          field: "comments",
+          operator: "$some",
+          condition: {
+            type: "comparison",
+            field: "isApproved",
+            operator: "$eq",
+            value: true,
+          },
+        },
+        {
+          type: "collection",
+          field: "comments",
+          operator: "$none",
+          condition: {
+            type: "comparison",
+            field: "author.name",
+            operator: "$eq",
+            value: "Spam",
+          },
+        },
+      ],
+    });
+  });
+
+  it("should keep Date values", () => {
+    const date = new Date();
+    expect(parseFilterNode({ createdAt: date })).toEqual({
+      type: "comparison",
+      field: "createdAt",
+      operator: "$eq",
+      value: date,
+    });
+  });
+
+  it("should throw for operators outside of a field", () => {
+    expect(() => parseFilterNode({ $gt: 5 })).toThrow(
+      'Operator "$gt" must be used on a field'
+    );
+  });
+});
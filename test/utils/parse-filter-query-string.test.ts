@@ -0,0 +1,101 @@
+import { parseFilterQueryString } from "../../src/utils/parse-filter-query-string.js";
+
+describe("parseFilterQueryString", () => {
+  it("should parse bracket notation", () => {
+    expect(parseFilterQueryString("age[$gte]=18&name=John")).toEqual({
+      age: { $gte: "18" },
+      name: "John",
+    });
+  });
+
+  it("should parse dot notation", () => {
+    expect(parseFilterQueryString("age.$gte=18&author.name=John")).toEqual({
+      age: { $gte: "18" },
+      author: { name: "John" },
+    });
+  });
+
+  it("should parse mixed bracket and dot notation", () => {
+    expect(
+      parseFilterQueryString("$or[0].name=John&$or[1][name]=Jane")
+    ).toEqual({
+      $or: [{ name: "John" }, { name: "Jane" }],
+    });
+  });
+
+  it("should only parse parameters under the given key", () => {
+    expect(
+      parseFilterQueryString(
+        "filter[age][$gte]=18&filter.name=John&page=2",
+        "filter"
+      )
+    ).toEqual({
+      age: { $gte: "18" },
+      name: "John",
+    });
+  });
+
+  it("should strip a leading question mark", () => {
+    expect(parseFilterQueryString("?filter[name]=John", "filter")).toEqual({
+      name: "John",
+    });
+  });
+
+  it("should accept URLSearchParams", () => {
+    const params = new URLSearchParams();
+    params.append("filter[id][$in][]", "1");
+    params.append("filter[id][$in][]", "2");
+    expect(parseFilterQueryString(params, "filter")).toEqual({
+      id: { $in: ["1", "2"] },
+    });
+  });
+
+  it("should create arrays from numeric indices", () => {
+    expect(
+      parseFilterQueryString("$or[0][name]=John&$or[1][name]=Jane")
+    ).toEqual({
+      $or: [{ name: "John" }, { name: "Jane" }],
+    });
+  });
+
+  it("should compact sparse array indices", () => {
+    expect(
+      parseFilterQueryString("$or[0][name]=John&$or[1000000][name]=Jane")
+    ).toEqual({
+      $or: [{ name: "John" }, { name: "Jane" }],
+    });
+  });
+
+  it("should order array items by index", () => {
+    expect(parseFilterQueryString("id[$in][1]=b&id[$in][0]=a")).toEqual({
+      id: { $in: ["a", "b"] },
+    });
+  });
+
+  it("should collect repeated keys into an array", () => {
+    expect(parseFilterQueryString("id[$in]=1&id[$in]=2&id[$in]=3")).toEqual({
+      id: { $in: ["1", "2", "3"] },
+    });
+  });
+
+  it("should decode percent-encoded keys and values", () => {
+    expect(
+      parseFilterQueryString("filter%5Bname%5D%5B%24ne%5D=John%20Doe", "filter")
+    ).toEqual({
+      name: { $ne: "John Doe" },
+    });
+  });
+
+  it("should ignore prototype pollution attempts", () => {
+    const result = parseFilterQueryString(
+      "__proto__[polluted]=1&a[constructor][prototype][polluted]=1&name=John"
+    );
+    expect(result).toEqual({ name: "John" });
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it("should return an empty object for an empty query string", () => {
+    expect(parseFilterQueryString("")).toEqual({});
+    expect(parseFilterQueryString("page=1", "filter")).toEqual({});
+  });
+});
@@ -0,0 +1,155 @@
+import {
+  parseRelativeDate,
+  RELATIVE_DATE_PATTERN,
+} from "../../src/utils/parse-relative-date.js";
+
+describe("parseRelativeDate", () => {
+  // Friday
+  const now = new Date("2024-03-15T10:30:45.500Z");
+
+  it("should resolve now", () => {
+    expect(parseRelativeDate("now", now, "UTC")).toEqual(now);
+  });
+
+  it("should add and subtract units", () => {
+    expect(parseRelativeDate("now-7d", now, "UTC")).toEqual(
+      new Date("2024-03-08T10:30:45.500Z")
+    );
+    expect(parseRelativeDate("now+2w", now, "UTC")).toEqual(
+      new Date("2024-03-29T10:30:45.500Z")
+    );
+    expect(parseRelativeDate("now-1y", now, "UTC")).toEqual(
+      new Date("2023-03-15T10:30:45.500Z")
+    );
+    expect(parseRelativeDate("now-12h+30m-15s", now, "UTC")).toEqual(
+      new Date("2024-03-14T23:00:30.500Z")
+    );
+  });
+
+  it("should clamp the day when adding months", () => {
+    expect(
+      parseRelativeDate("now+1M", new Date("2024-01-31T00:00:00Z"), "UTC")
+    ).toEqual(new Date("2024-02-29T00:00:00.000Z"));
+    expect(
+      parseRelativeDate("now-1y", new Date("2024-02-29T00:00:00Z"), "UTC")
+    ).toEqual(new Date("2023-02-28T00:00:00.000Z"));
+    expect(
+      parseRelativeDate("now-13M", new Date("2024-03-31T00:00:00Z"), "UTC")
+    ).toEqual(new Date("2023-02-28T00:00:00.000Z"));
+  });
+
+  it("should round down to the start of a unit", () => {
+    expect(parseRelativeDate("now/d", now, "UTC")).toEqual(
+      new Date("2024-03-15T00:00:00.000Z")
+    );
+    expect(parseRelativeDate("now/M", now, "UTC")).toEqual(
+      new Date("2024-03-01T00:00:00.000Z")
+    );
+    expect(parseRelativeDate("now/y", now, "UTC")).toEqual(
+      new Date("2024-01-01T00:00:00.000Z")
+    );
+    expect(parseRelativeDate("now/w", now, "UTC")).toEqual(
+      new Date("2024-03-11T00:00:00.000Z")
+    );
+    expect(parseRelativeDate("now/h", now, "UTC")).toEqual(
+      new Date("2024-03-15T10:00:00.000Z")
+    );
+    expect(parseRelativeDate("now/s", now, "UTC")).toEqual(
+      new Date("2024-03-15T10:30:45.000Z")
+    );
+  });
+
+  it("should round up to the end of a unit", () => {
+    expect(parseRelativeDate("now/d", now, "UTC", true)).toEqual(
+      new Date("2024-03-15T23:59:59.999Z")
+    );
+    expect(parseRelativeDate("now-1M/M", now, "UTC", true)).toEqual(
+      new Date("2024-02-29T23:59:59.999Z")
+    );
+    expect(parseRelativeDate("now/w", now, "UTC", true)).toEqual(
+      new Date("2024-03-17T23:59:59.999Z")
+    );
+    expect(parseRelativeDate("now/m", now, "UTC", true)).toEqual(
+      new Date("2024-03-15T10:30:59.999Z")
+    );
+  });
+
+  it("should apply operations from left to right", () => {
+    expect(parseRelativeDate("now/d-1d", now, "UTC")).toEqual(
+      new Date("2024-03-14T00:00:00.000Z")
+    );
+    expect(parseRelativeDate("now-1d/d", now, "UTC")).toEqual(
+      new Date("2024-03-14T00:00:00.000Z")
+    );
+  });
+
+  it("should resolve startOf and endOf expressions", () => {
+    expect(parseRelativeDate("startOf:month", now, "UTC")).toEqual(
+      new Date("2024-03-01T00:00:00.000Z")
+    );
+    expect(parseRelativeDate("endOf:month", now, "UTC")).toEqual(
+      new Date("2024-03-31T23:59:59.999Z")
+    );
+    expect(parseRelativeDate("startOf:week", now, "UTC", true)).toEqual(
+      new Date("2024-03-11T00:00:00.000Z")
+    );
+    expect(parseRelativeDate("endOf:year", now, "UTC")).toEqual(
+      new Date("2024-12-31T23:59:59.999Z")
+    );
+  });
+
+  it("should use the time zone for calendar units", () => {
+    expect(parseRelativeDate("now/d", now, "Asia/Tokyo")).toEqual(
+      new Date("2024-03-14T15:00:00.000Z")
+    );
+    expect(
+      parseRelativeDate(
+        "startOf:month",
+        new Date("2024-03-31T20:00:00Z"),
+        "Asia/Tokyo"
+      )
+    ).toEqual(new Date("2024-03-31T15:00:00.000Z"));
+    expect(
+      parseRelativeDate(
+        "now-1d",
+        new Date("2024-03-31T12:00:00Z"),
+        "Europe/Berlin"
+      )
+    ).toEqual(new Date("2024-03-30T13:00:00.000Z"));
+  });
+
+  it("should return undefined for malformed expressions", () => {
+    expect(parseRelativeDate("now-7", now, "UTC")).toBeUndefined();
+    expect(parseRelativeDate("now-7x", now, "UTC")).toBeUndefined();
+    expect(parseRelativeDate("yesterday", now, "UTC")).toBeUndefined();
+    expect(parseRelativeDate("startOf:decade", now, "UTC")).toBeUndefined();
+    expect(parseRelativeDate("2024-01-01", now, "UTC")).toBeUndefined();
+  });
+
+  it("should return undefined for dates outside of the supported range", () => {
+    expect(parseRelativeDate("now+300000y", now, "UTC")).toBeUndefined();
+    expect(
+      parseRelativeDate("now-400000y", now, "Europe/Berlin")
+    ).toBeUndefined();
+    expect(
+      parseRelativeDate("now+273000y+999999d", now, "UTC")
+    ).toBeUndefined();
+    expect(
+      parseRelativeDate("now+273700y+999999h", now, "UTC")
+    ).toBeUndefined();
+    expect(
+      parseRelativeDate("now+300000y/d", now, "UTC", true)
+    ).toBeUndefined();
+    expect(parseRelativeDate("now+1000000000d", now, "UTC")).toBeUndefined();
+    expect(
+      parseRelativeDate("now+99999999999999999999h", now, "UTC")
+    ).toBeUndefined();
+  });
+
+  it("should export the expression pattern", () => {
+    expect(RELATIVE_DATE_PATTERN.test("now-1M/M")).toBe(true);
+    expect(RELATIVE_DATE_PATTERN.test("endOf:day")).toBe(true);
+    expect(RELATIVE_DATE_PATTERN.test("now -1d")).toBe(false);
+    expect(RELATIVE_DATE_PATTERN.test("now+1000000d")).toBe(false);
+  });
+});
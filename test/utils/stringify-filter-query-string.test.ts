@@ -0,0 +1,97 @@
+import { parseFilterQueryString } from "../../src/utils/parse-filter-query-string.js";
+import { stringifyFilterQueryString } from "../../src/utils/stringify-filter-query-string.js";
+
+describe("stringifyFilterQueryString", () => {
+  it("should serialize nested objects in bracket notation", () => {
+    expect(
+      stringifyFilterQueryString({ age: { $gte: 18 }, name: "John" })
+    ).toBe("age[$gte]=18&name=John");
+  });
+
+  it("should prefix keys with the root key", () => {
+    expect(stringifyFilterQueryString({ age: { $gte: 18 } }, "filter")).toBe(
+      "filter[age][$gte]=18"
+    );
+  });
+
+  it("should serialize arrays with indices", () => {
+    expect(
+      stringifyFilterQueryString(
+        { $or: [{ name: "John" }, { name: "Jane" }] },
+        "filter"
+      )
+    ).toBe("filter[$or][0][name]=John&filter[$or][1][name]=Jane");
+  });
+
+  it("should serialize null, booleans and dates", () => {
+    const date = new Date("2024-01-01T00:00:00.000Z");
+    expect(
+      stringifyFilterQueryString({
+        age: null,
+        isActive: false,
+        createdAt: { $gte: date },
+      })
+    ).toBe(
+      "age=null&isActive=false&createdAt[$gte]=2024-01-01T00%3A00%3A00.000Z"
+    );
+  });
+
+  it("should percent-encode keys and values", () => {
+    expect(
+      stringifyFilterQueryString({ name: "John & Jane", "a b": "c" })
+    ).toBe("name=John%20%26%20Jane&a%20b=c");
+  });
+
+  it("should skip undefined values", () => {
+    expect(stringifyFilterQueryString({ name: undefined, age: 1 })).toBe(
+      "age=1"
+    );
+  });
+
+  it("should serialize an empty filter", () => {
+    expect(stringifyFilterQueryString({}, "filter")).toBe("");
+  });
+
+  it("should reject empty arrays and objects", () => {
+    expect(() =>
+      stringifyFilterQueryString({ id: { $in: [] } }, "filter")
+    ).toThrow('Cannot serialize empty array at "filter[id][$in]"');
+    expect(() => stringifyFilterQueryString({ $not: {} })).toThrow(
+      'Cannot serialize empty object at "$not"'
+    );
+  });
+
+  it("should reject the string null", () => {
+    expect(() => stringifyFilterQueryString({ name: { $eq: "null" } })).toThrow(
+      'Cannot serialize the string "null" at "name[$eq]", it would be read as null'
+    );
+  });
+
+  it.each([
+    {
+      age: { $gte: "18" },
+      id: { $in: ["1", "2"] },
+      $or: [{ name: "John" }, { $not: { name: "Jane" } }],
+    },
+    {
+      name: { $in: ["a&b", "c=d", "", "null value"] },
+      "a b": { $like: "%50%" },
+    },
+    {
+      $and: [
+        { $or: [{ id: "1" }] },
+        { author: { tags: { $some: { name: "orm" } } } },
+      ],
+    },
+  ])("should round-trip with parseFilterQueryString", (filter) => {
+    expect(
+      parseFilterQueryString(
+        stringifyFilterQueryString(filter, "filter"),
+        "filter"
+      )
+    ).toEqual(filter);
+    expect(parseFilterQueryString(stringifyFilterQueryString(filter))).toEqual(
+      filter
+    );
+  });
+});
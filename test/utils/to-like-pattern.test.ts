@@ -0,0 +1,18 @@
+import { toLikePattern } from "../../src/utils/to-like-pattern.js";
+
+describe("toLikePattern", () => {
+  it("should add wildcards for pattern operators", () => {
+    expect(toLikePattern("$startsWith", "abc")).toBe("abc%");
+    expect(toLikePattern("$endsWith", "abc")).toBe("%abc");
+    expect(toLikePattern("$includes", "abc")).toBe("%abc%");
+  });
+
+  it("should escape the value of pattern operators", () => {
+    expect(toLikePattern("$includes", "50%_off")).toBe("%50\\%\\_off%");
+  });
+
+  it("should keep $like and $ilike patterns unchanged", () => {
+    expect(toLikePattern("$like", "a%")).toBe("a%");
+    expect(toLikePattern("$ilike", "a_")).toBe("a_");
+  });
+});
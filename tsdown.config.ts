@@ -2,11 +2,11 @@ import { defineConfig } from "tsdown";
 
 export default defineConfig([
   {
-    entry: ["./src/index.ts"],
+    entry: ["./src/index.ts", "./src/client.ts"],
     format: "esm",
   },
   {
-    entry: ["./src/index.ts"],
+    entry: ["./src/index.ts", "./src/client.ts"],
     format: "cjs",
     noExternal: ["chevrotain", "lodash-es"],
   },